@@ -1,34 +1,70 @@
-import React, { useState, useEffect } from 'react';
-import { AppStatus, VideoMetadata } from './types';
+import React, { useState, useEffect, useCallback } from 'react';
+import { AppStatus, RecordingCompleteDetails, VideoMetadata } from './types';
 import { Recorder } from './components/Recorder';
 import { Editor } from './components/Editor';
 import { FFmpegStatus } from './components/FFmpegStatus';
 import { Layers, Loader2 } from 'lucide-react';
 import { ffmpegService } from './services/ffmpegService';
-import { videoStorageService } from './services/videoStorageService';
+import { videoStorageService, type StoredVideo } from './services/videoStorageService';
 import { useI18n } from './i18n';
 import { LanguageSelector } from './components/LanguageSelector';
+import { RecoveryPrompt } from './components/RecoveryPrompt';
+import { recordingSessionService, type RecordingSession } from './services/recordingSessionService';
+import { captureVideoFrame } from './utils/videoFrames';
+
+// 记住目前开启的录制，刷新后回到同一笔
+const ACTIVE_RECORDING_STORAGE_KEY = 'screenclip.activeRecording';
+
+const getActiveRecordingId = (): string | null => {
+    if (typeof window === 'undefined') return null;
+    return window.localStorage.getItem(ACTIVE_RECORDING_STORAGE_KEY);
+};
+
+const setActiveRecordingId = (id: string) => {
+    if (typeof window === 'undefined') return;
+    window.localStorage.setItem(ACTIVE_RECORDING_STORAGE_KEY, id);
+};
 
 const App: React.FC = () => {
     const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
     const [videoData, setVideoData] = useState<VideoMetadata | null>(null);
     const [errorMsg, setErrorMsg] = useState<string | null>(null);
     const [isLoadingStored, setIsLoadingStored] = useState(true);
+    // 上次中断的录制 session（可恢复）
+    const [interruptedSessions, setInterruptedSessions] = useState<RecordingSession[]>([]);
+    const [isRecoveringSession, setIsRecoveringSession] = useState(false);
+    const [isCapturing, setIsCapturing] = useState(false);
     const { t } = useI18n();
 
-    // 页面加载时尝试从 IndexedDB 恢复视频
+    const openStoredVideo = (stored: StoredVideo) => {
+        const url = URL.createObjectURL(stored.blob);
+        setVideoData((prev) => {
+            if (prev) URL.revokeObjectURL(prev.url);
+            return {
+                blob: stored.blob,
+                url,
+                duration: stored.duration,
+                id: stored.id,
+                name: stored.name,
+            };
+        });
+        setActiveRecordingId(stored.id);
+        setStatus(AppStatus.REVIEWING);
+    };
+
+    // 页面加载时尝试从 IndexedDB 恢复上次打开的视频
     useEffect(() => {
         const loadStoredVideo = async () => {
             try {
-                const stored = await videoStorageService.loadVideo();
+                const activeId = getActiveRecordingId();
+                // null = 从未记录过（旧版用户）→ 打开最新一笔；'' = 使用者已回到录制页
+                const stored = activeId === null
+                    ? await videoStorageService.loadLatestVideo()
+                    : activeId
+                        ? await videoStorageService.loadVideo(activeId)
+                        : null;
                 if (stored && stored.blob && stored.blob.size > 0) {
-                    const url = URL.createObjectURL(stored.blob);
-                    setVideoData({
-                        blob: stored.blob,
-                        url,
-                        duration: stored.duration,
-                    });
-                    setStatus(AppStatus.REVIEWING);
+                    openStoredVideo(stored);
                     console.log('Restored video from IndexedDB:', stored.blob.size, 'bytes');
                 }
             } catch (error) {
@@ -39,9 +75,31 @@ const App: React.FC = () => {
         };
 
         loadStoredVideo();
+
+        recordingSessionService.listInterruptedSessions().then((sessions) => {
+            if (sessions.length > 0) {
+                console.log('Found interrupted recording sessions:', sessions.length);
+                setInterruptedSessions(sessions);
+            }
+        });
     }, []);
 
-    const handleRecordingComplete = async (blob: Blob, recordedDuration: number) => {
+    const handleOpenRecording = async (id: string) => {
+        if (id === videoData?.id) return;
+        try {
+            const stored = await videoStorageService.loadVideo(id);
+            if (!stored || !stored.blob || stored.blob.size === 0) {
+                setErrorMsg(t('app.error.openFailed'));
+                return;
+            }
+            openStoredVideo(stored);
+        } catch (error) {
+            console.error('Failed to open recording:', error);
+            setErrorMsg(t('app.error.openFailed'));
+        }
+    };
+
+    const handleRecordingComplete = async (blob: Blob, recordedDuration: number, details: RecordingCompleteDetails = {}) => {
         if (!blob || blob.size === 0) {
             setErrorMsg(t('app.error.empty'));
             setStatus(AppStatus.IDLE);
@@ -75,10 +133,19 @@ const App: React.FC = () => {
                     throw new Error(t('app.error.invalidDuration'));
                 }
 
-                // 保存到 IndexedDB
+                // 保存到 IndexedDB（素材库新增一笔，附带缩略图）
+                let id: string | undefined;
                 try {
-                    await videoStorageService.saveVideo(workingBlob, duration);
+                    const thumbnail = await captureVideoFrame(url, Math.min(1, duration / 2));
+                    id = await videoStorageService.saveVideo(workingBlob, duration, undefined, thumbnail ?? undefined);
+                    setActiveRecordingId(id);
                     console.log('Video saved to IndexedDB');
+                    // 已存入素材库，崩溃保护用的 chunk 可以清掉
+                    if (details.sessionId) {
+                        await recordingSessionService.discardSession(details.sessionId).catch((discardError) => {
+                            console.warn('Failed to discard recording session:', discardError);
+                        });
+                    }
                 } catch (saveError) {
                     console.warn('Failed to save video to IndexedDB:', saveError);
                 }
@@ -86,7 +153,9 @@ const App: React.FC = () => {
                 setVideoData({
                     blob: workingBlob,
                     url,
-                    duration
+                    duration,
+                    id,
+                    liveMarkers: details.markers,
                 });
                 setStatus(AppStatus.REVIEWING);
             };
@@ -120,24 +189,66 @@ const App: React.FC = () => {
         }
     };
 
-    const handleReset = async () => {
+    // 回到录制页（录制仍保留在素材库中）
+    const handleReset = () => {
         if (videoData) {
             URL.revokeObjectURL(videoData.url);
         }
+        setActiveRecordingId('');
 
-        // 删除 IndexedDB 中的存储
+        setVideoData(null);
+        setStatus(AppStatus.IDLE);
+        setErrorMsg(null);
+    };
+
+    const handleRecordingDeleted = (id: string) => {
+        if (id === videoData?.id) handleReset();
+    };
+
+    const dropInterruptedSession = (sessionId: string) => {
+        setInterruptedSessions((prev) => prev.filter((s) => s.sessionId !== sessionId));
+    };
+
+    // 把中断 session 的 chunk 拼回 WebM，走与正常录制相同的流程（含 fixWebmDuration）
+    const handleRecoverSession = async (session: RecordingSession) => {
+        setIsRecoveringSession(true);
         try {
-            await videoStorageService.deleteVideo();
-            console.log('Video deleted from IndexedDB');
+            const blob = await recordingSessionService.loadSessionBlob(session.sessionId);
+            dropInterruptedSession(session.sessionId);
+            if (!blob || blob.size === 0) {
+                await recordingSessionService.discardSession(session.sessionId);
+                setErrorMsg(t('app.recovery.failed'));
+                return;
+            }
+            if (videoData) {
+                URL.revokeObjectURL(videoData.url);
+                setVideoData(null);
+            }
+            await handleRecordingComplete(blob, session.duration, {
+                sessionId: session.sessionId,
+                markers: session.markers,
+            });
         } catch (error) {
-            console.warn('Failed to delete video from IndexedDB:', error);
+            console.error('Failed to recover recording session:', error);
+            setErrorMsg(t('app.recovery.failed'));
+        } finally {
+            setIsRecoveringSession(false);
         }
+    };
 
-        setVideoData(null);
-        setStatus(AppStatus.IDLE);
-        setErrorMsg(null);
+    const handleDiscardSession = async (session: RecordingSession) => {
+        dropInterruptedSession(session.sessionId);
+        try {
+            await recordingSessionService.discardSession(session.sessionId);
+        } catch (error) {
+            console.warn('Failed to discard recording session:', error);
+        }
     };
 
+    const handleRecordingStateChange = useCallback((recording: boolean) => {
+        setIsCapturing(recording);
+    }, []);
+
     const handleError = (msg: string) => {
         setErrorMsg(msg);
     };
@@ -198,12 +309,25 @@ const App: React.FC = () => {
                 </div>
             )}
 
+            {/* 中断录制恢复提示（录制/处理中不显示） */}
+            {interruptedSessions.length > 0 && !isCapturing && status !== AppStatus.PROCESSING && (
+                <RecoveryPrompt
+                    session={interruptedSessions[0]}
+                    isRecovering={isRecoveringSession}
+                    onRecover={() => handleRecoverSession(interruptedSessions[0])}
+                    onDiscard={() => handleDiscardSession(interruptedSessions[0])}
+                />
+            )}
+
             {/* Main Content - 编辑模式全屏，其他模式容器 */}
             {isEditorMode ? (
                 /* 编辑器全屏模式 - 无padding，无footer */
                 <Editor
+                    key={videoData.id ?? videoData.url}
                     videoMetadata={videoData}
                     onReset={handleReset}
+                    onOpenRecording={handleOpenRecording}
+                    onRecordingDeleted={handleRecordingDeleted}
                 />
             ) : (
                 /* 录制/处理模式 - 使用容器布局 */
@@ -214,6 +338,7 @@ const App: React.FC = () => {
                                 <Recorder
                                     onRecordingComplete={handleRecordingComplete}
                                     onError={handleError}
+                                    onRecordingStateChange={handleRecordingStateChange}
                                 />
                             )}
 
@@ -1,6 +1,8 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { ExportFormat, ExportFrameRateOption, ExportResolution, VideoMetadata, VideoQualityPreset, VIDEO_QUALITY_PRESETS } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { AnimatedExportSettings, CropAspect, DEFAULT_ANIMATED_EXPORT, EXPORT_FORMATS, EditorExportSettings, EMPTY_EXPORT_METADATA, ExportChapterSource, ExportCrop, ExportFormat, ExportMetadata, ExportFrameRateOption, ExportResolution, SUBTITLE_BURN_STYLE, SubtitleExportMode, TextOverlay, VideoMetadata, VideoQualityPreset, VIDEO_QUALITY_PRESETS, getSegmentSpeed, getSegmentTransition, getZoomAt, isAnimatedFormat, resolveZoomRegions } from '../types';
 import { formatTime, generateFileName, formatBytes } from '../utils/format';
+import { fitCropToAspect, isFullFrameCrop } from '../utils/crop';
+import { getOutputFrameLayout } from '../services/ffmpeg/ffmpegUtils';
 import { EditorHeader } from './editor/EditorHeader';
 import { EditorPlayer } from './editor/EditorPlayer';
 import { EditorLayout } from './editor/EditorLayout';
@@ -12,19 +14,42 @@ import { useI18n } from '../i18n';
 import { useEditorExportController } from './editor/useEditorExportController';
 import { useSegmentsEditor } from './editor/useSegmentsEditor';
 import { useKeyboardShortcuts } from './editor/useKeyboardShortcuts';
+import { useRecordingLibrary } from './editor/useRecordingLibrary';
+import { useProjectPersistence } from './editor/useProjectPersistence';
+import { useWaveform } from './editor/useWaveform';
+import { useFilmstrip } from './editor/useFilmstrip';
+import { useSilenceDetection } from './editor/useSilenceDetection';
+import { SilenceDetectionPanel } from './editor/analysis/SilenceDetectionPanel';
+import { useSceneDetection } from './editor/useSceneDetection';
+import { SceneDetectionPanel } from './editor/analysis/SceneDetectionPanel';
+import { useMarkers } from './editor/useMarkers';
+import { useTextOverlays } from './editor/useTextOverlays';
+import { useZoomRegions } from './editor/useZoomRegions';
+import { useSubtitles } from './editor/useSubtitles';
+import { LibrarySubtitleList } from './editor/library/LibrarySubtitleList';
+import { LibraryMarkerList } from './editor/library/LibraryMarkerList';
+import { LibraryHistoryList } from './editor/library/LibraryHistoryList';
 
 interface EditorProps {
     videoMetadata: VideoMetadata;
     onReset: () => void;
+    /** 从素材库打开另一笔录制 */
+    onOpenRecording: (id: string) => void;
+    /** 素材库删除了某笔录制（若是目前这笔，上层需离开编辑器） */
+    onRecordingDeleted: (id: string) => void;
 }
 
-export const Editor: React.FC<EditorProps> = ({ videoMetadata, onReset }) => {
+export const Editor: React.FC<EditorProps> = ({ videoMetadata, onReset, onOpenRecording, onRecordingDeleted }) => {
     const { t } = useI18n();
     const videoRef = useRef<HTMLVideoElement>(null);
     const [isPlaying, setIsPlaying] = useState(false);
     const [currentTime, setCurrentTime] = useState(0);
     const [playbackError, setPlaybackError] = useState<string | null>(null);
     const [isFullscreen, setIsFullscreen] = useState(false);
+    // 时间轴 skimming 位置（只驱动播放器上的预览层，不移动播放头）
+    const [skimTime, setSkimTime] = useState<number | null>(null);
+    // 录制画面尺寸（文字叠加的预览与导出排版）
+    const [videoSize, setVideoSize] = useState<{ width: number; height: number } | null>(null);
 
     // Export Configuration State
     const [showAdvanced, setShowAdvanced] = useState(false);
@@ -33,6 +58,77 @@ export const Editor: React.FC<EditorProps> = ({ videoMetadata, onReset }) => {
     const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('mp4');
     const [selectedFps, setSelectedFps] = useState<ExportFrameRateOption>(30);
     const [customCrf, setCustomCrf] = useState<number>(VIDEO_QUALITY_PRESETS['medium'].crf);
+    const [animationSettings, setAnimationSettings] = useState<AnimatedExportSettings>(DEFAULT_ANIMATED_EXPORT);
+    const [fastExport, setFastExport] = useState(false);
+    const [chapterSource, setChapterSource] = useState<ExportChapterSource>('none');
+    const [exportMetadata, setExportMetadata] = useState<ExportMetadata>(EMPTY_EXPORT_METADATA);
+    const [subtitleMode, setSubtitleMode] = useState<SubtitleExportMode>('soft');
+    // 导出裁切（录制画面的比例；null = 整个画面）
+    const [crop, setCrop] = useState<ExportCrop | null>(null);
+    const [cropAspect, setCropAspect] = useState<CropAspect>('free');
+    const [isEditingCrop, setIsEditingCrop] = useState(false);
+    // stream copy 只能从 WebM 来源输出 WebM
+    const isWebmSource = videoMetadata.blob.type.includes('webm');
+
+    // 切换品质预设时同步 CRF（放在 handler 而非 effect，避免恢复专案/套用预设时被覆盖）
+    const selectQuality = (preset: VideoQualityPreset) => {
+        setSelectedQuality(preset);
+        setCustomCrf(VIDEO_QUALITY_PRESETS[preset].crf);
+    };
+
+    const exportSettings = useMemo<EditorExportSettings>(() => ({
+        quality: selectedQuality,
+        resolution: selectedResolution,
+        format: selectedFormat,
+        fps: selectedFps,
+        crf: customCrf,
+        animation: animationSettings,
+        fastExport,
+        chapters: chapterSource,
+        metadata: exportMetadata,
+        subtitles: subtitleMode,
+        crop,
+        cropAspect,
+    }), [selectedQuality, selectedResolution, selectedFormat, selectedFps, customCrf, animationSettings, fastExport, chapterSource, exportMetadata, subtitleMode, crop, cropAspect]);
+
+    const restoreExportSettings = (settings: EditorExportSettings) => {
+        setSelectedQuality(settings.quality);
+        setSelectedResolution(settings.resolution);
+        setSelectedFormat(settings.format);
+        setSelectedFps(settings.fps);
+        setCustomCrf(settings.crf);
+        setAnimationSettings(settings.animation);
+        setFastExport(settings.fastExport);
+        setChapterSource(settings.chapters);
+        setExportMetadata(settings.metadata);
+        setSubtitleMode(settings.subtitles);
+        setCrop(settings.crop);
+        setCropAspect(settings.cropAspect);
+    };
+
+    // 套用比例预设：放得下的最大框，并进入裁切编辑
+    const selectCropAspect = (aspect: CropAspect) => {
+        setCropAspect(aspect);
+        if (!videoSize) return;
+        setCrop(fitCropToAspect(crop, aspect, videoSize));
+        setIsEditingCrop(true);
+    };
+
+    const toggleEditingCrop = () => {
+        if (isEditingCrop) {
+            // 拉回整个画面就等于没有裁切
+            if (crop && isFullFrameCrop(crop)) setCrop(null);
+        } else if (!crop && videoSize) {
+            setCrop(fitCropToAspect(null, cropAspect, videoSize));
+        }
+        setIsEditingCrop(!isEditingCrop);
+    };
+
+    const resetCrop = () => {
+        setCrop(null);
+        setCropAspect('free');
+        setIsEditingCrop(false);
+    };
 
     const applyHighQualityPreset = () => {
         setSelectedQuality('high');
@@ -57,11 +153,6 @@ export const Editor: React.FC<EditorProps> = ({ videoMetadata, onReset }) => {
         }
     }, [videoMetadata, t]);
 
-    // Reset CRF when quality preset changes
-    useEffect(() => {
-        setCustomCrf(VIDEO_QUALITY_PRESETS[selectedQuality].crf);
-    }, [selectedQuality]);
-
     const getSafeDuration = () => {
         const vidDur = videoRef.current?.duration;
         if (vidDur && Number.isFinite(vidDur)) return vidDur;
@@ -71,6 +162,9 @@ export const Editor: React.FC<EditorProps> = ({ videoMetadata, onReset }) => {
     const maxDuration = Math.max(getSafeDuration(), 1);
 
     const {
+        segments,
+        history,
+        historyIndex,
         safeSegments,
         selectedSegment,
         activeSegment,
@@ -78,45 +172,186 @@ export const Editor: React.FC<EditorProps> = ({ videoMetadata, onReset }) => {
         previewIndex,
         totalSelectedDuration,
         canUndo,
+        canRedo,
         setPreviewIndex,
         selectIndex,
         setSelectedIndexDirect,
         updateSelectedSegment,
+        finishTrim,
         splitSelectedAt,
+        splitAtTimes,
+        moveSegment,
+        duplicateSelectedSegment,
+        setSelectedSegmentSpeed,
+        setTransitionAfter,
         deleteSelectedSegment,
         removeInterval,
+        removeIntervals,
         undo,
+        redo,
+        jumpToHistory,
         resetSegments,
+        restoreState,
         syncDurationIfUntouched,
     } = useSegmentsEditor({
         initialDuration: videoMetadata.duration,
         maxDuration,
     });
 
+    // 文字叠加（不进撤销历史）
+    const {
+        overlays: textOverlays,
+        selectedOverlay: selectedTextOverlay,
+        selectOverlay: selectTextOverlay,
+        addOverlay: addTextOverlay,
+        updateOverlay: updateTextOverlay,
+        removeOverlay: removeTextOverlay,
+        restoreOverlays: restoreTextOverlays,
+    } = useTextOverlays(maxDuration);
+
+    // 缩放区域（不进撤销历史）
+    const {
+        regions: zoomRegions,
+        selectedRegion: selectedZoomRegion,
+        selectRegion: selectZoomRegion,
+        addRegion: addZoomRegion,
+        updateRegion: updateZoomRegion,
+        removeRegion: removeZoomRegion,
+        restoreRegions: restoreZoomRegions,
+    } = useZoomRegions(maxDuration);
+    // 播放器预览缩放（选取某段时改为显示目标框，不缩放）
+    const resolvedZoomRegions = useMemo(() => resolveZoomRegions(zoomRegions), [zoomRegions]);
+    const zoomPreview = resolvedZoomRegions.length > 0 && !selectedZoomRegion ? getZoomAt(resolvedZoomRegions, currentTime) : null;
+
+    // 字幕（汇入的 SRT / VTT；不进撤销历史）
+    const subtitles = useSubtitles();
+    const hasSubtitles = subtitleMode !== 'none' && subtitles.cues.length > 0;
+
+    // 播放器预览：文字叠加 + 要导出的字幕（一律以烧录的样式显示）
+    const previewOverlays = useMemo<TextOverlay[]>(() => hasSubtitles
+        ? [...textOverlays, ...subtitles.cues.map((cue) => ({ ...SUBTITLE_BURN_STYLE, ...cue }))]
+        : textOverlays, [hasSubtitles, textOverlays, subtitles.cues]);
+
+    // 几乎整个画面的裁切框等于没有裁切
+    const exportCrop = crop && !isFullFrameCrop(crop) ? crop : null;
+    // 导出画面尺寸（裁切后再按分辨率预设缩放）
+    const outputSize = videoSize ? getOutputFrameLayout({ resolution: selectedResolution, crop: exportCrop ?? undefined }, videoSize) : null;
+    const outputSizeLabel = outputSize ? `${outputSize.width}×${outputSize.height}` : undefined;
+
+    // stream copy 无法变速 / 转场 / 叠字 / 加字幕 / 裁切 / 缩放：有这些效果时改为重新编码
+    const needsReencode = textOverlays.length > 0 || hasSubtitles || !!exportCrop || zoomRegions.length > 0 || safeSegments.some((seg, i) =>
+        getSegmentSpeed(seg) !== 1 || getSegmentTransition(safeSegments, i) !== null);
+    const canStreamCopy = isWebmSource && !needsReencode;
+
+    // 播放器跟着目前片段（预览时是正在播的那段）的速度
+    const activeSpeed = getSegmentSpeed(activeSegment);
+    useEffect(() => {
+        if (videoRef.current) videoRef.current.playbackRate = activeSpeed;
+    }, [activeSpeed]);
+
+    // 时间轴标记（不进撤销历史）
+    const {
+        markers,
+        addMarker,
+        updateMarker,
+        removeMarker,
+        restoreMarkers,
+        findPreviousMarker,
+        findNextMarker,
+    } = useMarkers(videoMetadata.liveMarkers);
+
     const {
         isProcessing,
         processingProgress,
         processingEta,
+        isCancelling,
         exportUrl,
         exportError,
+        exportNotice,
+        queue: exportQueue,
+        isQueueRunning,
         exportTrimmed,
         exportFull,
+        cancelExport,
+        addToQueue,
+        removeFromQueue,
+        clearQueue,
+        runQueue,
         clearExportUrl,
         clearExportError,
     } = useEditorExportController({
         videoMetadata,
         segments: safeSegments,
+        markers,
+        textOverlays,
+        subtitles: subtitles.cues,
+        zoomRegions,
+        duration: maxDuration,
+        videoSize,
         selectedQuality,
         selectedResolution,
         selectedFormat,
         selectedFps,
         customCrf,
+        animationSettings,
+        fastExport: fastExport && canStreamCopy,
+        chapterSource,
+        exportMetadata,
+        subtitleMode,
+        crop,
+        cropAspect,
         playbackError,
         setPlaybackError,
         t,
     });
 
-    const estimatedSize = ffmpegService.estimateFileSize(totalSelectedDuration, selectedQuality);
+    // 剪辑专案：开启时恢复、编辑时自动保存
+    useProjectPersistence({
+        recordingId: videoMetadata.id,
+        segments,
+        markers,
+        textOverlays,
+        subtitles: subtitles.cues,
+        zoomRegions,
+        selectedIndex,
+        history,
+        historyIndex,
+        exportSettings,
+        onRestore: (project) => {
+            restoreState(project);
+            restoreMarkers(project.markers);
+            restoreTextOverlays(project.textOverlays);
+            restoreZoomRegions(project.zoomRegions);
+            subtitles.restoreCues(project.subtitles);
+            restoreExportSettings(project.exportSettings);
+        },
+    });
+
+    const library = useRecordingLibrary({ onDeleted: onRecordingDeleted });
+
+    // 音频波形（第一次开启时解码，之后读快取）
+    const { waveform, isLoading: isWaveformLoading } = useWaveform({ recordingId: videoMetadata.id, blob: videoMetadata.blob });
+
+    // 静音侦测（以波形计算；套用时一次扣掉，只算一步撤销）
+    const silence = useSilenceDetection({ waveform, isWaveformLoading, onRemoveIntervals: removeIntervals });
+
+    // 画面切换检测（FFmpeg）；「全部分割」只算一步撤销
+    const scenes = useSceneDetection({ blob: videoMetadata.blob, onSplitAtTimes: splitAtTimes });
+
+    // 时间轴缩略图（背景逐步产生，之后读快取）
+    const filmstrip = useFilmstrip({
+        recordingId: videoMetadata.id,
+        videoUrl: videoMetadata.url,
+        duration: videoMetadata.duration,
+    });
+
+    // 动图大小取决于画面内容，无法用码率估算
+    // stream copy 沿用原始码率，按选取时长比例估算
+    const estimatedSize = isAnimatedFormat(selectedFormat)
+        ? t('editor.export.estimateUnavailable')
+        : fastExport && canStreamCopy && selectedFormat === 'webm'
+            ? `~${formatBytes(videoMetadata.blob.size * Math.min(totalSelectedDuration / maxDuration, 1))}`
+            : ffmpegService.estimateFileSize(totalSelectedDuration, selectedQuality, selectedFormat);
 
     // Final Cut Pro 风格键盘快捷键
     useKeyboardShortcuts({
@@ -139,7 +374,12 @@ export const Editor: React.FC<EditorProps> = ({ videoMetadata, onReset }) => {
         },
         onSplitAtPlayhead: () => splitSelectedAt(currentTime),
         onUndo: undo,
+        onRedo: redo,
+        onDuplicateSelected: duplicateSelectedSegment,
         onDeleteSelected: deleteSelectedSegment,
+        onAddMarker: () => addMarker(videoRef.current?.currentTime ?? currentTime),
+        onPreviousMarker: () => seekToPreviousMarker(),
+        onNextMarker: () => seekToNextMarker(),
         maxDuration,
         segmentStart: selectedSegment.start,
         segmentEnd: selectedSegment.end,
@@ -179,6 +419,8 @@ export const Editor: React.FC<EditorProps> = ({ videoMetadata, onReset }) => {
     const handleLoadedMetadata = () => {
         if (videoRef.current) {
             const dur = videoRef.current.duration;
+            const { videoWidth, videoHeight } = videoRef.current;
+            setVideoSize(videoWidth > 0 && videoHeight > 0 ? { width: videoWidth, height: videoHeight } : null);
             if (Number.isFinite(dur) && dur !== Infinity && !isNaN(dur)) {
                 if (dur <= 0) {
                     setPlaybackError(t('editor.playback.durationZero'));
@@ -213,6 +455,16 @@ export const Editor: React.FC<EditorProps> = ({ videoMetadata, onReset }) => {
         }
     };
 
+    const seekToPreviousMarker = () => {
+        const marker = findPreviousMarker(videoRef.current?.currentTime ?? currentTime);
+        if (marker) handleSeek(marker.time);
+    };
+
+    const seekToNextMarker = () => {
+        const marker = findNextMarker(videoRef.current?.currentTime ?? currentTime);
+        if (marker) handleSeek(marker.time);
+    };
+
     const toggleFullscreen = () => {
         const target = videoRef.current;
         if (!target) return;
@@ -238,14 +490,6 @@ export const Editor: React.FC<EditorProps> = ({ videoMetadata, onReset }) => {
         return Math.min(100, Math.max(0, pct));
     })();
 
-    // 视频信息
-    const videoInfo = {
-        name: 'Screen Recording',
-        duration: maxDuration,
-        size: videoMetadata.blob.size,
-        url: videoMetadata.url,
-    };
-
     return (
         <div className="w-full flex-1 flex flex-col animate-fade-in min-h-0">
             {/* 顶部标题栏 - 全宽 */}
@@ -258,9 +502,76 @@ export const Editor: React.FC<EditorProps> = ({ videoMetadata, onReset }) => {
                 /* 左侧素材库 */
                 libraryPanel={
                     <LibraryPanel
-                        videoInfo={videoInfo}
+                        recordings={library.items}
+                        isLoadingRecordings={library.isLoading}
+                        activeRecordingId={videoMetadata.id}
+                        onOpenRecording={onOpenRecording}
+                        onRenameRecording={library.renameRecording}
+                        onDeleteRecording={library.deleteRecording}
+                        onSetRecordingTags={library.setRecordingTags}
                         segmentCount={safeSegments.length}
                         totalSelectedDuration={totalSelectedDuration}
+                        markerPanel={
+                            <LibraryMarkerList
+                                markers={markers}
+                                onAddMarker={() => addMarker(videoRef.current?.currentTime ?? currentTime)}
+                                onSeekMarker={(marker) => handleSeek(marker.time)}
+                                onUpdateMarker={updateMarker}
+                                onRemoveMarker={removeMarker}
+                                onPreviousMarker={seekToPreviousMarker}
+                                onNextMarker={seekToNextMarker}
+                            />
+                        }
+                        subtitlePanel={
+                            <LibrarySubtitleList
+                                cues={subtitles.cues}
+                                importError={subtitles.importError}
+                                onImportFile={(file) => subtitles.importFile(file, t('editor.subtitles.importFailed'))}
+                                onDownload={(format) => subtitles.downloadFile(format, safeSegments, generateFileName('screen-recording', format))}
+                                onClear={subtitles.clearCues}
+                                onSeekCue={(cue) => handleSeek(cue.start)}
+                            />
+                        }
+                        historyPanel={
+                            <LibraryHistoryList
+                                history={history}
+                                historyIndex={historyIndex}
+                                canUndo={canUndo}
+                                canRedo={canRedo}
+                                onUndo={undo}
+                                onRedo={redo}
+                                onJump={jumpToHistory}
+                            />
+                        }
+                        analysisPanel={
+                            <div className="space-y-4">
+                                <SilenceDetectionPanel
+                                    settings={silence.settings}
+                                    onChangeSettings={silence.setSettings}
+                                    isActive={silence.isActive}
+                                    rangeCount={silence.ranges.length}
+                                    totalDuration={silence.totalDuration}
+                                    canDetect={silence.canDetect}
+                                    isWaveformLoading={silence.isWaveformLoading}
+                                    onDetect={silence.detect}
+                                    onClear={silence.clear}
+                                    onApply={silence.apply}
+                                />
+                                <SceneDetectionPanel
+                                    threshold={scenes.threshold}
+                                    onChangeThreshold={scenes.setThreshold}
+                                    isDetecting={scenes.isDetecting}
+                                    hasResult={scenes.hasResult}
+                                    suggestionCount={scenes.suggestions.length}
+                                    error={scenes.error}
+                                    isBusy={isProcessing || isQueueRunning}
+                                    onDetect={scenes.detect}
+                                    onCancel={scenes.cancel}
+                                    onClear={scenes.clear}
+                                    onApply={scenes.apply}
+                                />
+                            </div>
+                        }
                     />
                 }
 
@@ -277,6 +588,18 @@ export const Editor: React.FC<EditorProps> = ({ videoMetadata, onReset }) => {
                         totalTimeLabel={formatTime(maxDuration)}
                         sizeLabel={formatBytes(videoMetadata.blob.size)}
                         progressPercent={segmentProgressPercent}
+                        skimTime={skimTime}
+                        textOverlays={previewOverlays}
+                        currentTime={currentTime}
+                        videoSize={videoSize}
+                        crop={crop}
+                        cropAspect={cropAspect}
+                        isEditingCrop={isEditingCrop}
+                        onChangeCrop={setCrop}
+                        cropSizeLabel={outputSizeLabel}
+                        zoomPreview={zoomPreview}
+                        selectedZoomRegion={selectedZoomRegion}
+                        onChangeZoomTarget={updateZoomRegion}
                         onTimeUpdate={handleTimeUpdate}
                         onLoadedMetadata={handleLoadedMetadata}
                         onPlay={() => setIsPlaying(true)}
@@ -299,10 +622,30 @@ export const Editor: React.FC<EditorProps> = ({ videoMetadata, onReset }) => {
                 /* 右侧检查器/导出 */
                 inspectorPanel={
                     <InspectorPanel
+                        selectedSegment={selectedSegment}
+                        selectedIndex={selectedIndex}
+                        onChangeSegmentSpeed={setSelectedSegmentSpeed}
+                        selectedTextOverlay={selectedTextOverlay}
+                        onUpdateTextOverlay={updateTextOverlay}
+                        onRemoveTextOverlay={removeTextOverlay}
+                        onDeselectTextOverlay={() => selectTextOverlay(null)}
+                        selectedZoomRegion={selectedZoomRegion}
+                        onUpdateZoomRegion={updateZoomRegion}
+                        onRemoveZoomRegion={removeZoomRegion}
+                        onDeselectZoomRegion={() => selectZoomRegion(null)}
+                        currentTime={currentTime}
+                        crop={crop}
+                        cropAspect={cropAspect}
+                        videoSize={videoSize}
+                        isEditingCrop={isEditingCrop}
+                        onToggleEditingCrop={toggleEditingCrop}
+                        onSelectCropAspect={selectCropAspect}
+                        onResetCrop={resetCrop}
+                        outputSizeLabel={outputSizeLabel}
                         showAdvanced={showAdvanced}
                         onToggleAdvanced={() => setShowAdvanced(!showAdvanced)}
                         selectedQuality={selectedQuality}
-                        onSelectQuality={setSelectedQuality}
+                        onSelectQuality={selectQuality}
                         selectedResolution={selectedResolution}
                         onSelectResolution={setSelectedResolution}
                         selectedFormat={selectedFormat}
@@ -311,19 +654,47 @@ export const Editor: React.FC<EditorProps> = ({ videoMetadata, onReset }) => {
                         onSelectFps={setSelectedFps}
                         customCrf={customCrf}
                         onChangeCrf={setCustomCrf}
+                        animationSettings={animationSettings}
+                        onChangeAnimation={setAnimationSettings}
+                        fastExport={fastExport}
+                        onChangeFastExport={setFastExport}
+                        canStreamCopy={canStreamCopy}
+                        isWebmSource={isWebmSource}
+                        chapterSource={chapterSource}
+                        onChangeChapterSource={setChapterSource}
+                        markerCount={markers.length}
+                        segmentCount={safeSegments.length}
+                        exportMetadata={exportMetadata}
+                        onChangeExportMetadata={setExportMetadata}
+                        subtitleMode={subtitleMode}
+                        onChangeSubtitleMode={setSubtitleMode}
+                        subtitleCount={subtitles.cues.length}
                         estimatedSize={estimatedSize}
                         isProcessing={isProcessing}
                         processingProgress={processingProgress}
                         processingEta={processingEta}
+                        isCancelling={isCancelling}
                         exportUrl={exportUrl}
                         exportError={exportError}
+                        exportNotice={exportNotice}
+                        queue={exportQueue}
+                        isQueueRunning={isQueueRunning}
                         playbackError={playbackError}
                         onApplyHighQualityPreset={applyHighQualityPreset}
                         onExportTrimmed={exportTrimmed}
                         onExportFull={exportFull}
                         onClearExportUrl={clearExportUrl}
                         onClearExportError={clearExportError}
-                        downloadFileName={generateFileName('screen-recording', selectedFormat)}
+                        onCancelExport={cancelExport}
+                        onAddToQueue={() => addToQueue('trimmed')}
+                        onRemoveFromQueue={removeFromQueue}
+                        onClearQueue={clearQueue}
+                        onRunQueue={runQueue}
+                        downloadFileName={generateFileName('screen-recording', EXPORT_FORMATS[selectedFormat].extension)}
+                        getQueueDownloadFileName={(job) => generateFileName(
+                            `screen-recording-${job.settings.resolution}-${job.settings.quality}`,
+                            EXPORT_FORMATS[job.settings.format].extension,
+                        )}
                     />
                 }
 
@@ -336,6 +707,7 @@ export const Editor: React.FC<EditorProps> = ({ videoMetadata, onReset }) => {
                         currentTime={currentTime}
                         totalSelectedDuration={totalSelectedDuration}
                         canUndo={canUndo}
+                        canRedo={canRedo}
                         canDelete={safeSegments.length > 1}
                         onSelectSegment={(idx) => {
                             selectIndex(idx);
@@ -343,16 +715,39 @@ export const Editor: React.FC<EditorProps> = ({ videoMetadata, onReset }) => {
                                 videoRef.current.currentTime = safeSegments[Math.min(idx, safeSegments.length - 1)].start;
                             }
                         }}
+                        onTrimSelected={updateSelectedSegment}
+                        onTrimEnd={finishTrim}
+                        onMoveSegment={moveSegment}
+                        onChangeTransition={setTransitionAfter}
                         onSeek={handleSeek}
                         onSplitAt={(time) => splitSelectedAt(time)}
+                        onDuplicateSelected={duplicateSelectedSegment}
                         onDeleteSelected={deleteSelectedSegment}
                         onUndo={undo}
+                        onRedo={redo}
                         onPreviewEdited={previewEditedResult}
                         onResetTrim={() => {
                             resetSegments();
                             if (videoRef.current) videoRef.current.currentTime = 0;
                         }}
                         skimmingEnabled={!isPlaying}
+                        onSkimChange={setSkimTime}
+                        waveform={waveform}
+                        filmstrip={filmstrip}
+                        silenceRanges={silence.ranges}
+                        sceneSuggestions={scenes.suggestions}
+                        markers={markers}
+                        textOverlays={textOverlays}
+                        selectedTextOverlayId={selectedTextOverlay?.id ?? null}
+                        onSelectTextOverlay={selectTextOverlay}
+                        onUpdateTextOverlay={updateTextOverlay}
+                        onAddTextOverlay={() => addTextOverlay(videoRef.current?.currentTime ?? currentTime, t('editor.textOverlay.defaultText'))}
+                        subtitles={subtitles.cues}
+                        zoomRegions={zoomRegions}
+                        selectedZoomRegionId={selectedZoomRegion?.id ?? null}
+                        onSelectZoomRegion={selectZoomRegion}
+                        onUpdateZoomRegion={updateZoomRegion}
+                        onAddZoomRegion={() => addZoomRegion(videoRef.current?.currentTime ?? currentTime)}
                     />
                 }
             />
@@ -1,16 +1,23 @@
-import React from 'react';
+import React, { useEffect } from 'react';
+import type { RecordingCompleteDetails } from '../types';
 import { RecorderSidebar } from './recorder/RecorderSidebar';
 import { RecorderPreview } from './recorder/RecorderPreview';
 import { useRecorderController } from './recorder/useRecorderController';
 
 interface RecorderProps {
-    onRecordingComplete: (blob: Blob, duration: number) => void;
+    onRecordingComplete: (blob: Blob, duration: number, details: RecordingCompleteDetails) => void;
     onError: (msg: string) => void;
+    /** 通知上层目前是否正在录制（例如录制中隐藏恢复提示） */
+    onRecordingStateChange?: (isRecording: boolean) => void;
 }
 
-export const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, onError }) => {
+export const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, onError, onRecordingStateChange }) => {
     const rc = useRecorderController({ onRecordingComplete, onError });
 
+    useEffect(() => {
+        onRecordingStateChange?.(rc.isRecording);
+    }, [rc.isRecording, onRecordingStateChange]);
+
     return (
         <div className="w-full h-full px-4 sm:px-6 py-4 sm:py-6 animate-in fade-in zoom-in duration-300 text-sm">
             <div className="mx-auto w-full max-w-7xl">
@@ -38,11 +45,13 @@ export const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, onError
                         isRecording={rc.isRecording}
                         isPaused={rc.isPaused}
                         recordingTimeLabel={rc.recordingTimeLabel}
+                        liveMarkerCount={rc.liveMarkerCount}
                         activeStream={rc.activeStream}
                         micStream={rc.micStream}
                         enableCam={rc.enableCam}
                         onPauseResume={rc.pauseResume}
                         onStop={rc.stopAction}
+                        onAddMarker={rc.addLiveMarker}
                         onCyclePipPosition={rc.cyclePIPPosition}
                     />
                 </div>
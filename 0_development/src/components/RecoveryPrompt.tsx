@@ -0,0 +1,55 @@
+import React from 'react';
+import { History, Loader2 } from 'lucide-react';
+import type { RecordingSession } from '../services/recordingSessionService';
+import { formatTime } from '../utils/format';
+import { useI18n } from '../i18n';
+
+interface RecoveryPromptProps {
+    session: RecordingSession;
+    isRecovering: boolean;
+    onRecover: () => void;
+    onDiscard: () => void;
+}
+
+/**
+ * 上次录制中断（分页崩溃 / 关闭）时，提示使用者恢复已写入 IndexedDB 的 chunk
+ */
+export const RecoveryPrompt: React.FC<RecoveryPromptProps> = ({ session, isRecovering, onRecover, onDiscard }) => {
+    const { t } = useI18n();
+
+    return (
+        <div className="px-4 py-2 bg-amber-900/20 border-b border-amber-500/40 text-amber-100 flex flex-wrap items-center justify-between gap-3 animate-fade-in flex-shrink-0">
+            <div className="flex items-center gap-2 min-w-0">
+                <History size={16} className="text-amber-300 shrink-0" />
+                <div className="min-w-0">
+                    <div className="text-sm font-medium">{t('app.recovery.title')}</div>
+                    <div className="text-xs text-amber-200/70">
+                        {t('app.recovery.detail', {
+                            date: new Date(session.startedAt).toLocaleString(),
+                            duration: formatTime(session.duration),
+                        })}
+                    </div>
+                </div>
+            </div>
+            <div className="flex items-center gap-2">
+                <button
+                    type="button"
+                    onClick={onRecover}
+                    disabled={isRecovering}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-amber-500/80 hover:bg-amber-400 text-slate-900 text-xs font-semibold disabled:opacity-50"
+                >
+                    {isRecovering && <Loader2 size={12} className="animate-spin" />}
+                    {t('app.recovery.recover')}
+                </button>
+                <button
+                    type="button"
+                    onClick={onDiscard}
+                    disabled={isRecovering}
+                    className="px-3 py-1.5 rounded-md text-xs text-amber-200 hover:text-white hover:bg-amber-900/40 disabled:opacity-50"
+                >
+                    {t('app.recovery.discard')}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,103 @@
+import React, { useRef } from 'react';
+import type { CropAspect, ExportCrop } from '../../types';
+import { moveCrop, resizeCrop, type CropHandle } from '../../utils/crop';
+import { VideoContentBox } from './VideoContentBox';
+
+const HANDLES: Array<{ handle: CropHandle; className: string }> = [
+    { handle: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+    { handle: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+    { handle: 'sw', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+    { handle: 'se', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+];
+
+interface CropOverlayProps {
+    crop: ExportCrop;
+    aspect: CropAspect;
+    videoSize: { width: number; height: number };
+    /** false：只把裁切框外变暗（预览），不能拖曳 */
+    isEditing: boolean;
+    onChange: (crop: ExportCrop) => void;
+    /** 框内显示的输出尺寸（例如 1080×1920） */
+    sizeLabel?: string;
+}
+
+/**
+ * 播放器上的裁切框：拖框移动、拖四角调整大小（锁定比例时保持比例）
+ * - 框外变暗，导出时只保留框内
+ */
+export const CropOverlay: React.FC<CropOverlayProps> = ({ crop, aspect, videoSize, isEditing, onChange, sizeLabel }) => {
+    const boxRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ handle: CropHandle | 'move'; x: number; y: number; start: ExportCrop } | null>(null);
+
+    const startDrag = (e: React.PointerEvent, handle: CropHandle | 'move') => {
+        e.stopPropagation();
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { handle, x: e.clientX, y: e.clientY, start: crop };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        const box = boxRef.current;
+        if (!drag || !box) return;
+        const rect = box.getBoundingClientRect();
+        const dx = (e.clientX - drag.x) / rect.width;
+        const dy = (e.clientY - drag.y) / rect.height;
+        onChange(drag.handle === 'move'
+            ? moveCrop(drag.start, dx, dy)
+            : resizeCrop(drag.start, drag.handle, dx, dy, aspect, videoSize));
+    };
+
+    const endDrag = () => {
+        dragRef.current = null;
+    };
+
+    return (
+        <VideoContentBox videoSize={videoSize} className="z-20 pointer-events-none">
+            <div
+                ref={boxRef}
+                className={`absolute inset-0 overflow-hidden ${isEditing ? 'pointer-events-auto' : ''}`}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div
+                    className={`absolute ${isEditing ? 'border-2 border-yellow-400 cursor-move' : 'border border-white/40'}`}
+                    style={{
+                        left: `${crop.x * 100}%`,
+                        top: `${crop.y * 100}%`,
+                        width: `${crop.width * 100}%`,
+                        height: `${crop.height * 100}%`,
+                        boxShadow: `0 0 0 9999px rgba(0, 0, 0, ${isEditing ? 0.6 : 0.45})`,
+                    }}
+                    onPointerDown={isEditing ? (e) => startDrag(e, 'move') : undefined}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={endDrag}
+                    onPointerCancel={endDrag}
+                >
+                    {isEditing && (
+                        <>
+                            {/* 三分线 */}
+                            <div className="absolute inset-0 pointer-events-none">
+                                <div className="absolute left-1/3 top-0 bottom-0 w-px bg-white/25" />
+                                <div className="absolute left-2/3 top-0 bottom-0 w-px bg-white/25" />
+                                <div className="absolute top-1/3 left-0 right-0 h-px bg-white/25" />
+                                <div className="absolute top-2/3 left-0 right-0 h-px bg-white/25" />
+                            </div>
+                            {HANDLES.map(({ handle, className }) => (
+                                <div
+                                    key={handle}
+                                    className={`absolute w-3 h-3 rounded-sm bg-yellow-400 border border-slate-900 ${className}`}
+                                    onPointerDown={(e) => startDrag(e, handle)}
+                                />
+                            ))}
+                            {sizeLabel && (
+                                <div className="absolute left-1/2 top-1 -translate-x-1/2 px-1.5 py-0.5 rounded bg-black/70 text-[10px] font-mono text-yellow-200 pointer-events-none">
+                                    {sizeLabel}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </VideoContentBox>
+    );
+};
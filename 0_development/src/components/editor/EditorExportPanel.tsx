@@ -1,7 +1,7 @@
 import React from 'react';
 import { Button } from '../Button';
 import { ChevronDown, Settings } from 'lucide-react';
-import type { ExportFormat, ExportFrameRateOption, ExportResolution, VideoQualityPreset } from '../../types';
+import type { AnimatedExportSettings, ExportChapterSource, ExportFormat, ExportMetadata, ExportFrameRateOption, ExportResolution, VideoQualityPreset } from '../../types';
 import { useI18n } from '../../i18n';
 import { EditorExportAdvancedSettings } from './exportPanel/EditorExportAdvancedSettings';
 import { EditorExportFooterActions } from './exportPanel/EditorExportFooterActions';
@@ -27,14 +27,31 @@ interface EditorExportPanelProps {
     customCrf: number;
     onChangeCrf: (crf: number) => void;
 
+    animationSettings: AnimatedExportSettings;
+    onChangeAnimation: (settings: AnimatedExportSettings) => void;
+
+    fastExport: boolean;
+    onChangeFastExport: (enabled: boolean) => void;
+    canStreamCopy: boolean;
+    isWebmSource: boolean;
+
+    chapterSource: ExportChapterSource;
+    onChangeChapterSource: (source: ExportChapterSource) => void;
+    markerCount: number;
+    segmentCount: number;
+    exportMetadata: ExportMetadata;
+    onChangeExportMetadata: (metadata: ExportMetadata) => void;
+
     estimatedSize: string;
 
     isProcessing: boolean;
     processingProgress: number;
     processingEta: string | null;
+    isCancelling: boolean;
 
     exportUrl: string | null;
     exportError: string | null;
+    exportNotice: string | null;
 
     playbackError: string | null;
 
@@ -44,6 +61,7 @@ interface EditorExportPanelProps {
     onExportFull: () => void;
     onClearExportUrl: () => void;
     onClearExportError: () => void;
+    onCancelExport: () => void;
 
     // download
     downloadFileName: string;
@@ -62,18 +80,33 @@ export const EditorExportPanel: React.FC<EditorExportPanelProps> = ({
     onSelectFps,
     customCrf,
     onChangeCrf,
+    animationSettings,
+    onChangeAnimation,
+    fastExport,
+    onChangeFastExport,
+    canStreamCopy,
+    isWebmSource,
+    chapterSource,
+    onChangeChapterSource,
+    markerCount,
+    segmentCount,
+    exportMetadata,
+    onChangeExportMetadata,
     estimatedSize,
     isProcessing,
     processingProgress,
     processingEta,
+    isCancelling,
     exportUrl,
     exportError,
+    exportNotice,
     playbackError,
     onApplyHighQualityPreset,
     onExportTrimmed,
     onExportFull,
     onClearExportUrl,
     onClearExportError,
+    onCancelExport,
     downloadFileName,
 }) => {
     const { t } = useI18n();
@@ -137,6 +170,18 @@ export const EditorExportPanel: React.FC<EditorExportPanelProps> = ({
                             onSelectFps={onSelectFps}
                             customCrf={customCrf}
                             onChangeCrf={onChangeCrf}
+                            animationSettings={animationSettings}
+                            onChangeAnimation={onChangeAnimation}
+                            fastExport={fastExport}
+                            onChangeFastExport={onChangeFastExport}
+                            canStreamCopy={canStreamCopy}
+                            isWebmSource={isWebmSource}
+                            chapterSource={chapterSource}
+                            onChangeChapterSource={onChangeChapterSource}
+                            markerCount={markerCount}
+                            segmentCount={segmentCount}
+                            exportMetadata={exportMetadata}
+                            onChangeExportMetadata={onChangeExportMetadata}
                             isProcessing={isProcessing}
                         />
                     )}
@@ -145,12 +190,15 @@ export const EditorExportPanel: React.FC<EditorExportPanelProps> = ({
                         isProcessing={isProcessing}
                         processingProgress={processingProgress}
                         processingEta={processingEta}
+                        isCancelling={isCancelling}
                         exportUrl={exportUrl}
                         exportError={exportError}
+                        exportNotice={exportNotice}
                         selectedFormat={selectedFormat}
                         downloadFileName={downloadFileName}
                         onClearExportUrl={onClearExportUrl}
                         onClearExportError={onClearExportError}
+                        onCancel={onCancelExport}
                     />
                 </div>
 
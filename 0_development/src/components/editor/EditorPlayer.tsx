@@ -1,6 +1,11 @@
 import React from 'react';
 import { Play, Maximize, Minimize } from 'lucide-react';
 import { useI18n } from '../../i18n';
+import { SkimPreview } from './SkimPreview';
+import { TextOverlayLayer } from './TextOverlayLayer';
+import { CropOverlay } from './CropOverlay';
+import { ZoomTargetOverlay } from './ZoomTargetOverlay';
+import type { CropAspect, ExportCrop, TextOverlay, ZoomRegion } from '../../types';
 
 interface EditorPlayerProps {
     videoRef: React.RefObject<HTMLVideoElement | null>;
@@ -17,6 +22,24 @@ interface EditorPlayerProps {
     sizeLabel: string;
 
     progressPercent: number;
+    /** 时间轴 skimming 的位置（null = 没有在 skim） */
+    skimTime?: number | null;
+    /** 文字叠加预览（录制时间） */
+    textOverlays?: TextOverlay[];
+    currentTime?: number;
+    videoSize?: { width: number; height: number } | null;
+    /** 导出裁切框（null = 整个画面） */
+    crop?: ExportCrop | null;
+    cropAspect?: CropAspect;
+    isEditingCrop?: boolean;
+    onChangeCrop?: (crop: ExportCrop) => void;
+    /** 裁切后的输出尺寸，显示在裁切框上 */
+    cropSizeLabel?: string;
+    /** 目前时间的缩放（getZoomAt），用来预览；null = 不缩放 */
+    zoomPreview?: { zoom: number; x: number; y: number } | null;
+    /** 选取的缩放区域：显示可拖曳的目标框（此时不预览缩放） */
+    selectedZoomRegion?: ZoomRegion | null;
+    onChangeZoomTarget?: (id: string, patch: Pick<ZoomRegion, 'x' | 'y'>) => void;
 
     onTimeUpdate: () => void;
     onLoadedMetadata: () => void;
@@ -38,6 +61,18 @@ export const EditorPlayer: React.FC<EditorPlayerProps> = ({
     totalTimeLabel,
     sizeLabel,
     progressPercent,
+    skimTime = null,
+    textOverlays = [],
+    currentTime = 0,
+    videoSize = null,
+    crop = null,
+    cropAspect = 'free',
+    isEditingCrop = false,
+    onChangeCrop,
+    cropSizeLabel,
+    zoomPreview = null,
+    selectedZoomRegion = null,
+    onChangeZoomTarget,
     onTimeUpdate,
     onLoadedMetadata,
     onPlay,
@@ -47,6 +82,7 @@ export const EditorPlayer: React.FC<EditorPlayerProps> = ({
     onSeekPercent,
 }) => {
     const { t } = useI18n();
+    const zoomStyle = videoSize && zoomPreview ? getZoomPreviewStyle(zoomPreview, crop, videoSize) : undefined;
 
     return (
         <div className="space-y-2">
@@ -57,11 +93,12 @@ export const EditorPlayer: React.FC<EditorPlayerProps> = ({
             )}
 
             <div className="bg-slate-950/60 border border-slate-800 rounded-xl overflow-hidden shadow-2xl">
-                <div className="relative aspect-video bg-black group">
+                <div className="relative aspect-video bg-black group overflow-hidden" style={{ containerType: 'size' }}>
                     <video
                         ref={videoRef as React.RefObject<HTMLVideoElement>}
                         src={src}
-                        className="w-full h-full object-contain"
+                        className={zoomStyle ? 'absolute left-1/2 top-1/2 object-contain' : 'w-full h-full object-contain'}
+                        style={zoomStyle}
                         onTimeUpdate={onTimeUpdate}
                         onLoadedMetadata={onLoadedMetadata}
                         onPlay={onPlay}
@@ -72,6 +109,8 @@ export const EditorPlayer: React.FC<EditorPlayerProps> = ({
                         aria-disabled={!!playbackError}
                     />
 
+                    {!playbackError && <TextOverlayLayer overlays={textOverlays} time={currentTime} videoSize={videoSize} crop={crop} />}
+
                     {!playbackError && (
                         <button
                             onClick={onToggleFullscreen}
@@ -93,6 +132,28 @@ export const EditorPlayer: React.FC<EditorPlayerProps> = ({
                         </div>
                     )}
 
+                    {!playbackError && videoSize && crop && onChangeCrop && (
+                        <CropOverlay
+                            crop={crop}
+                            aspect={cropAspect}
+                            videoSize={videoSize}
+                            isEditing={isEditingCrop}
+                            onChange={onChangeCrop}
+                            sizeLabel={cropSizeLabel}
+                        />
+                    )}
+
+                    {!playbackError && videoSize && selectedZoomRegion && onChangeZoomTarget && (
+                        <ZoomTargetOverlay
+                            region={selectedZoomRegion}
+                            videoSize={videoSize}
+                            crop={crop}
+                            onChange={(patch) => onChangeZoomTarget(selectedZoomRegion.id, patch)}
+                        />
+                    )}
+
+                    {!playbackError && <SkimPreview src={src} time={skimTime} />}
+
                     <div className="absolute bottom-0 left-0 right-0 h-1 bg-slate-800">
                         <div
                             className="relative h-full"
@@ -129,3 +190,27 @@ export const EditorPlayer: React.FC<EditorPlayerProps> = ({
         </div>
     );
 };
+
+/**
+ * 缩放预览：把影片缩成刚好等于实际画面（不含黑边），再放大并平移，让目标框填满导出画面（有裁切时是裁切框）
+ * - 用 transition 补 timeupdate 之间的空档
+ */
+const getZoomPreviewStyle = (
+    preview: { zoom: number; x: number; y: number },
+    crop: ExportCrop | null,
+    videoSize: { width: number; height: number }
+): React.CSSProperties => {
+    const frame = crop ?? { x: 0, y: 0, width: 1, height: 1 };
+    const ratio = videoSize.width / videoSize.height;
+    // 以画面中心为原点：目标框中心移到导出画面中心
+    const shift = (frameStart: number, frameSize: number, target: number) =>
+        (frameStart + frameSize / 2 - 0.5) - preview.zoom * (frameStart + target * frameSize - 0.5);
+    const dx = shift(frame.x, frame.width, preview.x) * 100;
+    const dy = shift(frame.y, frame.height, preview.y) * 100;
+    return {
+        width: `min(100cqw, ${100 * ratio}cqh)`,
+        height: `min(100cqh, ${100 / ratio}cqw)`,
+        transform: `translate(-50%, -50%) translate(${dx}%, ${dy}%) scale(${preview.zoom})`,
+        transition: 'transform 0.25s linear',
+    };
+};
@@ -0,0 +1,72 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+
+interface FilmstripTrackProps {
+    /** 依时间排列的缩略图（null = 尚未产生） */
+    frameUrls: Array<string | null>;
+    /** 相邻两帧的时间间隔（秒） */
+    interval: number;
+    maxDuration: number;
+}
+
+// 缩略图比例（录制多为 16:9，其它比例用 object-cover 裁切）
+const TILE_ASPECT = 16 / 9;
+
+/**
+ * 找最接近 index 且已产生的帧（由粗到细产生时，先用邻近的帧补位）
+ */
+const findNearestFrame = (frameUrls: Array<string | null>, index: number): string | null => {
+    for (let offset = 0; offset < frameUrls.length; offset++) {
+        const before = frameUrls[index - offset];
+        if (before) return before;
+        const after = frameUrls[index + offset];
+        if (after) return after;
+    }
+    return null;
+};
+
+/**
+ * 时间轴缩略图轨道
+ * - 依轨道实际像素宽度决定要铺几张（放大时间轴 → 更密）
+ */
+export const FilmstripTrack: React.FC<FilmstripTrackProps> = ({ frameUrls, interval, maxDuration }) => {
+    const trackRef = useRef<HTMLDivElement>(null);
+    const [size, setSize] = useState({ width: 0, height: 0 });
+
+    useEffect(() => {
+        const track = trackRef.current;
+        if (!track) return;
+        const observer = new ResizeObserver(([entry]) => {
+            const { width, height } = entry.contentRect;
+            setSize({ width: Math.round(width), height: Math.round(height) });
+        });
+        observer.observe(track);
+        return () => observer.disconnect();
+    }, []);
+
+    const tiles = useMemo(() => {
+        if (size.width === 0 || size.height === 0 || interval <= 0 || frameUrls.length === 0) return [];
+        const tileWidth = size.height * TILE_ASPECT;
+        const count = Math.ceil(size.width / tileWidth);
+        return Array.from({ length: count }, (_, i) => {
+            const time = ((i + 0.5) * tileWidth / size.width) * maxDuration;
+            const index = Math.min(frameUrls.length - 1, Math.max(0, Math.floor(time / interval)));
+            return { left: i * tileWidth, width: tileWidth, url: findNearestFrame(frameUrls, index) };
+        });
+    }, [frameUrls, interval, maxDuration, size]);
+
+    return (
+        <div ref={trackRef} className="relative h-8 bg-slate-900 border-b border-slate-800 overflow-hidden pointer-events-none">
+            {tiles.map((tile, idx) => (
+                <div
+                    key={`frame-${idx}`}
+                    className="absolute top-0 bottom-0 border-r border-slate-950/60 bg-slate-800/40"
+                    style={{ left: tile.left, width: tile.width }}
+                >
+                    {tile.url && (
+                        <img src={tile.url} alt="" draggable={false} className="w-full h-full object-cover select-none" />
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -1,13 +1,47 @@
 import React from 'react';
 import { Button } from '../Button';
 import { ChevronDown, Settings, Download, Sparkles } from 'lucide-react';
-import type { ExportFormat, ExportFrameRateOption, ExportResolution, VideoQualityPreset } from '../../types';
+import type { AnimatedExportSettings, CropAspect, ExportChapterSource, ExportCrop, ExportFormat, ExportMetadata, ExportFrameRateOption, ExportQueueJob, ExportResolution, SubtitleExportMode, TextOverlay, TrimRange, VideoQualityPreset, ZoomRegion } from '../../types';
+import { VIDEO_QUALITY_PRESETS, isAnimatedFormat, isAudioFormat } from '../../types';
 import { useI18n } from '../../i18n';
 import { EditorExportAdvancedSettings } from './exportPanel/EditorExportAdvancedSettings';
 import { EditorExportStatus } from './exportPanel/EditorExportStatus';
+import { EditorExportQueue } from './exportPanel/EditorExportQueue';
 import { EditorExportFooterActions } from './exportPanel/EditorExportFooterActions';
+import { InspectorClipSettings } from './inspector/InspectorClipSettings';
+import { InspectorTextOverlaySettings } from './inspector/InspectorTextOverlaySettings';
+import { InspectorCropSettings } from './inspector/InspectorCropSettings';
+import { InspectorZoomSettings } from './inspector/InspectorZoomSettings';
 
 interface InspectorPanelProps {
+    // selected clip
+    selectedSegment: TrimRange;
+    selectedIndex: number;
+    onChangeSegmentSpeed: (speed: number) => void;
+
+    // selected text overlay
+    selectedTextOverlay: TextOverlay | null;
+    onUpdateTextOverlay: (id: string, patch: Partial<Omit<TextOverlay, 'id'>>) => void;
+    onRemoveTextOverlay: (id: string) => void;
+    onDeselectTextOverlay: () => void;
+    currentTime: number;
+
+    // selected zoom region
+    selectedZoomRegion: ZoomRegion | null;
+    onUpdateZoomRegion: (id: string, patch: Partial<Omit<ZoomRegion, 'id'>>) => void;
+    onRemoveZoomRegion: (id: string) => void;
+    onDeselectZoomRegion: () => void;
+
+    // crop
+    crop: ExportCrop | null;
+    cropAspect: CropAspect;
+    videoSize: { width: number; height: number } | null;
+    isEditingCrop: boolean;
+    onToggleEditingCrop: () => void;
+    onSelectCropAspect: (aspect: CropAspect) => void;
+    onResetCrop: () => void;
+    outputSizeLabel?: string;
+
     // state
     showAdvanced: boolean;
     onToggleAdvanced: () => void;
@@ -27,14 +61,37 @@ interface InspectorPanelProps {
     customCrf: number;
     onChangeCrf: (crf: number) => void;
 
+    animationSettings: AnimatedExportSettings;
+    onChangeAnimation: (settings: AnimatedExportSettings) => void;
+
+    fastExport: boolean;
+    onChangeFastExport: (enabled: boolean) => void;
+    canStreamCopy: boolean;
+    isWebmSource: boolean;
+
+    chapterSource: ExportChapterSource;
+    onChangeChapterSource: (source: ExportChapterSource) => void;
+    markerCount: number;
+    segmentCount: number;
+    exportMetadata: ExportMetadata;
+    onChangeExportMetadata: (metadata: ExportMetadata) => void;
+    subtitleMode: SubtitleExportMode;
+    onChangeSubtitleMode: (mode: SubtitleExportMode) => void;
+    subtitleCount: number;
+
     estimatedSize: string;
 
     isProcessing: boolean;
     processingProgress: number;
     processingEta: string | null;
+    isCancelling: boolean;
 
     exportUrl: string | null;
     exportError: string | null;
+    exportNotice: string | null;
+
+    queue: ExportQueueJob[];
+    isQueueRunning: boolean;
 
     playbackError: string | null;
 
@@ -44,16 +101,42 @@ interface InspectorPanelProps {
     onExportFull: () => void;
     onClearExportUrl: () => void;
     onClearExportError: () => void;
+    onCancelExport: () => void;
+    onAddToQueue: () => void;
+    onRemoveFromQueue: (id: string) => void;
+    onClearQueue: () => void;
+    onRunQueue: () => void;
 
     // download
     downloadFileName: string;
+    getQueueDownloadFileName: (job: ExportQueueJob) => string;
 }
 
 /**
  * 右侧检查器面板 - Final Cut Pro 风格
- * 包含导出设置、视频属性等
+ * 包含选取片段的设定、导出设置、视频属性等
  */
 export const InspectorPanel: React.FC<InspectorPanelProps> = ({
+    selectedSegment,
+    selectedIndex,
+    onChangeSegmentSpeed,
+    selectedTextOverlay,
+    onUpdateTextOverlay,
+    onRemoveTextOverlay,
+    onDeselectTextOverlay,
+    currentTime,
+    selectedZoomRegion,
+    onUpdateZoomRegion,
+    onRemoveZoomRegion,
+    onDeselectZoomRegion,
+    crop,
+    cropAspect,
+    videoSize,
+    isEditingCrop,
+    onToggleEditingCrop,
+    onSelectCropAspect,
+    onResetCrop,
+    outputSizeLabel,
     showAdvanced,
     onToggleAdvanced,
     selectedQuality,
@@ -66,21 +149,47 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
     onSelectFps,
     customCrf,
     onChangeCrf,
+    animationSettings,
+    onChangeAnimation,
+    fastExport,
+    onChangeFastExport,
+    canStreamCopy,
+    isWebmSource,
+    chapterSource,
+    onChangeChapterSource,
+    markerCount,
+    segmentCount,
+    exportMetadata,
+    onChangeExportMetadata,
+    subtitleMode,
+    onChangeSubtitleMode,
+    subtitleCount,
     estimatedSize,
     isProcessing,
     processingProgress,
     processingEta,
+    isCancelling,
     exportUrl,
     exportError,
+    exportNotice,
+    queue,
+    isQueueRunning,
     playbackError,
     onApplyHighQualityPreset,
     onExportTrimmed,
     onExportFull,
     onClearExportUrl,
     onClearExportError,
+    onCancelExport,
+    onAddToQueue,
+    onRemoveFromQueue,
+    onClearQueue,
+    onRunQueue,
     downloadFileName,
+    getQueueDownloadFileName,
 }) => {
     const { t } = useI18n();
+    const isBusy = isProcessing || isQueueRunning;
 
     return (
         <div className="h-full flex flex-col text-slate-300">
@@ -101,7 +210,13 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                     </button>
                 </div>
                 <div className="text-[10px] text-slate-500 mt-0.5">
-                    {t(`quality.${selectedQuality}.label`)} • {selectedFormat.toUpperCase()} • {selectedFps}fps
+                    {fastExport && canStreamCopy && selectedFormat === 'webm'
+                        ? `WEBM • ${t('editor.export.fast.short')}`
+                        : isAnimatedFormat(selectedFormat)
+                        ? `${selectedFormat.toUpperCase()} • ${animationSettings.width}px • ${animationSettings.fps}fps`
+                        : isAudioFormat(selectedFormat)
+                            ? `${t(`quality.${selectedQuality}.label`)} • ${selectedFormat.toUpperCase()} • ${VIDEO_QUALITY_PRESETS[selectedQuality].audioBitrate}`
+                            : `${t(`quality.${selectedQuality}.label`)} • ${selectedFormat.toUpperCase()} • ${selectedFps}fps`}
                 </div>
             </div>
 
@@ -119,13 +234,57 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                             size="sm"
                             onClick={onApplyHighQualityPreset}
                             className="w-full text-[10px] py-1.5 bg-purple-600/30 hover:bg-purple-600/50 border-purple-500/30"
-                            disabled={isProcessing}
+                            disabled={isBusy}
                         >
                             <Sparkles size={10} className="mr-1" />
                             {t('editor.export.quickButton')}
                         </Button>
                     </div>
 
+                    {/* 选取的文字 */}
+                    {selectedTextOverlay && (
+                        <InspectorTextOverlaySettings
+                            overlay={selectedTextOverlay}
+                            onUpdate={onUpdateTextOverlay}
+                            onRemove={onRemoveTextOverlay}
+                            onClose={onDeselectTextOverlay}
+                            currentTime={currentTime}
+                        />
+                    )}
+
+                    {/* 选取的缩放 */}
+                    {selectedZoomRegion && (
+                        <InspectorZoomSettings
+                            region={selectedZoomRegion}
+                            onUpdate={onUpdateZoomRegion}
+                            onRemove={onRemoveZoomRegion}
+                            onClose={onDeselectZoomRegion}
+                            currentTime={currentTime}
+                        />
+                    )}
+
+                    {/* 选取的片段 */}
+                    <InspectorClipSettings
+                        segment={selectedSegment}
+                        index={selectedIndex}
+                        onChangeSpeed={onChangeSegmentSpeed}
+                        isBusy={isBusy}
+                    />
+
+                    {/* 裁切（纯音频没有画面） */}
+                    {!isAudioFormat(selectedFormat) && (
+                        <InspectorCropSettings
+                            crop={crop}
+                            aspect={cropAspect}
+                            videoSize={videoSize}
+                            isEditing={isEditingCrop}
+                            onToggleEditing={onToggleEditingCrop}
+                            onSelectAspect={onSelectCropAspect}
+                            onReset={onResetCrop}
+                            isBusy={isBusy}
+                        />
+                    )}
+
                     {/* 预估大小 */}
                     <div className="flex items-center justify-between text-xs bg-slate-800/30 rounded-lg px-3 py-2">
                         <span className="text-slate-400">{t('editor.export.estimated')}</span>
@@ -146,22 +305,56 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                                 onSelectFps={onSelectFps}
                                 customCrf={customCrf}
                                 onChangeCrf={onChangeCrf}
-                                isProcessing={isProcessing}
+                                animationSettings={animationSettings}
+                                onChangeAnimation={onChangeAnimation}
+                                fastExport={fastExport}
+                                onChangeFastExport={onChangeFastExport}
+                                canStreamCopy={canStreamCopy}
+                                isWebmSource={isWebmSource}
+                                chapterSource={chapterSource}
+                                onChangeChapterSource={onChangeChapterSource}
+                                markerCount={markerCount}
+                                segmentCount={segmentCount}
+                                exportMetadata={exportMetadata}
+                                onChangeExportMetadata={onChangeExportMetadata}
+                                subtitleMode={subtitleMode}
+                                onChangeSubtitleMode={onChangeSubtitleMode}
+                                subtitleCount={subtitleCount}
+                                outputSizeLabel={outputSizeLabel}
+                                isProcessing={isBusy}
                             />
                         </div>
                     )}
 
+                    {/* 导出队列 */}
+                    <EditorExportQueue
+                        queue={queue}
+                        isQueueRunning={isQueueRunning}
+                        isBusy={isBusy}
+                        isCancelling={isCancelling}
+                        canExport={!playbackError}
+                        getDownloadFileName={getQueueDownloadFileName}
+                        onAddToQueue={onAddToQueue}
+                        onRemoveFromQueue={onRemoveFromQueue}
+                        onClearQueue={onClearQueue}
+                        onRunQueue={onRunQueue}
+                        onCancel={onCancelExport}
+                    />
+
                     {/* 导出状态 */}
                     <EditorExportStatus
                         isProcessing={isProcessing}
                         processingProgress={processingProgress}
                         processingEta={processingEta}
+                        isCancelling={isCancelling}
                         exportUrl={exportUrl}
                         exportError={exportError}
+                        exportNotice={exportNotice}
                         selectedFormat={selectedFormat}
                         downloadFileName={downloadFileName}
                         onClearExportUrl={onClearExportUrl}
                         onClearExportError={onClearExportError}
+                        onCancel={onCancelExport}
                     />
                 </div>
             </div>
@@ -171,7 +364,7 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                 <EditorExportFooterActions
                     exportUrl={exportUrl}
                     playbackError={playbackError}
-                    isProcessing={isProcessing}
+                    isProcessing={isBusy}
                     selectedQuality={selectedQuality}
                     onExportTrimmed={onExportTrimmed}
                     onExportFull={onExportFull}
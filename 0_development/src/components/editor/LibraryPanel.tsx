@@ -1,20 +1,32 @@
 import React from 'react';
-import { Film, Music, Image, Folder, Clock, Star } from 'lucide-react';
+import { Film, Music, Image, Folder, Clock, Loader2 } from 'lucide-react';
 import { useI18n } from '../../i18n';
-import { formatTime, formatBytes } from '../../utils/format';
+import { formatTime } from '../../utils/format';
+import type { LibraryItem } from './useRecordingLibrary';
+import { LibraryRecordingCard } from './library/LibraryRecordingCard';
 
 interface LibraryPanelProps {
-    /** 当前视频信息 */
-    videoInfo?: {
-        name: string;
-        duration: number;
-        size: number;
-        url: string;
-    };
+    /** 素材库中的所有录制 */
+    recordings: LibraryItem[];
+    isLoadingRecordings?: boolean;
+    /** 当前在编辑器中打开的录制 */
+    activeRecordingId?: string;
+    onOpenRecording: (id: string) => void;
+    onRenameRecording: (id: string, name: string) => void;
+    onDeleteRecording: (id: string) => void;
+    onSetRecordingTags: (id: string, tags: string[]) => void;
     /** 已选中的片段数量 */
     segmentCount?: number;
     /** 总选中时长 */
     totalSelectedDuration?: number;
+    /** 时间轴标记清单 */
+    markerPanel?: React.ReactNode;
+    /** 字幕（汇入 / 下载） */
+    subtitlePanel?: React.ReactNode;
+    /** 编辑历史（撤销 / 重做） */
+    historyPanel?: React.ReactNode;
+    /** 分析工具（静音侦测、画面切换检测等） */
+    analysisPanel?: React.ReactNode;
 }
 
 /**
@@ -22,9 +34,19 @@ interface LibraryPanelProps {
  * 显示项目资源、媒体浏览器
  */
 export const LibraryPanel: React.FC<LibraryPanelProps> = ({
-    videoInfo,
+    recordings,
+    isLoadingRecordings = false,
+    activeRecordingId,
+    onOpenRecording,
+    onRenameRecording,
+    onDeleteRecording,
+    onSetRecordingTags,
     segmentCount = 1,
     totalSelectedDuration = 0,
+    markerPanel,
+    subtitlePanel,
+    historyPanel,
+    analysisPanel,
 }) => {
     const { t } = useI18n();
 
@@ -45,7 +67,7 @@ export const LibraryPanel: React.FC<LibraryPanelProps> = ({
                     <div className="flex items-center gap-2 px-2 py-1.5 rounded-md bg-blue-600/20 text-blue-300 text-xs font-medium">
                         <Film size={12} />
                         <span>{t('editor.library.videos')}</span>
-                        <span className="ml-auto text-[10px] bg-blue-600/30 px-1.5 rounded">1</span>
+                        <span className="ml-auto text-[10px] bg-blue-600/30 px-1.5 rounded">{recordings.length}</span>
                     </div>
                     <div className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-slate-800/50 text-slate-400 text-xs cursor-not-allowed opacity-50">
                         <Music size={12} />
@@ -59,41 +81,55 @@ export const LibraryPanel: React.FC<LibraryPanelProps> = ({
                     </div>
                 </div>
 
-                {/* 当前素材 */}
-                {videoInfo && (
-                    <div className="px-2 py-2 border-t border-slate-800/50">
-                        <div className="text-[10px] text-slate-500 uppercase tracking-wider mb-2 px-2">
-                            {t('editor.library.currentMedia')}
-                        </div>
+                {/* 所有录制 */}
+                <div className="px-2 py-2 border-t border-slate-800/50">
+                    <div className="text-[10px] text-slate-500 uppercase tracking-wider mb-2 px-2">
+                        {t('editor.library.recordings')}
+                    </div>
 
-                        {/* 视频缩略图卡片 */}
-                        <div className="bg-slate-800/50 rounded-lg overflow-hidden border border-slate-700/50 hover:border-blue-500/50 transition-colors cursor-pointer group">
-                            {/* 缩略图区域 */}
-                            <div className="aspect-video bg-slate-900 relative overflow-hidden">
-                                <video
-                                    src={videoInfo.url}
-                                    className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity"
-                                    muted
-                                    preload="metadata"
+                    {isLoadingRecordings ? (
+                        <div className="flex justify-center py-4 text-slate-500">
+                            <Loader2 size={16} className="animate-spin" />
+                        </div>
+                    ) : recordings.length === 0 ? (
+                        <div className="px-2 py-3 text-[11px] text-slate-500">
+                            {t('editor.library.empty')}
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            {recordings.map((item) => (
+                                <LibraryRecordingCard
+                                    key={item.id}
+                                    item={item}
+                                    isActive={item.id === activeRecordingId}
+                                    onOpen={() => onOpenRecording(item.id)}
+                                    onRename={(name) => onRenameRecording(item.id, name)}
+                                    onDelete={() => onDeleteRecording(item.id)}
+                                    onSetTags={(tags) => onSetRecordingTags(item.id, tags)}
                                 />
-                                <div className="absolute bottom-1 right-1 bg-black/70 text-[9px] text-white px-1 py-0.5 rounded font-mono">
-                                    {formatTime(videoInfo.duration)}
-                                </div>
-                                <div className="absolute top-1 left-1">
-                                    <Star size={10} className="text-yellow-400 fill-yellow-400" />
-                                </div>
-                            </div>
-
-                            {/* 信息区域 */}
-                            <div className="p-2">
-                                <div className="text-[11px] font-medium text-white truncate">
-                                    {videoInfo.name}
-                                </div>
-                                <div className="text-[10px] text-slate-500 mt-0.5">
-                                    {formatBytes(videoInfo.size)}
-                                </div>
-                            </div>
+                            ))}
                         </div>
+                    )}
+                </div>
+
+                {/* 标记 */}
+                {markerPanel && (
+                    <div className="px-2 py-2 border-t border-slate-800/50">
+                        {markerPanel}
+                    </div>
+                )}
+
+                {/* 字幕 */}
+                {subtitlePanel && (
+                    <div className="px-2 py-2 border-t border-slate-800/50">
+                        {subtitlePanel}
+                    </div>
+                )}
+
+                {/* 编辑历史 */}
+                {historyPanel && (
+                    <div className="px-2 py-2 border-t border-slate-800/50">
+                        {historyPanel}
                     </div>
                 )}
 
@@ -120,6 +156,16 @@ export const LibraryPanel: React.FC<LibraryPanelProps> = ({
                         </div>
                     </div>
                 </div>
+
+                {/* 分析工具 */}
+                {analysisPanel && (
+                    <div className="px-2 py-3 border-t border-slate-800/50">
+                        <div className="text-[10px] text-slate-500 uppercase tracking-wider mb-2 px-2">
+                            {t('editor.analysis.title')}
+                        </div>
+                        {analysisPanel}
+                    </div>
+                )}
             </div>
 
             {/* 底部提示 */}
@@ -1,10 +1,16 @@
-import React, { useRef, useState, useCallback, useMemo } from 'react';
-import type { TrimRange } from '../../types';
+import React, { useRef, useState, useCallback, useMemo, useEffect } from 'react';
+import type { SegmentTransition, SubtitleCue, TextOverlay, TimelineMarker, TrimRange, WaveformData, ZoomRegion } from '../../types';
+import { MARKER_COLORS } from '../../types';
 import { formatTime } from '../../utils/format';
 import { TimelineToolbar, TimelineToolMode } from './TimelineToolbar';
 import { DraggablePlayhead } from './DraggablePlayhead';
 import { TimelineClip } from './TimelineClip';
-import { Play, Scissors, Trash2, Undo2, RotateCcw } from 'lucide-react';
+import { FilmstripTrack } from './FilmstripTrack';
+import { SequenceLane } from './SequenceLane';
+import { TextOverlayTrack } from './TextOverlayTrack';
+import { ZoomTrack } from './ZoomTrack';
+import { SubtitleTrack } from './SubtitleTrack';
+import { Play, Scissors, CopyPlus, Trash2, Undo2, Redo2, RotateCcw, Type, ZoomIn } from 'lucide-react';
 import { useI18n } from '../../i18n';
 
 interface ProTimelineProps {
@@ -14,16 +20,53 @@ interface ProTimelineProps {
     currentTime: number;
     totalSelectedDuration: number;
     canUndo: boolean;
+    canRedo: boolean;
     canDelete: boolean;
     onSelectSegment: (index: number) => void;
+    /** 拖曳选取片段的两端手柄（录制时间） */
+    onTrimSelected?: (start: number, end: number) => void;
+    /** 一次手柄拖曳结束 */
+    onTrimEnd?: () => void;
+    /** 调整片段的时间轴（导出）顺序 */
+    onMoveSegment?: (from: number, to: number) => void;
+    /** 设定第 index 段与下一段之间的转场（null = 硬切） */
+    onChangeTransition?: (index: number, transition: SegmentTransition | null) => void;
     onSeek: (time: number) => void;
     onSplitAt?: (time: number) => void;
+    onDuplicateSelected?: () => void;
     onDeleteSelected?: () => void;
     onUndo?: () => void;
+    onRedo?: () => void;
     onPreviewEdited?: () => void;
     onResetTrim?: () => void;
     skimmingEnabled?: boolean;
+    /** skim 位置变化（null = 离开时间轴 / 停用 skimming） */
+    onSkimChange?: (time: number | null) => void;
     className?: string;
+    waveform?: WaveformData | null;
+    filmstrip?: { frameUrls: Array<string | null>; interval: number } | null;
+    /** 侦测到的静音区间（录制时间），叠在轨道上预览 */
+    silenceRanges?: TrimRange[];
+    /** 画面切换建议分割点（录制时间） */
+    sceneSuggestions?: number[];
+    /** 时间轴标记（点击跳转） */
+    markers?: TimelineMarker[];
+    /** 文字叠加（录制时间）；有资料时在轨道下方多一行 */
+    textOverlays?: TextOverlay[];
+    selectedTextOverlayId?: string | null;
+    onSelectTextOverlay?: (id: string) => void;
+    onUpdateTextOverlay?: (id: string, patch: Partial<Omit<TextOverlay, 'id'>>) => void;
+    /** 在播放头新增文字 */
+    onAddTextOverlay?: () => void;
+    /** 汇入的字幕（录制时间）；有资料时在轨道下方多一行 */
+    subtitles?: SubtitleCue[];
+    /** 缩放区域（录制时间）；有资料时在轨道下方多一行 */
+    zoomRegions?: ZoomRegion[];
+    selectedZoomRegionId?: string | null;
+    onSelectZoomRegion?: (id: string) => void;
+    onUpdateZoomRegion?: (id: string, patch: Partial<Omit<ZoomRegion, 'id'>>) => void;
+    /** 在播放头新增缩放 */
+    onAddZoomRegion?: () => void;
 }
 
 /**
@@ -40,16 +83,40 @@ export const ProTimeline: React.FC<ProTimelineProps> = ({
     currentTime,
     totalSelectedDuration,
     canUndo,
+    canRedo,
     canDelete,
     onSelectSegment,
+    onTrimSelected,
+    onTrimEnd,
+    onMoveSegment,
+    onChangeTransition,
     onSeek,
     onSplitAt,
+    onDuplicateSelected,
     onDeleteSelected,
     onUndo,
+    onRedo,
     onPreviewEdited,
     onResetTrim,
     skimmingEnabled = true,
+    onSkimChange,
     className = '',
+    waveform = null,
+    filmstrip = null,
+    silenceRanges = [],
+    sceneSuggestions = [],
+    markers = [],
+    textOverlays = [],
+    selectedTextOverlayId = null,
+    onSelectTextOverlay,
+    onUpdateTextOverlay,
+    onAddTextOverlay,
+    subtitles = [],
+    zoomRegions = [],
+    selectedZoomRegionId = null,
+    onSelectZoomRegion,
+    onUpdateZoomRegion,
+    onAddZoomRegion,
 }) => {
     const containerRef = useRef<HTMLDivElement>(null);
     const [zoomLevel, setZoomLevel] = useState(1);
@@ -108,6 +175,11 @@ export const ProTimeline: React.FC<ProTimelineProps> = ({
         setSkimTime(null);
     }, []);
 
+    // 通知外部（播放器显示该位置的画面）
+    useEffect(() => {
+        onSkimChange?.(skimmingEnabled ? skimTime : null);
+    }, [skimTime, skimmingEnabled, onSkimChange]);
+
     // 点击处理
     const handleTimelineClick = useCallback((e: React.MouseEvent) => {
         const container = containerRef.current;
@@ -242,6 +314,23 @@ export const ProTimeline: React.FC<ProTimelineProps> = ({
                             )}
                         </div>
 
+                        {/* 复制片段按钮 */}
+                        <button
+                            type="button"
+                            onClick={onDuplicateSelected}
+                            className="
+                                flex items-center gap-1 
+                                px-1.5 sm:px-2 py-1 text-[10px] rounded-md 
+                                bg-emerald-600/20 text-emerald-300 
+                                hover:bg-emerald-600/40 
+                                transition-all border border-emerald-600/30
+                            "
+                            title={`${t('editor.trim.duplicateSegment')} (⌘D)`}
+                        >
+                            <CopyPlus size={12} />
+                            <span className="hidden md:inline">Duplicate</span>
+                        </button>
+
                         {/* 删除按钮 */}
                         <button
                             type="button"
@@ -261,6 +350,44 @@ export const ProTimeline: React.FC<ProTimelineProps> = ({
                             <span className="hidden md:inline">Delete</span>
                         </button>
 
+                        {/* 新增文字按钮 */}
+                        {onAddTextOverlay && (
+                            <button
+                                type="button"
+                                onClick={onAddTextOverlay}
+                                className="
+                                    flex items-center gap-1 
+                                    px-1.5 sm:px-2 py-1 text-[10px] rounded-md 
+                                    bg-teal-600/20 text-teal-300 
+                                    hover:bg-teal-600/40 
+                                    transition-all border border-teal-600/30
+                                "
+                                title={t('editor.textOverlay.add')}
+                            >
+                                <Type size={12} />
+                                <span className="hidden md:inline">Text</span>
+                            </button>
+                        )}
+
+                        {/* 新增缩放按钮 */}
+                        {onAddZoomRegion && (
+                            <button
+                                type="button"
+                                onClick={onAddZoomRegion}
+                                className="
+                                    flex items-center gap-1 
+                                    px-1.5 sm:px-2 py-1 text-[10px] rounded-md 
+                                    bg-fuchsia-600/20 text-fuchsia-300 
+                                    hover:bg-fuchsia-600/40 
+                                    transition-all border border-fuchsia-600/30
+                                "
+                                title={t('editor.zoom.add')}
+                            >
+                                <ZoomIn size={12} />
+                                <span className="hidden md:inline">Zoom</span>
+                            </button>
+                        )}
+
                         {/* 分隔线 - 大屏显示 */}
                         <div className="hidden sm:block w-px h-4 bg-slate-700/50 mx-0.5" />
 
@@ -280,6 +407,22 @@ export const ProTimeline: React.FC<ProTimelineProps> = ({
                             <Undo2 size={12} />
                         </button>
 
+                        {/* 重做按钮 */}
+                        <button
+                            type="button"
+                            onClick={onRedo}
+                            disabled={!canRedo}
+                            className="
+                                p-1.5 rounded-md 
+                                text-slate-400 hover:text-white hover:bg-slate-700 
+                                transition-all border border-slate-700/50
+                                disabled:opacity-40 disabled:cursor-not-allowed
+                            "
+                            title={`${t('editor.trim.redo')} (⇧⌘Z)`}
+                        >
+                            <Redo2 size={12} />
+                        </button>
+
                         {/* 重置按钮 */}
                         <button
                             type="button"
@@ -328,8 +471,40 @@ export const ProTimeline: React.FC<ProTimelineProps> = ({
                                 </div>
                             );
                         })}
+
+                        {/* 标记 */}
+                        {markers.map((marker, idx) => (
+                            <button
+                                key={marker.id}
+                                type="button"
+                                className="absolute top-0 z-30 -translate-x-1/2 flex flex-col items-center group"
+                                style={{ left: `${toPct(marker.time)}%` }}
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onSeek(marker.time);
+                                }}
+                                title={`${marker.label || t('editor.markers.untitled', { index: idx + 1 })} • ${formatTime(marker.time)}`}
+                            >
+                                <span
+                                    className="block w-2.5 h-3 rounded-t-sm shadow group-hover:scale-125 transition-transform"
+                                    style={{
+                                        backgroundColor: MARKER_COLORS[marker.color],
+                                        clipPath: 'polygon(0 0, 100% 0, 100% 65%, 50% 100%, 0 65%)',
+                                    }}
+                                />
+                            </button>
+                        ))}
                     </div>
 
+                    {/* 缩略图轨道 */}
+                    {filmstrip && (
+                        <FilmstripTrack
+                            frameUrls={filmstrip.frameUrls}
+                            interval={filmstrip.interval}
+                            maxDuration={safeMax}
+                        />
+                    )}
+
                     {/* 轨道区域 - 增加高度以展示更精细的波形 */}
                     <div className="relative h-14 bg-gradient-to-b from-slate-950 to-slate-900/50">
                         {/* 轨道背景网格 */}
@@ -363,10 +538,48 @@ export const ProTimeline: React.FC<ProTimelineProps> = ({
                                     widthPct={widthPct}
                                     onSelect={() => onSelectSegment(idx)}
                                     maxDuration={safeMax}
+                                    waveform={waveform}
+                                    onTrim={isSelected ? onTrimSelected : undefined}
+                                    onTrimEnd={onTrimEnd}
                                 />
                             );
                         })}
 
+                        {/* 静音区间 */}
+                        {silenceRanges.map((range, idx) => (
+                            <div
+                                key={`silence-${idx}`}
+                                className="absolute top-0 bottom-0 z-10 pointer-events-none bg-amber-500/20 border-x border-amber-400/60"
+                                style={{
+                                    left: `${toPct(range.start)}%`,
+                                    width: `${toPct(range.end) - toPct(range.start)}%`,
+                                    backgroundImage: 'repeating-linear-gradient(-45deg, transparent, transparent 3px, rgba(251,191,36,0.15) 3px, rgba(251,191,36,0.15) 6px)',
+                                }}
+                            />
+                        ))}
+
+                        {/* 画面切换建议点 */}
+                        {sceneSuggestions.map((time, idx) => (
+                            <div
+                                key={`scene-${idx}`}
+                                className="absolute top-0 bottom-0 z-10 pointer-events-none"
+                                style={{ left: `${toPct(time)}%` }}
+                                title={formatTime(time)}
+                            >
+                                <div className="w-0 h-full border-l border-dashed border-violet-400/80" />
+                                <div className="absolute top-0 -left-[3px] w-1.5 h-1.5 rotate-45 bg-violet-400" />
+                            </div>
+                        ))}
+
+                        {/* 标记线 */}
+                        {markers.map((marker) => (
+                            <div
+                                key={`marker-line-${marker.id}`}
+                                className="absolute top-0 bottom-0 z-10 w-px pointer-events-none opacity-60"
+                                style={{ left: `${toPct(marker.time)}%`, backgroundColor: MARKER_COLORS[marker.color] }}
+                            />
+                        ))}
+
                         {/* 播放头 */}
                         <DraggablePlayhead
                             currentTime={currentTime}
@@ -398,9 +611,47 @@ export const ProTimeline: React.FC<ProTimelineProps> = ({
                             </div>
                         )}
                     </div>
+
+                    {/* 文字叠加轨道 */}
+                    {textOverlays.length > 0 && onSelectTextOverlay && onUpdateTextOverlay && (
+                        <TextOverlayTrack
+                            overlays={textOverlays}
+                            selectedId={selectedTextOverlayId}
+                            maxDuration={safeMax}
+                            toPct={toPct}
+                            onSelect={onSelectTextOverlay}
+                            onUpdate={onUpdateTextOverlay}
+                        />
+                    )}
+
+                    {/* 缩放轨道 */}
+                    {zoomRegions.length > 0 && onSelectZoomRegion && onUpdateZoomRegion && (
+                        <ZoomTrack
+                            regions={zoomRegions}
+                            selectedId={selectedZoomRegionId}
+                            maxDuration={safeMax}
+                            toPct={toPct}
+                            onSelect={onSelectZoomRegion}
+                            onUpdate={onUpdateZoomRegion}
+                        />
+                    )}
+
+                    {/* 字幕轨道 */}
+                    {subtitles.length > 0 && <SubtitleTrack cues={subtitles} toPct={toPct} onSeek={onSeek} />}
                 </div>
             </div>
 
+            {/* 片段顺序（可拖曳重新排序）与片段间的转场手柄 */}
+            {onMoveSegment && segments.length > 1 && (
+                <SequenceLane
+                    segments={segments}
+                    selectedIndex={selectedIndex}
+                    onSelectSegment={onSelectSegment}
+                    onMoveSegment={onMoveSegment}
+                    onChangeTransition={onChangeTransition}
+                />
+            )}
+
             {/* 底部信息栏 - 键盘快捷键提示 */}
             <div className="
                 px-3 py-2 
@@ -429,6 +680,10 @@ export const ProTimeline: React.FC<ProTimelineProps> = ({
                         <kbd className="px-1.5 py-0.5 bg-red-700/60 rounded text-red-200 border border-red-500/50 shadow-sm">Del</kbd>
                         <span className="text-slate-500">Delete</span>
                     </span>
+                    <span className="flex items-center gap-1">
+                        <kbd className="px-1.5 py-0.5 bg-blue-700/60 rounded text-blue-200 border border-blue-500/50 shadow-sm">M</kbd>
+                        <span className="text-slate-500">Marker</span>
+                    </span>
                 </div>
                 <div className="flex items-center gap-3">
                     <span className="text-slate-500">
@@ -445,9 +700,11 @@ export const ProTimeline: React.FC<ProTimelineProps> = ({
 
 /**
  * 渲染空隙 (Gaps)
+ * - 片段可能被重新排序或重复，先依来源时间排好再找空隙（重叠的部分不算空隙）
  */
-function renderGaps(segments: TrimRange[], maxDuration: number, toPct: (t: number) => number): React.ReactNode {
+function renderGaps(timelineSegments: TrimRange[], maxDuration: number, toPct: (t: number) => number): React.ReactNode {
     const gaps: React.ReactNode[] = [];
+    const segments = [...timelineSegments].sort((a, b) => a.start - b.start);
 
     // 开头空隙
     if (segments.length > 0 && segments[0].start > 0.01) {
@@ -466,8 +723,10 @@ function renderGaps(segments: TrimRange[], maxDuration: number, toPct: (t: numbe
     }
 
     // 中间空隙
+    let coveredEnd = segments.length > 0 ? segments[0].end : 0;
     for (let i = 0; i < segments.length - 1; i++) {
-        const gapStart = segments[i].end;
+        coveredEnd = Math.max(coveredEnd, segments[i].end);
+        const gapStart = coveredEnd;
         const gapEnd = segments[i + 1].start;
         if (gapEnd - gapStart > 0.01) {
             gaps.push(
@@ -486,7 +745,7 @@ function renderGaps(segments: TrimRange[], maxDuration: number, toPct: (t: numbe
 
     // 结尾空隙
     if (segments.length > 0) {
-        const lastEnd = segments[segments.length - 1].end;
+        const lastEnd = Math.max(...segments.map((seg) => seg.end));
         if (lastEnd < maxDuration - 0.01) {
             gaps.push(
                 <div
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { AudioLines, Blend, GripVertical, Moon, X } from 'lucide-react';
+import type { SegmentTransition, SegmentTransitionType, TrimRange } from '../../types';
+import {
+    DEFAULT_TRANSITION_SECONDS,
+    SEGMENT_TRANSITION_TYPES,
+    TRANSITION_DURATION_PRESETS,
+    getSegmentOutputDuration,
+    getSegmentSpeed,
+    getSegmentTransition,
+} from '../../types';
+import { formatTime } from '../../utils/format';
+import { useI18n } from '../../i18n';
+
+const TRANSITION_ICONS: Record<SegmentTransition['type'], typeof Blend> = {
+    crossfade: Blend,
+    dipToBlack: Moon,
+    audioFade: AudioLines,
+};
+
+interface SequenceLaneProps {
+    /** 时间轴（导出）顺序 */
+    segments: TrimRange[];
+    selectedIndex: number;
+    onSelectSegment: (index: number) => void;
+    onMoveSegment: (from: number, to: number) => void;
+    /** 设定第 index 段之后的转场（null = 硬切）；未提供则不显示转场手柄 */
+    onChangeTransition?: (index: number, transition: SegmentTransition | null) => void;
+}
+
+/**
+ * 片段顺序条：依导出顺序排列（宽度按成品时长，变速已算入），拖曳调整顺序
+ * - 上方轨道仍是录制时间；这里才是成品的先后
+ * - 片段之间的手柄：点开后选转场种类与时长
+ */
+export const SequenceLane: React.FC<SequenceLaneProps> = ({
+    segments,
+    selectedIndex,
+    onSelectSegment,
+    onMoveSegment,
+    onChangeTransition,
+}) => {
+    const { t } = useI18n();
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+    // 正在编辑的接点（第 index 段之后）
+    const [editingBoundary, setEditingBoundary] = useState<number | null>(null);
+
+    const resetDrag = () => {
+        setDragIndex(null);
+        setDropIndex(null);
+    };
+
+    const boundary = editingBoundary !== null && editingBoundary < segments.length - 1 ? editingBoundary : null;
+    const editingTransition = boundary !== null ? segments[boundary].transition : undefined;
+
+    const selectTransitionType = (index: number, type: SegmentTransitionType) => {
+        if (!onChangeTransition) return;
+        if (type === 'cut') {
+            onChangeTransition(index, null);
+            return;
+        }
+        onChangeTransition(index, { type, duration: segments[index].transition?.duration ?? DEFAULT_TRANSITION_SECONDS });
+    };
+
+    return (
+        <div className="border-t border-slate-800/70 bg-slate-950">
+            <div className="flex items-center gap-2 px-3 py-1.5">
+                <span className="shrink-0 text-[9px] text-slate-500 uppercase tracking-wider" title={t('editor.sequence.hint')}>
+                    {t('editor.sequence.title')}
+                </span>
+                <div className="flex-1 flex items-center gap-1 min-w-0">
+                    {segments.map((seg, idx) => {
+                        const duration = getSegmentOutputDuration(seg);
+                        const speed = getSegmentSpeed(seg);
+                        const isSelected = idx === selectedIndex;
+                        const isDropTarget = dropIndex === idx && dragIndex !== null && dragIndex !== idx;
+                        const transition = getSegmentTransition(segments, idx);
+                        const TransitionIcon = transition ? TRANSITION_ICONS[transition.type] : null;
+                        return (
+                            <React.Fragment key={`sequence-${idx}`}>
+                                <button
+                                    type="button"
+                                    draggable
+                                    onClick={() => onSelectSegment(idx)}
+                                    onDragStart={(e) => {
+                                        e.dataTransfer.effectAllowed = 'move';
+                                        e.dataTransfer.setData('text/plain', String(idx));
+                                        setDragIndex(idx);
+                                    }}
+                                    onDragOver={(e) => {
+                                        if (dragIndex === null) return;
+                                        e.preventDefault();
+                                        e.dataTransfer.dropEffect = 'move';
+                                        setDropIndex(idx);
+                                    }}
+                                    onDragLeave={() => setDropIndex((current) => (current === idx ? null : current))}
+                                    onDrop={(e) => {
+                                        e.preventDefault();
+                                        if (dragIndex !== null && dragIndex !== idx) onMoveSegment(dragIndex, idx);
+                                        resetDrag();
+                                    }}
+                                    onDragEnd={resetDrag}
+                                    className={`
+                                        relative flex items-center gap-1 min-w-[2.5rem] h-6 px-1 rounded
+                                        text-[9px] font-mono overflow-hidden cursor-grab active:cursor-grabbing
+                                        transition-colors border
+                                        ${isSelected
+                                            ? 'bg-blue-600/40 border-yellow-400 text-white'
+                                            : 'bg-purple-600/30 border-purple-500/40 text-purple-100 hover:bg-purple-600/50'
+                                        }
+                                        ${dragIndex === idx ? 'opacity-40' : ''}
+                                        ${isDropTarget ? (dragIndex! > idx ? 'border-l-2 border-l-cyan-400' : 'border-r-2 border-r-cyan-400') : ''}
+                                    `}
+                                    style={{ flexGrow: Math.max(duration, 0.1), flexBasis: 0 }}
+                                    title={`#${idx + 1}: ${formatTime(seg.start)} - ${formatTime(seg.end)} (${formatTime(duration)}${speed !== 1 ? ` @ ${speed}×` : ''})`}
+                                >
+                                    <GripVertical size={10} className="shrink-0 opacity-60" />
+                                    <span className="font-bold">#{idx + 1}</span>
+                                    {speed !== 1 && <span className="text-amber-300 font-bold">{speed}×</span>}
+                                    <span className="truncate opacity-70">{formatTime(duration)}</span>
+                                </button>
+
+                                {/* 转场手柄 */}
+                                {onChangeTransition && idx < segments.length - 1 && (
+                                    <button
+                                        type="button"
+                                        onClick={() => setEditingBoundary(boundary === idx ? null : idx)}
+                                        className={`shrink-0 flex items-center justify-center w-4 h-5 rounded-sm border transition-colors ${boundary === idx
+                                            ? 'bg-cyan-500/30 border-cyan-400 text-cyan-100'
+                                            : transition
+                                                ? 'bg-cyan-900/40 border-cyan-600/60 text-cyan-300 hover:border-cyan-400'
+                                                : 'border-transparent text-slate-600 hover:text-slate-300 hover:border-slate-600'
+                                            }`}
+                                        title={transition
+                                            ? `${t(`editor.transition.type.${transition.type}`)} (${transition.duration.toFixed(2)}s)`
+                                            : t('editor.transition.add')}
+                                    >
+                                        {TransitionIcon ? <TransitionIcon size={10} /> : <span className="w-px h-3 bg-current" />}
+                                    </button>
+                                )}
+                            </React.Fragment>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {/* 转场设定（点手柄后展开） */}
+            {onChangeTransition && boundary !== null && (
+                <div className="flex flex-wrap items-center gap-2 px-3 pb-1.5 text-[10px]">
+                    <span className="text-slate-400">
+                        {t('editor.transition.title', { from: boundary + 1, to: boundary + 2 })}
+                    </span>
+                    <div className="flex items-center gap-1">
+                        {SEGMENT_TRANSITION_TYPES.map((type) => (
+                            <button
+                                key={type}
+                                type="button"
+                                onClick={() => selectTransitionType(boundary, type)}
+                                className={`px-1.5 py-0.5 rounded border transition-colors ${(editingTransition?.type ?? 'cut') === type
+                                    ? 'bg-cyan-500/20 border-cyan-400 text-cyan-100'
+                                    : 'border-slate-700 text-slate-300 hover:border-slate-500'
+                                    }`}
+                            >
+                                {t(`editor.transition.type.${type}`)}
+                            </button>
+                        ))}
+                    </div>
+                    {editingTransition && (
+                        <div className="flex items-center gap-1">
+                            {TRANSITION_DURATION_PRESETS.map((duration) => (
+                                <button
+                                    key={duration}
+                                    type="button"
+                                    onClick={() => onChangeTransition(boundary, { type: editingTransition.type, duration })}
+                                    className={`px-1.5 py-0.5 rounded border font-mono transition-colors ${editingTransition.duration === duration
+                                        ? 'bg-cyan-500/20 border-cyan-400 text-cyan-100'
+                                        : 'border-slate-700 text-slate-300 hover:border-slate-500'
+                                        }`}
+                                >
+                                    {duration}s
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <button
+                        type="button"
+                        onClick={() => setEditingBoundary(null)}
+                        className="ml-auto p-0.5 rounded text-slate-500 hover:text-white hover:bg-slate-700"
+                        title={t('editor.transition.close')}
+                    >
+                        <X size={10} />
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,68 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { formatTime } from '../../utils/format';
+
+interface SkimPreviewProps {
+    src: string;
+    /** null = 没有在 skim（隐藏） */
+    time: number | null;
+}
+
+/**
+ * Skimming 预览：用第二个 <video> 显示滑鼠所在位置的画面
+ * - 不碰主播放器，播放头不会移动
+ * - seek 尚未完成时只记下最新的时间，完成后再跳（滑鼠移动很快时不会堆积）
+ */
+export const SkimPreview: React.FC<SkimPreviewProps> = ({ src, time }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const pendingRef = useRef<number | null>(null);
+    const seekingRef = useRef(false);
+    const [hasFrame, setHasFrame] = useState(false);
+
+    const flush = useCallback(() => {
+        const video = videoRef.current;
+        const target = pendingRef.current;
+        if (!video || target === null || seekingRef.current) return;
+        // metadata 还没载入：等 onLoadedMetadata 再跳
+        if (video.readyState < HTMLMediaElement.HAVE_METADATA) return;
+        pendingRef.current = null;
+        seekingRef.current = true;
+        video.currentTime = target;
+    }, []);
+
+    useEffect(() => {
+        if (time === null) {
+            pendingRef.current = null;
+            return;
+        }
+        pendingRef.current = time;
+        flush();
+    }, [time, flush]);
+
+    const handleSeeked = useCallback(() => {
+        seekingRef.current = false;
+        setHasFrame(true);
+        flush();
+    }, [flush]);
+
+    const visible = time !== null && hasFrame;
+
+    return (
+        <div className={`absolute inset-0 bg-black pointer-events-none transition-opacity duration-75 ${visible ? 'opacity-100' : 'opacity-0'}`}>
+            <video
+                ref={videoRef}
+                src={src}
+                className="w-full h-full object-contain"
+                muted
+                playsInline
+                preload="auto"
+                onLoadedMetadata={flush}
+                onSeeked={handleSeeked}
+            />
+            {time !== null && (
+                <div className="absolute top-3 left-3 bg-cyan-900/90 text-cyan-200 text-[10px] font-mono font-medium px-1.5 py-0.5 rounded-sm border border-cyan-500/50">
+                    {formatTime(time)}
+                </div>
+            )}
+        </div>
+    );
+};
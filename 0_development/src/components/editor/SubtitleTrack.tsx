@@ -0,0 +1,40 @@
+import React from 'react';
+import type { SubtitleCue } from '../../types';
+import { formatTime } from '../../utils/format';
+
+interface SubtitleTrackProps {
+    cues: SubtitleCue[];
+    toPct: (time: number) => number;
+    /** 点 cue 跳到它的开头 */
+    onSeek: (time: number) => void;
+}
+
+/**
+ * 字幕轨道（录制时间，跟上方片段轨道对齐）
+ * - 只显示与跳转；时间以汇入的字幕档为准，导出时才换算过剪辑
+ */
+export const SubtitleTrack: React.FC<SubtitleTrackProps> = ({ cues, toPct, onSeek }) => {
+    return (
+        <div className="relative h-5 border-t border-slate-800/70 bg-slate-950">
+            {cues.map((cue) => {
+                const leftPct = toPct(cue.start);
+                const widthPct = Math.max(0.2, toPct(cue.end) - leftPct);
+                return (
+                    <button
+                        key={cue.id}
+                        type="button"
+                        className="absolute top-0.5 bottom-0.5 z-10 px-1 rounded-sm overflow-hidden text-left text-[8px] leading-4 truncate bg-sky-600/30 border border-sky-500/40 text-sky-100 hover:bg-sky-600/50"
+                        style={{ left: `${leftPct}%`, width: `${widthPct}%` }}
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onSeek(cue.start);
+                        }}
+                        title={`${formatTime(cue.start)} - ${formatTime(cue.end)}\n${cue.text}`}
+                    >
+                        {cue.text.replace(/\n/g, ' ')}
+                    </button>
+                );
+            })}
+        </div>
+    );
+};
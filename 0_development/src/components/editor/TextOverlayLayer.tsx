@@ -0,0 +1,71 @@
+import React from 'react';
+import type { ExportCrop, TextOverlay } from '../../types';
+import { TEXT_OVERLAY_STYLE, getTextOverlayAnchor } from '../../types';
+import { VideoContentBox } from './VideoContentBox';
+
+interface TextOverlayLayerProps {
+    overlays: TextOverlay[];
+    /** 录制时间 */
+    time: number;
+    /** 录制画面尺寸（未载入时为 null，不显示） */
+    videoSize: { width: number; height: number } | null;
+    /** 导出的裁切范围：文字排在裁切后的画面里 */
+    crop?: ExportCrop | null;
+}
+
+/**
+ * 播放器上的文字叠加预览
+ * - 盖在影片实际画面（有裁切时是裁切框）上，字级用 cqh 跟着画面高度缩放
+ * - 与导出时的排版共用 TEXT_OVERLAY_STYLE，所见即所得
+ */
+export const TextOverlayLayer: React.FC<TextOverlayLayerProps> = ({ overlays, time, videoSize, crop = null }) => {
+    if (!videoSize || videoSize.height <= 0) return null;
+    const visible = overlays.filter((o) => o.text.trim() && time >= o.start && time < o.end);
+    if (visible.length === 0) return null;
+
+    const frame = crop ?? { x: 0, y: 0, width: 1, height: 1 };
+
+    return (
+        <VideoContentBox videoSize={videoSize} className="pointer-events-none">
+            <div
+                className="absolute"
+                style={{
+                    left: `${frame.x * 100}%`,
+                    top: `${frame.y * 100}%`,
+                    width: `${frame.width * 100}%`,
+                    height: `${frame.height * 100}%`,
+                    containerType: 'size',
+                }}
+            >
+                {visible.map((overlay) => {
+                    const { horizontal, vertical } = getTextOverlayAnchor(overlay.position);
+                    const margin = `${TEXT_OVERLAY_STYLE.margin * 100}cqh`;
+                    return (
+                        <div
+                            key={overlay.id}
+                            className="absolute whitespace-pre"
+                            style={{
+                                left: horizontal === 'left' ? margin : horizontal === 'center' ? '50%' : undefined,
+                                right: horizontal === 'right' ? margin : undefined,
+                                top: vertical === 'top' ? margin : vertical === 'middle' ? '50%' : undefined,
+                                bottom: vertical === 'bottom' ? margin : undefined,
+                                transform: `translate(${horizontal === 'center' ? '-50%' : '0'}, ${vertical === 'middle' ? '-50%' : '0'})`,
+                                fontFamily: TEXT_OVERLAY_STYLE.fontFamily,
+                                fontWeight: TEXT_OVERLAY_STYLE.fontWeight,
+                                fontSize: `${overlay.fontSize / 10.8}cqh`,
+                                lineHeight: TEXT_OVERLAY_STYLE.lineHeight,
+                                padding: `${TEXT_OVERLAY_STYLE.padding}em`,
+                                borderRadius: `${TEXT_OVERLAY_STYLE.padding / 2}em`,
+                                textAlign: horizontal,
+                                color: overlay.color,
+                                background: overlay.background ? TEXT_OVERLAY_STYLE.boxColor : undefined,
+                            }}
+                        >
+                            {overlay.text}
+                        </div>
+                    );
+                })}
+            </div>
+        </VideoContentBox>
+    );
+};
@@ -0,0 +1,110 @@
+import React, { useRef } from 'react';
+import { Type } from 'lucide-react';
+import type { TextOverlay } from '../../types';
+import { formatTime } from '../../utils/format';
+import { useI18n } from '../../i18n';
+
+type DragMode = 'move' | 'start' | 'end';
+
+interface TextOverlayTrackProps {
+    overlays: TextOverlay[];
+    selectedId: string | null;
+    maxDuration: number;
+    toPct: (time: number) => number;
+    onSelect: (id: string) => void;
+    onUpdate: (id: string, patch: Partial<Omit<TextOverlay, 'id'>>) => void;
+}
+
+/**
+ * 文字叠加轨道（录制时间，跟上方片段轨道对齐）
+ * - 拖曳色条移动，拖两端调整起讫
+ * - 点击只选取，不移动播放头
+ */
+export const TextOverlayTrack: React.FC<TextOverlayTrackProps> = ({
+    overlays,
+    selectedId,
+    maxDuration,
+    toPct,
+    onSelect,
+    onUpdate,
+}) => {
+    const { t } = useI18n();
+    const trackRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ id: string; mode: DragMode; x: number; start: number; end: number } | null>(null);
+
+    const startDrag = (e: React.PointerEvent, overlay: TextOverlay, mode: DragMode) => {
+        e.stopPropagation();
+        onSelect(overlay.id);
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { id: overlay.id, mode, x: e.clientX, start: overlay.start, end: overlay.end };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        const track = trackRef.current;
+        if (!drag || !track) return;
+        const delta = ((e.clientX - drag.x) / track.getBoundingClientRect().width) * maxDuration;
+
+        if (drag.mode === 'move') {
+            const shift = Math.max(-drag.start, Math.min(delta, maxDuration - drag.end));
+            onUpdate(drag.id, { start: drag.start + shift, end: drag.end + shift });
+        } else if (drag.mode === 'start') {
+            onUpdate(drag.id, { start: Math.min(drag.start + delta, drag.end) });
+        } else {
+            onUpdate(drag.id, { end: Math.max(drag.end + delta, drag.start) });
+        }
+    };
+
+    const endDrag = (e: React.PointerEvent) => {
+        if (!dragRef.current) return;
+        dragRef.current = null;
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    };
+
+    return (
+        <div
+            ref={trackRef}
+            className="relative h-6 border-t border-slate-800/70 bg-slate-950"
+            title={t('editor.textOverlay.trackHint')}
+        >
+            {overlays.map((overlay) => {
+                const leftPct = toPct(overlay.start);
+                const widthPct = Math.max(0.5, toPct(overlay.end) - leftPct);
+                const isSelected = overlay.id === selectedId;
+                return (
+                    <div
+                        key={overlay.id}
+                        className={`
+                            absolute top-0.5 bottom-0.5 z-10 flex items-center gap-1 px-1.5 rounded
+                            text-[9px] overflow-hidden cursor-grab active:cursor-grabbing border select-none
+                            ${isSelected
+                                ? 'bg-teal-500/40 border-yellow-400 text-white'
+                                : 'bg-teal-600/30 border-teal-500/50 text-teal-100 hover:bg-teal-600/50'
+                            }
+                        `}
+                        style={{ left: `${leftPct}%`, width: `${widthPct}%` }}
+                        onClick={(e) => e.stopPropagation()}
+                        onPointerDown={(e) => startDrag(e, overlay, 'move')}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={endDrag}
+                        onPointerCancel={endDrag}
+                        title={`${overlay.text || t('editor.textOverlay.empty')} • ${formatTime(overlay.start)} - ${formatTime(overlay.end)}`}
+                    >
+                        <Type size={9} className="shrink-0 opacity-70" />
+                        <span className="truncate">{overlay.text || t('editor.textOverlay.empty')}</span>
+
+                        {/* 起讫手柄 */}
+                        <div
+                            className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-white/30"
+                            onPointerDown={(e) => startDrag(e, overlay, 'start')}
+                        />
+                        <div
+                            className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-white/30"
+                            onPointerDown={(e) => startDrag(e, overlay, 'end')}
+                        />
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
@@ -1,6 +1,8 @@
-import React, { useMemo } from 'react';
-import type { TrimRange } from '../../types';
+import React, { useRef } from 'react';
+import type { TrimRange, WaveformData } from '../../types';
+import { getSegmentOutputDuration, getSegmentSpeed } from '../../types';
 import { formatTime } from '../../utils/format';
+import { WaveformCanvas } from './WaveformCanvas';
 
 interface TimelineClipProps {
     segment: TrimRange;
@@ -10,11 +12,19 @@ interface TimelineClipProps {
     widthPct: number;
     onSelect: () => void;
     maxDuration: number;
+    /** 录制的音频波形（null = 计算中） */
+    waveform?: WaveformData | null;
+    /** 拖曳两端手柄时持续回报新的起讫（录制时间） */
+    onTrim?: (start: number, end: number) => void;
+    /** 一次拖曳结束（撤销时整次拖曳算一步） */
+    onTrimEnd?: () => void;
 }
 
+type TrimEdge = 'start' | 'end';
+
 /**
  * 时间轴片段组件 - 高质感渲染
- * 包含精细波形模拟、渐变、阴影效果
+ * 包含真实音频波形、渐变、阴影效果
  */
 export const TimelineClip: React.FC<TimelineClipProps> = ({
     segment,
@@ -24,31 +34,56 @@ export const TimelineClip: React.FC<TimelineClipProps> = ({
     widthPct,
     onSelect,
     maxDuration,
+    waveform,
+    onTrim,
+    onTrimEnd,
 }) => {
-    // 生成伪波形数据 - 使用确定性种子
-    const waveformBars = useMemo(() => {
-        const barCount = Math.max(8, Math.min(60, Math.floor(widthPct * 1.5)));
-        const bars: number[] = [];
+    const clipRef = useRef<HTMLButtonElement>(null);
+    const dragRef = useRef<{ edge: TrimEdge; x: number; start: number; end: number } | null>(null);
+
+    // 变速片段：标签显示成品里的时长（片段仍按录制时间摆放）
+    const speed = getSegmentSpeed(segment);
+    const durationLabel = formatTime(getSegmentOutputDuration(segment));
 
-        // 使用片段属性作为伪随机种子
-        const seed = segment.start * 1000 + segment.end * 100 + index;
+    const startTrim = (e: React.PointerEvent, edge: TrimEdge) => {
+        if (!onTrim) return;
+        e.stopPropagation();
+        // 上一次拖曳没收到 pointerup 时也不会跟这次合并
+        onTrimEnd?.();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { edge, x: e.clientX, start: segment.start, end: segment.end };
+    };
 
-        for (let i = 0; i < barCount; i++) {
-            // 伪随机但确定性的高度计算
-            const noise = Math.sin(seed + i * 0.7) * 0.5 + 0.5;
-            const wave = Math.sin((i / barCount) * Math.PI * 2 + seed * 0.1) * 0.3;
-            const height = 0.2 + noise * 0.6 + wave * 0.2;
-            bars.push(Math.max(0.15, Math.min(0.95, height)));
-        }
+    const handleTrimMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        // 片段的 offsetParent 就是整条轨道（宽度对应 maxDuration）
+        const track = clipRef.current?.parentElement;
+        if (!drag || !track || !onTrim) return;
+        const delta = ((e.clientX - drag.x) / track.getBoundingClientRect().width) * maxDuration;
+        // 实际可拖的范围由 useSegmentsEditor 夹住（不超过相邻片段）
+        if (drag.edge === 'start') onTrim(drag.start + delta, drag.end);
+        else onTrim(drag.start, drag.end + delta);
+    };
 
-        return bars;
-    }, [segment.start, segment.end, index, widthPct]);
+    const endTrim = (e: React.PointerEvent) => {
+        if (!dragRef.current) return;
+        dragRef.current = null;
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+        onTrimEnd?.();
+    };
 
-    const duration = segment.end - segment.start;
-    const durationLabel = formatTime(duration);
+    const trimHandleProps = (edge: TrimEdge) => ({
+        onPointerDown: (e: React.PointerEvent) => startTrim(e, edge),
+        onPointerMove: handleTrimMove,
+        onPointerUp: endTrim,
+        onPointerCancel: endTrim,
+        // 拖完放开不算点击片段（否则会把播放头跳回片段起点）
+        onClick: (e: React.MouseEvent) => e.stopPropagation(),
+    });
 
     return (
         <button
+            ref={clipRef}
             type="button"
             onClick={(e) => {
                 e.stopPropagation();
@@ -64,7 +99,7 @@ export const TimelineClip: React.FC<TimelineClipProps> = ({
                 }
             `}
             style={{ left: `${leftPct}%`, width: `${widthPct}%` }}
-            title={`#${index + 1}: ${formatTime(segment.start)} - ${formatTime(segment.end)} (${durationLabel})`}
+            title={`#${index + 1}: ${formatTime(segment.start)} - ${formatTime(segment.end)} (${durationLabel}${speed !== 1 ? ` @ ${speed}×` : ''})`}
         >
             {/* 背景渐变层 */}
             <div className={`
@@ -82,26 +117,18 @@ export const TimelineClip: React.FC<TimelineClipProps> = ({
                 pointer-events-none
             `} />
 
-            {/* 波形区域 */}
-            <div className="absolute inset-0 flex items-center justify-center px-1 overflow-hidden">
-                <div className="flex items-center justify-center gap-[1px] h-full w-full">
-                    {waveformBars.map((height, i) => (
-                        <div
-                            key={i}
-                            className={`
-                                flex-shrink-0 rounded-full
-                                transition-all duration-200
-                                ${isSelected ? 'bg-white/50' : 'bg-white/30'}
-                                group-hover:bg-white/40
-                            `}
-                            style={{
-                                width: widthPct > 3 ? '2px' : '1px',
-                                height: `${height * 70}%`,
-                            }}
-                        />
-                    ))}
+            {/* 波形区域（真实音频；尚未算好时留空） */}
+            {waveform && (
+                <div className="absolute inset-x-1 inset-y-0 overflow-hidden">
+                    <WaveformCanvas
+                        waveform={waveform}
+                        start={segment.start}
+                        end={segment.end}
+                        color={isSelected ? 'rgba(255, 255, 255, 0.45)' : 'rgba(255, 255, 255, 0.3)'}
+                        rmsColor={isSelected ? 'rgba(255, 255, 255, 0.75)' : 'rgba(255, 255, 255, 0.55)'}
+                    />
                 </div>
-            </div>
+            )}
 
             {/* 片段编号标签 */}
             {widthPct > 4 && (
@@ -120,6 +147,19 @@ export const TimelineClip: React.FC<TimelineClipProps> = ({
                 </div>
             )}
 
+            {/* 变速标签 */}
+            {speed !== 1 && widthPct > 4 && (
+                <div className="
+                    absolute top-1 right-1.5
+                    text-[8px] font-mono font-bold
+                    px-1 py-0.5 rounded
+                    bg-amber-400/90 text-slate-900
+                    shadow-sm
+                ">
+                    {speed}×
+                </div>
+            )}
+
             {/* 时长标签 (仅当空间足够时显示) */}
             {widthPct > 8 && (
                 <div className={`
@@ -133,14 +173,14 @@ export const TimelineClip: React.FC<TimelineClipProps> = ({
                 </div>
             )}
 
-            {/* Trim Handles - 仅选中时显示 */}
-            {isSelected && (
+            {/* Trim Handles - 仅选中时显示，拖曳调整起讫 */}
+            {isSelected && onTrim && (
                 <>
                     {/* 左侧手柄 */}
-                    <div className="
+                    <div {...trimHandleProps('start')} className="
                         absolute left-0 top-0 bottom-0 w-2
                         bg-gradient-to-r from-yellow-400 to-yellow-400/50
-                        rounded-l-md cursor-ew-resize
+                        rounded-l-md cursor-ew-resize touch-none
                         hover:from-yellow-300 hover:to-yellow-300/70
                         transition-all
                         flex items-center justify-center
@@ -149,10 +189,10 @@ export const TimelineClip: React.FC<TimelineClipProps> = ({
                     </div>
 
                     {/* 右侧手柄 */}
-                    <div className="
+                    <div {...trimHandleProps('end')} className="
                         absolute right-0 top-0 bottom-0 w-2
                         bg-gradient-to-l from-yellow-400 to-yellow-400/50
-                        rounded-r-md cursor-ew-resize
+                        rounded-r-md cursor-ew-resize touch-none
                         hover:from-yellow-300 hover:to-yellow-300/70
                         transition-all
                         flex items-center justify-center
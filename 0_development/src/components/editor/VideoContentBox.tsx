@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface VideoContentBoxProps {
+    /** 录制画面尺寸 */
+    videoSize: { width: number; height: number };
+    /** 外层（整个播放器区域）的 class，例如 pointer-events-none */
+    className?: string;
+    children: React.ReactNode;
+}
+
+/**
+ * 播放器里影片实际画面的范围（扣掉 object-contain 的黑边）
+ * - 用 container query 单位按比例算出大小，子元素可用 % 与 cqw / cqh 定位
+ */
+export const VideoContentBox: React.FC<VideoContentBoxProps> = ({ videoSize, className = '', children }) => {
+    const ratio = videoSize.width / videoSize.height;
+    return (
+        <div
+            className={`absolute inset-0 flex items-center justify-center overflow-hidden ${className}`}
+            style={{ containerType: 'size' }}
+        >
+            <div
+                className="relative"
+                style={{
+                    width: `min(100cqw, ${100 * ratio}cqh)`,
+                    height: `min(100cqh, ${100 / ratio}cqw)`,
+                    containerType: 'size',
+                }}
+            >
+                {children}
+            </div>
+        </div>
+    );
+};
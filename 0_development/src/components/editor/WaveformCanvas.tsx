@@ -0,0 +1,88 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { WaveformData } from '../../types';
+import { pickWaveformLevel } from '../../utils/waveform';
+
+interface WaveformCanvasProps {
+    waveform: WaveformData;
+    /** 这段 canvas 对应的录制时间范围（秒） */
+    start: number;
+    end: number;
+    color: string;
+    rmsColor: string;
+}
+
+/**
+ * 真实音频波形（峰值 + RMS）
+ * - 依 canvas 实际像素宽度挑层级，每个像素一根柱，缩放时自动重画
+ */
+export const WaveformCanvas: React.FC<WaveformCanvasProps> = ({ waveform, start, end, color, rmsColor }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [size, setSize] = useState({ width: 0, height: 0 });
+
+    // 追踪 canvas 尺寸（时间轴缩放 / 面板调整大小都会改变）
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const observer = new ResizeObserver(([entry]) => {
+            const { width, height } = entry.contentRect;
+            setSize({ width: Math.round(width), height: Math.round(height) });
+        });
+        observer.observe(canvas);
+        return () => observer.disconnect();
+    }, []);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || size.width === 0 || size.height === 0) return;
+
+        const dpr = window.devicePixelRatio || 1;
+        canvas.width = Math.round(size.width * dpr);
+        canvas.height = Math.round(size.height * dpr);
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        ctx.clearRect(0, 0, size.width, size.height);
+
+        const mid = size.height / 2;
+        const duration = Math.max(end - start, 0.0001);
+        const pixelsPerSecond = size.width / duration;
+        const level = pickWaveformLevel(waveform, pixelsPerSecond);
+
+        // 没有音轨：画一条中线
+        if (!waveform.hasAudio || !level) {
+            ctx.fillStyle = rmsColor;
+            ctx.fillRect(0, mid - 0.5, size.width, 1);
+            return;
+        }
+
+        // 以整段录制的最大峰值做显示正规化（同一录制内各片段高度可比较）
+        const gain = waveform.peakAmplitude > 0 ? 1 / waveform.peakAmplitude : 1;
+        const halfHeight = mid * 0.9;
+
+        for (let x = 0; x < size.width; x++) {
+            const t0 = start + (x / size.width) * duration;
+            const t1 = start + ((x + 1) / size.width) * duration;
+            const from = Math.floor(t0 * level.bucketsPerSecond);
+            const to = Math.max(from + 1, Math.ceil(t1 * level.bucketsPerSecond));
+
+            let peak = 0;
+            let energy = 0;
+            let count = 0;
+            for (let i = from; i < Math.min(to, level.peaks.length); i++) {
+                if (level.peaks[i] > peak) peak = level.peaks[i];
+                energy += level.rms[i] * level.rms[i];
+                count++;
+            }
+            if (count === 0) continue;
+
+            const peakH = Math.max(0.5, Math.min(1, peak * gain) * halfHeight);
+            const rmsH = Math.min(1, Math.sqrt(energy / count) * gain) * halfHeight;
+
+            ctx.fillStyle = color;
+            ctx.fillRect(x, mid - peakH, 1, peakH * 2);
+            ctx.fillStyle = rmsColor;
+            ctx.fillRect(x, mid - rmsH, 1, rmsH * 2);
+        }
+    }, [waveform, start, end, color, rmsColor, size]);
+
+    return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
@@ -0,0 +1,79 @@
+import React, { useRef } from 'react';
+import type { ExportCrop, ZoomRegion } from '../../types';
+import { VideoContentBox } from './VideoContentBox';
+
+interface ZoomTargetOverlayProps {
+    region: ZoomRegion;
+    videoSize: { width: number; height: number };
+    /** 导出的裁切范围：缩放是在裁切后的画面里 */
+    crop: ExportCrop | null;
+    onChange: (patch: Pick<ZoomRegion, 'x' | 'y'>) => void;
+}
+
+/**
+ * 选取缩放区域时，在播放器上显示放大的目标框（画面的 1 / zoom），拖曳来改变放大的位置
+ */
+export const ZoomTargetOverlay: React.FC<ZoomTargetOverlayProps> = ({ region, videoSize, crop, onChange }) => {
+    const frameRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ x: number; y: number; startX: number; startY: number } | null>(null);
+
+    const frame = crop ?? { x: 0, y: 0, width: 1, height: 1 };
+    const size = 1 / region.zoom;
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        e.stopPropagation();
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { x: e.clientX, y: e.clientY, startX: region.x, startY: region.y };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        const box = frameRef.current;
+        if (!drag || !box) return;
+        const rect = box.getBoundingClientRect();
+        // 超出画面的部分由 useZoomRegions 夹回来
+        onChange({
+            x: drag.startX + (e.clientX - drag.x) / rect.width,
+            y: drag.startY + (e.clientY - drag.y) / rect.height,
+        });
+    };
+
+    const endDrag = () => {
+        dragRef.current = null;
+    };
+
+    return (
+        <VideoContentBox videoSize={videoSize} className="z-20 pointer-events-none">
+            <div
+                ref={frameRef}
+                className="absolute"
+                style={{
+                    left: `${frame.x * 100}%`,
+                    top: `${frame.y * 100}%`,
+                    width: `${frame.width * 100}%`,
+                    height: `${frame.height * 100}%`,
+                }}
+            >
+                <div
+                    className="absolute border-2 border-dashed border-fuchsia-400 bg-fuchsia-400/10 cursor-move pointer-events-auto"
+                    style={{
+                        left: `${(region.x - size / 2) * 100}%`,
+                        top: `${(region.y - size / 2) * 100}%`,
+                        width: `${size * 100}%`,
+                        height: `${size * 100}%`,
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={endDrag}
+                    onPointerCancel={endDrag}
+                >
+                    <span className="absolute left-1 top-1 px-1 rounded bg-black/70 text-[10px] font-mono text-fuchsia-200">
+                        {region.zoom.toFixed(2)}×
+                    </span>
+                </div>
+            </div>
+        </VideoContentBox>
+    );
+};
@@ -0,0 +1,108 @@
+import React, { useRef } from 'react';
+import { ZoomIn } from 'lucide-react';
+import type { ZoomRegion } from '../../types';
+import { formatTime } from '../../utils/format';
+import { useI18n } from '../../i18n';
+
+type DragMode = 'move' | 'start' | 'end';
+
+interface ZoomTrackProps {
+    regions: ZoomRegion[];
+    selectedId: string | null;
+    maxDuration: number;
+    toPct: (time: number) => number;
+    onSelect: (id: string) => void;
+    onUpdate: (id: string, patch: Partial<Omit<ZoomRegion, 'id'>>) => void;
+}
+
+/**
+ * 缩放轨道（录制时间，跟上方片段轨道对齐）
+ * - 拖曳色条移动，拖两端调整起讫；两端的渐层表示缓入 / 缓出
+ * - 点击只选取，不移动播放头
+ */
+export const ZoomTrack: React.FC<ZoomTrackProps> = ({
+    regions,
+    selectedId,
+    maxDuration,
+    toPct,
+    onSelect,
+    onUpdate,
+}) => {
+    const { t } = useI18n();
+    const trackRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ id: string; mode: DragMode; x: number; start: number; end: number } | null>(null);
+
+    const startDrag = (e: React.PointerEvent, region: ZoomRegion, mode: DragMode) => {
+        e.stopPropagation();
+        onSelect(region.id);
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { id: region.id, mode, x: e.clientX, start: region.start, end: region.end };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        const track = trackRef.current;
+        if (!drag || !track) return;
+        const delta = ((e.clientX - drag.x) / track.getBoundingClientRect().width) * maxDuration;
+
+        if (drag.mode === 'move') {
+            const shift = Math.max(-drag.start, Math.min(delta, maxDuration - drag.end));
+            onUpdate(drag.id, { start: drag.start + shift, end: drag.end + shift });
+        } else if (drag.mode === 'start') {
+            onUpdate(drag.id, { start: Math.min(drag.start + delta, drag.end) });
+        } else {
+            onUpdate(drag.id, { end: Math.max(drag.end + delta, drag.start) });
+        }
+    };
+
+    const endDrag = (e: React.PointerEvent) => {
+        if (!dragRef.current) return;
+        dragRef.current = null;
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    };
+
+    return (
+        <div
+            ref={trackRef}
+            className="relative h-6 border-t border-slate-800/70 bg-slate-950"
+            title={t('editor.zoom.trackHint')}
+        >
+            {regions.map((region) => {
+                const leftPct = toPct(region.start);
+                const widthPct = Math.max(0.5, toPct(region.end) - leftPct);
+                const isSelected = region.id === selectedId;
+                return (
+                    <div
+                        key={region.id}
+                        className={`
+                            absolute top-0.5 bottom-0.5 z-10 flex items-center justify-center gap-1 px-1.5 rounded
+                            text-[9px] font-mono overflow-hidden cursor-grab active:cursor-grabbing border select-none
+                            bg-gradient-to-r from-fuchsia-600/10 via-fuchsia-600/40 to-fuchsia-600/10
+                            ${isSelected ? 'border-yellow-400 text-white' : 'border-fuchsia-500/50 text-fuchsia-100 hover:via-fuchsia-600/60'}
+                        `}
+                        style={{ left: `${leftPct}%`, width: `${widthPct}%` }}
+                        onClick={(e) => e.stopPropagation()}
+                        onPointerDown={(e) => startDrag(e, region, 'move')}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={endDrag}
+                        onPointerCancel={endDrag}
+                        title={`${region.zoom.toFixed(2)}× • ${formatTime(region.start)} - ${formatTime(region.end)}`}
+                    >
+                        <ZoomIn size={9} className="shrink-0 opacity-70" />
+                        <span className="truncate">{region.zoom.toFixed(1)}×</span>
+
+                        {/* 起讫手柄 */}
+                        <div
+                            className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-white/30"
+                            onPointerDown={(e) => startDrag(e, region, 'start')}
+                        />
+                        <div
+                            className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-white/30"
+                            onPointerDown={(e) => startDrag(e, region, 'end')}
+                        />
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
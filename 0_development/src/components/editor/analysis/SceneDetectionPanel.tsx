@@ -0,0 +1,115 @@
+import React from 'react';
+import { Clapperboard, Loader2 } from 'lucide-react';
+import { useI18n } from '../../../i18n';
+
+interface SceneDetectionPanelProps {
+    threshold: number;
+    onChangeThreshold: (threshold: number) => void;
+    isDetecting: boolean;
+    hasResult: boolean;
+    suggestionCount: number;
+    error: string | null;
+    /** 导出进行中（共用 FFmpeg，不能同时跑） */
+    isBusy: boolean;
+    onDetect: () => void;
+    onCancel: () => void;
+    onClear: () => void;
+    onApply: () => void;
+}
+
+/**
+ * 画面切换检测面板：检测 → 调整灵敏度 → 在时间轴上预览建议点 → 全部分割
+ */
+export const SceneDetectionPanel: React.FC<SceneDetectionPanelProps> = ({
+    threshold,
+    onChangeThreshold,
+    isDetecting,
+    hasResult,
+    suggestionCount,
+    error,
+    isBusy,
+    onDetect,
+    onCancel,
+    onClear,
+    onApply,
+}) => {
+    const { t } = useI18n();
+
+    return (
+        <div className="space-y-2 px-2">
+            <div className="flex items-center gap-1.5 text-xs text-slate-300">
+                <Clapperboard size={11} className="text-violet-400" />
+                {t('editor.scenes.title')}
+            </div>
+
+            <label className="block space-y-0.5">
+                <div className="flex items-center justify-between text-[10px] text-slate-500">
+                    <span>{t('editor.scenes.threshold')}</span>
+                    <span className="font-mono text-slate-400">{threshold.toFixed(2)}</span>
+                </div>
+                <input
+                    type="range"
+                    min={0.1}
+                    max={0.8}
+                    step={0.05}
+                    value={threshold}
+                    onChange={(e) => onChangeThreshold(Number(e.target.value))}
+                    className="w-full accent-violet-500"
+                />
+                <p className="text-[10px] text-slate-600">{t('editor.scenes.thresholdHint')}</p>
+            </label>
+
+            {error && <div className="text-[10px] text-red-300">{t('editor.scenes.failed', { error })}</div>}
+
+            {isDetecting ? (
+                <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-1.5 text-[10px] text-slate-500">
+                        <Loader2 size={10} className="animate-spin" />
+                        {t('editor.scenes.detecting')}
+                    </span>
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="px-2 py-1 text-[10px] rounded-md text-slate-400 hover:text-white hover:bg-slate-700 border border-slate-700/50 transition-all"
+                    >
+                        {t('editor.scenes.cancel')}
+                    </button>
+                </div>
+            ) : !hasResult ? (
+                <button
+                    type="button"
+                    onClick={onDetect}
+                    disabled={isBusy}
+                    className="w-full py-1 text-[10px] rounded-md bg-slate-800/60 text-slate-300 hover:bg-slate-700 hover:text-white border border-slate-700 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                    {t('editor.scenes.detect')}
+                </button>
+            ) : (
+                <div className="space-y-1.5">
+                    <div className="text-[10px] text-slate-400">
+                        {suggestionCount > 0
+                            ? t('editor.scenes.found', { count: suggestionCount })
+                            : t('editor.scenes.none')}
+                    </div>
+                    <div className="flex gap-1">
+                        <button
+                            type="button"
+                            onClick={onApply}
+                            disabled={suggestionCount === 0}
+                            className="flex-1 py-1 text-[10px] rounded-md bg-violet-600/20 text-violet-300 hover:bg-violet-600/40 border border-violet-600/30 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            {t('editor.scenes.apply')}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={onClear}
+                            className="px-2 py-1 text-[10px] rounded-md text-slate-400 hover:text-white hover:bg-slate-700 border border-slate-700/50 transition-all"
+                        >
+                            {t('editor.scenes.clear')}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
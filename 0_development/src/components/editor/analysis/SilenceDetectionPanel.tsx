@@ -0,0 +1,122 @@
+import React from 'react';
+import { VolumeX, Loader2 } from 'lucide-react';
+import { useI18n } from '../../../i18n';
+import { formatTime } from '../../../utils/format';
+import type { SilenceDetectionSettings } from '../../../utils/silence';
+
+interface SilenceDetectionPanelProps {
+    settings: SilenceDetectionSettings;
+    onChangeSettings: (settings: SilenceDetectionSettings) => void;
+    isActive: boolean;
+    rangeCount: number;
+    totalDuration: number;
+    canDetect: boolean;
+    isWaveformLoading: boolean;
+    onDetect: () => void;
+    onClear: () => void;
+    onApply: () => void;
+}
+
+const SLIDERS: Array<{
+    key: keyof SilenceDetectionSettings;
+    labelKey: string;
+    min: number;
+    max: number;
+    step: number;
+    unit: string;
+}> = [
+    { key: 'thresholdDb', labelKey: 'editor.silence.threshold', min: -70, max: -20, step: 1, unit: 'dB' },
+    { key: 'minDuration', labelKey: 'editor.silence.minDuration', min: 0.2, max: 5, step: 0.1, unit: 's' },
+    { key: 'padding', labelKey: 'editor.silence.padding', min: 0, max: 1, step: 0.05, unit: 's' },
+];
+
+/**
+ * 静音侦测面板：调整参数 → 侦测 → 在时间轴上预览 → 一键移除
+ */
+export const SilenceDetectionPanel: React.FC<SilenceDetectionPanelProps> = ({
+    settings,
+    onChangeSettings,
+    isActive,
+    rangeCount,
+    totalDuration,
+    canDetect,
+    isWaveformLoading,
+    onDetect,
+    onClear,
+    onApply,
+}) => {
+    const { t } = useI18n();
+
+    return (
+        <div className="space-y-2 px-2">
+            <div className="flex items-center gap-1.5 text-xs text-slate-300">
+                <VolumeX size={11} className="text-amber-400" />
+                {t('editor.silence.title')}
+            </div>
+
+            {SLIDERS.map((slider) => (
+                <label key={slider.key} className="block space-y-0.5">
+                    <div className="flex items-center justify-between text-[10px] text-slate-500">
+                        <span>{t(slider.labelKey)}</span>
+                        <span className="font-mono text-slate-400">
+                            {settings[slider.key]}
+                            {slider.unit}
+                        </span>
+                    </div>
+                    <input
+                        type="range"
+                        min={slider.min}
+                        max={slider.max}
+                        step={slider.step}
+                        value={settings[slider.key]}
+                        onChange={(e) => onChangeSettings({ ...settings, [slider.key]: Number(e.target.value) })}
+                        disabled={!canDetect}
+                        className="w-full accent-amber-500"
+                    />
+                </label>
+            ))}
+
+            {isWaveformLoading ? (
+                <div className="flex items-center gap-1.5 text-[10px] text-slate-500">
+                    <Loader2 size={10} className="animate-spin" />
+                    {t('editor.silence.waitingAudio')}
+                </div>
+            ) : !canDetect ? (
+                <div className="text-[10px] text-slate-500">{t('editor.silence.noAudio')}</div>
+            ) : !isActive ? (
+                <button
+                    type="button"
+                    onClick={onDetect}
+                    className="w-full py-1 text-[10px] rounded-md bg-slate-800/60 text-slate-300 hover:bg-slate-700 hover:text-white border border-slate-700 transition-all"
+                >
+                    {t('editor.silence.detect')}
+                </button>
+            ) : (
+                <div className="space-y-1.5">
+                    <div className="text-[10px] text-slate-400">
+                        {rangeCount > 0
+                            ? t('editor.silence.found', { count: rangeCount, duration: formatTime(totalDuration) })
+                            : t('editor.silence.none')}
+                    </div>
+                    <div className="flex gap-1">
+                        <button
+                            type="button"
+                            onClick={onApply}
+                            disabled={rangeCount === 0}
+                            className="flex-1 py-1 text-[10px] rounded-md bg-amber-600/20 text-amber-300 hover:bg-amber-600/40 border border-amber-600/30 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            {t('editor.silence.apply')}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={onClear}
+                            className="px-2 py-1 text-[10px] rounded-md text-slate-400 hover:text-white hover:bg-slate-700 border border-slate-700/50 transition-all"
+                        >
+                            {t('editor.silence.clear')}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,8 +1,11 @@
 import React from 'react';
 import { Zap, Sparkles, Crown, Film } from 'lucide-react';
-import type { ExportFormat, ExportFrameRateOption, ExportResolution, VideoQualityPreset } from '../../../types';
-import { VIDEO_QUALITY_PRESETS } from '../../../types';
+import type { AnimatedExportSettings, ExportChapterSource, ExportFormat, ExportMetadata, ExportFormatKind, ExportFrameRateOption, ExportResolution, SubtitleExportMode, VideoQualityPreset } from '../../../types';
+import { EXPORT_FORMATS, VIDEO_QUALITY_PRESETS, isAnimatedFormat, isAudioFormat } from '../../../types';
 import { useI18n } from '../../../i18n';
+import { EditorExportAnimatedSettings } from './EditorExportAnimatedSettings';
+import { EditorExportMetadataSettings } from './EditorExportMetadataSettings';
+import { EditorExportSubtitleSettings } from './EditorExportSubtitleSettings';
 
 const qualityIcons: Record<VideoQualityPreset, React.ReactNode> = {
     low: <Zap size={14} />,
@@ -11,6 +14,8 @@ const qualityIcons: Record<VideoQualityPreset, React.ReactNode> = {
     lossless: <Crown size={14} />
 };
 
+const FORMAT_GROUPS: ExportFormatKind[] = ['video', 'animated', 'audio'];
+
 interface EditorExportAdvancedSettingsProps {
     selectedQuality: VideoQualityPreset;
     onSelectQuality: (preset: VideoQualityPreset) => void;
@@ -27,6 +32,32 @@ interface EditorExportAdvancedSettingsProps {
     customCrf: number;
     onChangeCrf: (crf: number) => void;
 
+    animationSettings: AnimatedExportSettings;
+    onChangeAnimation: (settings: AnimatedExportSettings) => void;
+
+    fastExport: boolean;
+    onChangeFastExport: (enabled: boolean) => void;
+    /** 来源是 WebM 才能直接 stream copy 成 WebM */
+    canStreamCopy: boolean;
+    /** WebM 来源却不能 stream copy = 有需要重新编码的效果（提示文字不同） */
+    isWebmSource: boolean;
+
+    chapterSource: ExportChapterSource;
+    onChangeChapterSource: (source: ExportChapterSource) => void;
+    markerCount: number;
+    segmentCount: number;
+
+    exportMetadata: ExportMetadata;
+    onChangeExportMetadata: (metadata: ExportMetadata) => void;
+
+    /** 字幕导出方式；未提供则不显示 */
+    subtitleMode?: SubtitleExportMode;
+    onChangeSubtitleMode?: (mode: SubtitleExportMode) => void;
+    subtitleCount?: number;
+
+    /** 导出画面尺寸（例如 1080×1920）；未提供则不显示 */
+    outputSizeLabel?: string;
+
     isProcessing: boolean;
 }
 
@@ -41,122 +72,222 @@ export const EditorExportAdvancedSettings: React.FC<EditorExportAdvancedSettings
     onSelectFps,
     customCrf,
     onChangeCrf,
+    animationSettings,
+    onChangeAnimation,
+    fastExport,
+    onChangeFastExport,
+    canStreamCopy,
+    isWebmSource,
+    chapterSource,
+    onChangeChapterSource,
+    markerCount,
+    segmentCount,
+    exportMetadata,
+    onChangeExportMetadata,
+    subtitleMode,
+    onChangeSubtitleMode,
+    subtitleCount = 0,
+    outputSizeLabel,
     isProcessing,
 }) => {
     const { t } = useI18n();
+    // 动图格式只显示自己的宽度 / fps / 循环设定（画质预设、CRF、分辨率不适用）
+    const isAnimated = isAnimatedFormat(selectedFormat);
+    // 纯音频格式：画质预设只决定音频码率
+    const isAudio = isAudioFormat(selectedFormat);
+    // 快速导出：不重新编码，画质 / 分辨率 / fps 都沿用原始录制
+    const isStreamCopy = fastExport && canStreamCopy && selectedFormat === 'webm';
 
     return (
         <div className="space-y-4 animate-fade-in">
-            {/* Quality Preset */}
-            <div className="space-y-2">
-                <label className="text-xs text-slate-400 uppercase tracking-wide">{t('editor.export.quality')}</label>
-                <div className="grid grid-cols-2 gap-2">
-                    {(Object.keys(VIDEO_QUALITY_PRESETS) as VideoQualityPreset[]).map((preset) => (
-                        <button
-                            key={preset}
-                            onClick={() => onSelectQuality(preset)}
-                            className={`flex items-center gap-2 p-2 rounded-xl border text-left transition-all ${selectedQuality === preset
-                                ? 'bg-indigo-600/20 border-indigo-500 text-indigo-200'
-                                : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-600'
-                                }`}
-                            disabled={isProcessing}
-                            type="button"
-                        >
-                            {qualityIcons[preset]}
-                            <div className="text-sm font-medium leading-tight">{t(`quality.${preset}.label`)}</div>
-                        </button>
-                    ))}
-                </div>
-                <p className="text-[11px] text-slate-500">{t(`quality.${selectedQuality}.description`)}</p>
-            </div>
+            {isAnimated ? (
+                <EditorExportAnimatedSettings
+                    settings={animationSettings}
+                    onChange={onChangeAnimation}
+                    isProcessing={isProcessing}
+                />
+            ) : isStreamCopy ? (
+                <p className="text-[11px] text-slate-500">{t('editor.export.fast.hint')}</p>
+            ) : (
+                <>
+                    {/* Quality Preset */}
+                    <div className="space-y-2">
+                        <label className="text-xs text-slate-400 uppercase tracking-wide">{t('editor.export.quality')}</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {(Object.keys(VIDEO_QUALITY_PRESETS) as VideoQualityPreset[]).map((preset) => (
+                                <button
+                                    key={preset}
+                                    onClick={() => onSelectQuality(preset)}
+                                    className={`flex items-center gap-2 p-2 rounded-xl border text-left transition-all ${selectedQuality === preset
+                                        ? 'bg-indigo-600/20 border-indigo-500 text-indigo-200'
+                                        : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-600'
+                                        }`}
+                                    disabled={isProcessing}
+                                    type="button"
+                                >
+                                    {qualityIcons[preset]}
+                                    <div className="text-sm font-medium leading-tight">{t(`quality.${preset}.label`)}</div>
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-[11px] text-slate-500">{t(`quality.${selectedQuality}.description`)}</p>
+                    </div>
 
-            {/* CRF */}
-            <div className="space-y-2">
-                <label className="text-xs text-slate-400 uppercase tracking-wide">{t('editor.export.crf')}</label>
-                <div className="flex gap-2 items-center">
-                    <input
-                        type="number"
-                        min={0}
-                        max={30}
-                        step={1}
-                        value={customCrf}
-                        onChange={(e) => {
-                            const val = Number(e.target.value);
-                            if (!Number.isFinite(val)) return;
-                            onChangeCrf(Math.min(Math.max(val, 0), 30));
-                        }}
-                        className="w-24 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                        disabled={selectedQuality === 'lossless' || isProcessing}
-                    />
-                    <span className="text-[11px] text-slate-500">
-                        {t('editor.export.crfHint')}
-                    </span>
-                </div>
-            </div>
+                    {isAudio ? (
+                        <p className="text-[11px] text-slate-500">
+                            {selectedFormat === 'wav'
+                                ? t('editor.export.audio.wavHint')
+                                : t('editor.export.audio.bitrateHint', { bitrate: VIDEO_QUALITY_PRESETS[selectedQuality].audioBitrate })}
+                        </p>
+                    ) : (
+                        <>
+                            {/* CRF */}
+                            <div className="space-y-2">
+                                <label className="text-xs text-slate-400 uppercase tracking-wide">{t('editor.export.crf')}</label>
+                                <div className="flex gap-2 items-center">
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={30}
+                                        step={1}
+                                        value={customCrf}
+                                        onChange={(e) => {
+                                            const val = Number(e.target.value);
+                                            if (!Number.isFinite(val)) return;
+                                            onChangeCrf(Math.min(Math.max(val, 0), 30));
+                                        }}
+                                        className="w-24 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                        disabled={selectedQuality === 'lossless' || isProcessing}
+                                    />
+                                    <span className="text-[11px] text-slate-500">
+                                        {t('editor.export.crfHint')}
+                                    </span>
+                                </div>
+                            </div>
 
-            {/* Resolution */}
-            <div className="space-y-2">
-                <label className="text-xs text-slate-400 uppercase tracking-wide">{t('editor.export.resolution')}</label>
-                <div className="grid grid-cols-2 gap-2">
-                    {(['original', '720p', '1080p', '4k'] as ExportResolution[]).map((res) => (
-                        <button
-                            key={res}
-                            onClick={() => onSelectResolution(res)}
-                            className={`py-2 px-3 rounded-xl border text-sm transition-all ${selectedResolution === res
-                                ? 'bg-purple-600/20 border-purple-500 text-purple-200'
-                                : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-600'
-                                }`}
-                            disabled={isProcessing}
-                            type="button"
-                        >
-                            {res === 'original' ? t('editor.export.resolutionOriginal') : res}
-                        </button>
-                    ))}
-                </div>
-            </div>
+                            {/* Resolution */}
+                            <div className="space-y-2">
+                                <label className="text-xs text-slate-400 uppercase tracking-wide flex items-center justify-between">
+                                    <span>{t('editor.export.resolution')}</span>
+                                    {outputSizeLabel && <span className="font-mono normal-case text-slate-500">{outputSizeLabel}</span>}
+                                </label>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {(['original', '720p', '1080p', '4k'] as ExportResolution[]).map((res) => (
+                                        <button
+                                            key={res}
+                                            onClick={() => onSelectResolution(res)}
+                                            className={`py-2 px-3 rounded-xl border text-sm transition-all ${selectedResolution === res
+                                                ? 'bg-purple-600/20 border-purple-500 text-purple-200'
+                                                : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-600'
+                                                }`}
+                                            disabled={isProcessing}
+                                            type="button"
+                                        >
+                                            {res === 'original' ? t('editor.export.resolutionOriginal') : res}
+                                        </button>
+                                    ))}
+                                </div>
+                                <p className="text-[11px] text-slate-500">{t('editor.export.resolutionHint')}</p>
+                            </div>
 
-            {/* FPS */}
-            <div className="space-y-2">
-                <label className="text-xs text-slate-400 uppercase tracking-wide">{t('editor.export.frameRate')}</label>
-                <div className="grid grid-cols-3 gap-2">
-                    {([24, 30, 60] as ExportFrameRateOption[]).map((fps) => (
-                        <button
-                            key={fps}
-                            onClick={() => onSelectFps(fps)}
-                            className={`py-2 px-3 rounded-xl border text-sm transition-all ${selectedFps === fps
-                                ? 'bg-indigo-600/20 border-indigo-500 text-indigo-200'
-                                : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-600'
-                                }`}
-                            disabled={isProcessing}
-                            type="button"
-                        >
-                            {fps}
-                        </button>
-                    ))}
-                </div>
-                <p className="text-[11px] text-slate-500">{t('editor.export.frameRateHint')}</p>
-            </div>
+                            {/* FPS */}
+                            <div className="space-y-2">
+                                <label className="text-xs text-slate-400 uppercase tracking-wide">{t('editor.export.frameRate')}</label>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {([24, 30, 60] as ExportFrameRateOption[]).map((fps) => (
+                                        <button
+                                            key={fps}
+                                            onClick={() => onSelectFps(fps)}
+                                            className={`py-2 px-3 rounded-xl border text-sm transition-all ${selectedFps === fps
+                                                ? 'bg-indigo-600/20 border-indigo-500 text-indigo-200'
+                                                : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-600'
+                                                }`}
+                                            disabled={isProcessing}
+                                            type="button"
+                                        >
+                                            {fps}
+                                        </button>
+                                    ))}
+                                </div>
+                                <p className="text-[11px] text-slate-500">{t('editor.export.frameRateHint')}</p>
+                            </div>
+                        </>
+                    )}
+                </>
+            )}
 
             {/* Format */}
             <div className="space-y-2">
                 <label className="text-xs text-slate-400 uppercase tracking-wide">{t('editor.export.format')}</label>
-                <div className="grid grid-cols-2 gap-2">
-                    {(['mp4', 'webm'] as ExportFormat[]).map((fmt) => (
-                        <button
-                            key={fmt}
-                            onClick={() => onSelectFormat(fmt)}
-                            className={`py-2 px-3 rounded-xl border text-sm uppercase transition-all ${selectedFormat === fmt
-                                ? 'bg-emerald-600/20 border-emerald-500 text-emerald-200'
-                                : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-600'
-                                }`}
-                            disabled={isProcessing}
-                            type="button"
-                        >
-                            {fmt}
-                        </button>
-                    ))}
-                </div>
+                {FORMAT_GROUPS.map((kind) => (
+                    <div key={kind} className="space-y-1">
+                        <div className="text-[10px] text-slate-500">{t(`editor.export.formatGroup.${kind}`)}</div>
+                        <div className="grid grid-cols-4 gap-2">
+                            {(Object.keys(EXPORT_FORMATS) as ExportFormat[])
+                                .filter((fmt) => EXPORT_FORMATS[fmt].kind === kind)
+                                .map((fmt) => (
+                                    <button
+                                        key={fmt}
+                                        onClick={() => onSelectFormat(fmt)}
+                                        className={`py-2 px-2 rounded-xl border text-sm uppercase transition-all ${selectedFormat === fmt
+                                            ? 'bg-emerald-600/20 border-emerald-500 text-emerald-200'
+                                            : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-600'
+                                            }`}
+                                        disabled={isProcessing}
+                                        type="button"
+                                    >
+                                        {fmt}
+                                    </button>
+                                ))}
+                        </div>
+                    </div>
+                ))}
             </div>
+
+            {/* Fast export (stream copy) */}
+            {selectedFormat === 'webm' && (
+                <div className="space-y-1">
+                    <label className={`flex items-center gap-2 text-sm text-slate-300 ${canStreamCopy ? 'cursor-pointer' : 'opacity-50'}`}>
+                        <input
+                            type="checkbox"
+                            checked={isStreamCopy}
+                            onChange={(e) => onChangeFastExport(e.target.checked)}
+                            disabled={isProcessing || !canStreamCopy}
+                            className="rounded border-slate-600 bg-slate-800 text-indigo-500 focus:ring-indigo-500"
+                        />
+                        {t('editor.export.fast.label')}
+                    </label>
+                    {!canStreamCopy && (
+                        <p className="text-[11px] text-slate-500">
+                            {t(isWebmSource ? 'editor.export.fast.effectsUnavailable' : 'editor.export.fast.unavailable')}
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {/* Subtitles (mp4 / webm; animated formats can only burn them in) */}
+            {!isAudio && subtitleMode && onChangeSubtitleMode && (
+                <EditorExportSubtitleSettings
+                    mode={subtitleMode}
+                    onChangeMode={onChangeSubtitleMode}
+                    cueCount={subtitleCount}
+                    isProcessing={isProcessing}
+                    trackUnavailable={isAnimated}
+                />
+            )}
+
+            {/* Chapters + metadata (mp4 / webm) */}
+            {!isAnimated && !isAudio && (
+                <EditorExportMetadataSettings
+                    chapterSource={chapterSource}
+                    onChangeChapterSource={onChangeChapterSource}
+                    markerCount={markerCount}
+                    segmentCount={segmentCount}
+                    metadata={exportMetadata}
+                    onChangeMetadata={onChangeExportMetadata}
+                    isProcessing={isProcessing}
+                />
+            )}
         </div>
     );
 };
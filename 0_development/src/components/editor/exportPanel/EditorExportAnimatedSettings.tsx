@@ -0,0 +1,78 @@
+import React from 'react';
+import type { AnimatedExportSettings } from '../../../types';
+import { ANIMATED_EXPORT_FPS, ANIMATED_EXPORT_WIDTHS } from '../../../types';
+import { useI18n } from '../../../i18n';
+
+interface EditorExportAnimatedSettingsProps {
+    settings: AnimatedExportSettings;
+    onChange: (settings: AnimatedExportSettings) => void;
+    isProcessing: boolean;
+}
+
+export const EditorExportAnimatedSettings: React.FC<EditorExportAnimatedSettingsProps> = ({
+    settings,
+    onChange,
+    isProcessing,
+}) => {
+    const { t } = useI18n();
+
+    return (
+        <>
+            {/* Width */}
+            <div className="space-y-2">
+                <label className="text-xs text-slate-400 uppercase tracking-wide">{t('editor.export.animation.width')}</label>
+                <div className="grid grid-cols-4 gap-2">
+                    {ANIMATED_EXPORT_WIDTHS.map((width) => (
+                        <button
+                            key={width}
+                            onClick={() => onChange({ ...settings, width })}
+                            className={`py-2 px-2 rounded-xl border text-sm transition-all ${settings.width === width
+                                ? 'bg-purple-600/20 border-purple-500 text-purple-200'
+                                : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-600'
+                                }`}
+                            disabled={isProcessing}
+                            type="button"
+                        >
+                            {width}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-[11px] text-slate-500">{t('editor.export.animation.widthHint')}</p>
+            </div>
+
+            {/* FPS */}
+            <div className="space-y-2">
+                <label className="text-xs text-slate-400 uppercase tracking-wide">{t('editor.export.frameRate')}</label>
+                <div className="grid grid-cols-4 gap-2">
+                    {ANIMATED_EXPORT_FPS.map((fps) => (
+                        <button
+                            key={fps}
+                            onClick={() => onChange({ ...settings, fps })}
+                            className={`py-2 px-2 rounded-xl border text-sm transition-all ${settings.fps === fps
+                                ? 'bg-indigo-600/20 border-indigo-500 text-indigo-200'
+                                : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-600'
+                                }`}
+                            disabled={isProcessing}
+                            type="button"
+                        >
+                            {fps}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-[11px] text-slate-500">{t('editor.export.animation.fpsHint')}</p>
+            </div>
+
+            {/* Loop */}
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={settings.loop}
+                    onChange={(e) => onChange({ ...settings, loop: e.target.checked })}
+                    disabled={isProcessing}
+                    className="rounded border-slate-600 bg-slate-800 text-indigo-500 focus:ring-indigo-500"
+                />
+                {t('editor.export.animation.loop')}
+            </label>
+        </>
+    );
+};
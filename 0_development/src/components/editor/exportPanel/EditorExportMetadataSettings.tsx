@@ -0,0 +1,96 @@
+import React from 'react';
+import type { ExportChapterSource, ExportMetadata } from '../../../types';
+import { useI18n } from '../../../i18n';
+
+const CHAPTER_SOURCES: ExportChapterSource[] = ['none', 'markers', 'segments'];
+
+interface EditorExportMetadataSettingsProps {
+    chapterSource: ExportChapterSource;
+    onChangeChapterSource: (source: ExportChapterSource) => void;
+    markerCount: number;
+    segmentCount: number;
+
+    metadata: ExportMetadata;
+    onChangeMetadata: (metadata: ExportMetadata) => void;
+
+    isProcessing: boolean;
+}
+
+/**
+ * 章节 + 标题 / 作者 / 描述（只写进 mp4 / webm）
+ */
+export const EditorExportMetadataSettings: React.FC<EditorExportMetadataSettingsProps> = ({
+    chapterSource,
+    onChangeChapterSource,
+    markerCount,
+    segmentCount,
+    metadata,
+    onChangeMetadata,
+    isProcessing,
+}) => {
+    const { t } = useI18n();
+
+    const chapterHint = chapterSource === 'markers'
+        ? (markerCount > 0 ? t('editor.export.chapters.hint', { count: markerCount }) : t('editor.export.chapters.noMarkers'))
+        : chapterSource === 'segments'
+            ? t('editor.export.chapters.segmentsHint', { count: segmentCount })
+            : t('editor.export.chapters.noneHint');
+
+    const inputClass = 'w-full rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+    return (
+        <>
+            {/* Chapters */}
+            <div className="space-y-2">
+                <label className="text-xs text-slate-400 uppercase tracking-wide">{t('editor.export.chapters.title')}</label>
+                <div className="grid grid-cols-3 gap-2">
+                    {CHAPTER_SOURCES.map((source) => (
+                        <button
+                            key={source}
+                            onClick={() => onChangeChapterSource(source)}
+                            className={`py-2 px-2 rounded-xl border text-sm transition-all ${chapterSource === source
+                                ? 'bg-indigo-600/20 border-indigo-500 text-indigo-200'
+                                : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-600'
+                                }`}
+                            disabled={isProcessing}
+                            type="button"
+                        >
+                            {t(`editor.export.chapters.source.${source}`)}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-[11px] text-slate-500">{chapterHint}</p>
+            </div>
+
+            {/* Metadata */}
+            <div className="space-y-2">
+                <label className="text-xs text-slate-400 uppercase tracking-wide">{t('editor.export.metadata.title')}</label>
+                <input
+                    type="text"
+                    value={metadata.title}
+                    onChange={(e) => onChangeMetadata({ ...metadata, title: e.target.value })}
+                    placeholder={t('editor.export.metadata.titlePlaceholder')}
+                    className={inputClass}
+                    disabled={isProcessing}
+                />
+                <input
+                    type="text"
+                    value={metadata.author}
+                    onChange={(e) => onChangeMetadata({ ...metadata, author: e.target.value })}
+                    placeholder={t('editor.export.metadata.authorPlaceholder')}
+                    className={inputClass}
+                    disabled={isProcessing}
+                />
+                <textarea
+                    value={metadata.description}
+                    onChange={(e) => onChangeMetadata({ ...metadata, description: e.target.value })}
+                    placeholder={t('editor.export.metadata.descriptionPlaceholder')}
+                    rows={3}
+                    className={`${inputClass} resize-y`}
+                    disabled={isProcessing}
+                />
+                <p className="text-[11px] text-slate-500">{t('editor.export.metadata.hint')}</p>
+            </div>
+        </>
+    );
+};
@@ -0,0 +1,188 @@
+import React from 'react';
+import { Download, ListPlus, Loader2, Play, X } from 'lucide-react';
+import type { ExportQueueJob } from '../../../types';
+import { VIDEO_QUALITY_PRESETS, isAnimatedFormat, isAudioFormat } from '../../../types';
+import { useI18n } from '../../../i18n';
+
+interface EditorExportQueueProps {
+    queue: ExportQueueJob[];
+    isQueueRunning: boolean;
+    isBusy: boolean;
+    isCancelling: boolean;
+    canExport: boolean;
+
+    getDownloadFileName: (job: ExportQueueJob) => string;
+
+    onAddToQueue: () => void;
+    onRemoveFromQueue: (id: string) => void;
+    onClearQueue: () => void;
+    onRunQueue: () => void;
+    onCancel: () => void;
+}
+
+const statusClass: Record<ExportQueueJob['status'], string> = {
+    queued: 'text-slate-400',
+    running: 'text-indigo-300',
+    done: 'text-emerald-300',
+    failed: 'text-red-300',
+    cancelled: 'text-amber-300',
+};
+
+/**
+ * 匯出佇列：把目前設定加入佇列，一次依序輸出多個版本
+ */
+export const EditorExportQueue: React.FC<EditorExportQueueProps> = ({
+    queue,
+    isQueueRunning,
+    isBusy,
+    isCancelling,
+    canExport,
+    getDownloadFileName,
+    onAddToQueue,
+    onRemoveFromQueue,
+    onClearQueue,
+    onRunQueue,
+    onCancel,
+}) => {
+    const { t } = useI18n();
+    const pendingCount = queue.filter((job) => job.status !== 'done').length;
+
+    const describeJob = (job: ExportQueueJob) => {
+        const { settings } = job;
+        if (settings.fastExport && settings.format === 'webm') {
+            return `WEBM • ${t('editor.export.fast.short')}`;
+        }
+        if (isAnimatedFormat(settings.format)) {
+            return `${settings.format.toUpperCase()} • ${settings.animation.width}px • ${settings.animation.fps}fps`;
+        }
+        if (isAudioFormat(settings.format)) {
+            return `${settings.format.toUpperCase()} • ${VIDEO_QUALITY_PRESETS[settings.quality].audioBitrate}`;
+        }
+        const resolution = settings.resolution === 'original'
+            ? t('editor.export.resolutionOriginal')
+            : settings.resolution;
+        return `${t(`quality.${settings.quality}.label`)} • ${resolution} • ${settings.format.toUpperCase()} • ${settings.fps}fps`;
+    };
+
+    return (
+        <div className="bg-slate-800/30 rounded-lg p-2.5 space-y-2">
+            <div className="flex items-center justify-between">
+                <span className="text-[11px] font-medium text-white">
+                    {t('editor.export.queue.title', { count: queue.length })}
+                </span>
+                <div className="flex items-center gap-2">
+                    {queue.length > 0 && !isQueueRunning && (
+                        <button
+                            type="button"
+                            onClick={onClearQueue}
+                            className="text-[10px] text-slate-400 hover:text-white transition-colors"
+                        >
+                            {t('editor.export.queue.clear')}
+                        </button>
+                    )}
+                    <button
+                        type="button"
+                        onClick={onAddToQueue}
+                        disabled={isQueueRunning}
+                        className="flex items-center gap-1 text-[10px] text-indigo-300 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        <ListPlus size={12} />
+                        {t('editor.export.queue.add')}
+                    </button>
+                </div>
+            </div>
+
+            {queue.length === 0 ? (
+                <p className="text-[10px] text-slate-500">{t('editor.export.queue.empty')}</p>
+            ) : (
+                <ul className="space-y-1.5">
+                    {queue.map((job) => (
+                        <li key={job.id} className="bg-slate-900/50 border border-slate-700/50 rounded-md px-2 py-1.5 space-y-1">
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-[10px] text-slate-300 truncate">
+                                    {job.mode === 'full' && `${t('editor.export.queue.full')} • `}
+                                    {describeJob(job)}
+                                </span>
+                                <div className="flex items-center gap-1.5 shrink-0">
+                                    {job.status === 'running' ? (
+                                        <Loader2 size={11} className="animate-spin text-indigo-300" />
+                                    ) : (
+                                        <span className={`text-[10px] ${statusClass[job.status]}`}>
+                                            {t(`editor.export.queue.status.${job.status}`)}
+                                        </span>
+                                    )}
+                                    {job.url && (
+                                        <a
+                                            href={job.url}
+                                            download={getDownloadFileName(job)}
+                                            className="text-emerald-300 hover:text-white"
+                                            aria-label={t('editor.export.download', { format: job.settings.format.toUpperCase() })}
+                                        >
+                                            <Download size={12} />
+                                        </a>
+                                    )}
+                                    {job.status !== 'running' && !isQueueRunning && (
+                                        <button
+                                            type="button"
+                                            onClick={() => onRemoveFromQueue(job.id)}
+                                            className="text-slate-500 hover:text-red-300"
+                                            aria-label={t('editor.export.queue.remove')}
+                                        >
+                                            <X size={12} />
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+
+                            {job.status === 'running' && (
+                                <>
+                                    <div className="w-full h-1 bg-slate-700 rounded-full overflow-hidden">
+                                        <div
+                                            className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all duration-300"
+                                            style={{ width: `${job.progress}%` }}
+                                        />
+                                    </div>
+                                    <div className="text-[10px] text-slate-500 flex justify-between">
+                                        <span>{job.progress}%</span>
+                                        <span>{t('editor.export.eta')}: {job.eta ?? t('editor.export.etaEstimating')}</span>
+                                    </div>
+                                </>
+                            )}
+
+                            {job.notice && job.status === 'done' && (
+                                <p className="text-[10px] text-amber-300">{job.notice}</p>
+                            )}
+
+                            {job.error && job.status === 'failed' && (
+                                <p className="text-[10px] text-red-300">{job.error}</p>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {isQueueRunning ? (
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    disabled={isCancelling}
+                    className="w-full text-[10px] py-1.5 rounded-md border border-slate-600 text-slate-300 hover:text-white hover:border-red-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                    {isCancelling ? t('editor.export.cancelling') : t('editor.export.queue.cancel')}
+                </button>
+            ) : (
+                pendingCount > 0 && (
+                    <button
+                        type="button"
+                        onClick={onRunQueue}
+                        disabled={isBusy || !canExport}
+                        className="w-full flex items-center justify-center gap-1 text-[10px] py-1.5 rounded-md bg-indigo-600/30 hover:bg-indigo-600/50 border border-indigo-500/30 text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        <Play size={11} />
+                        {t('editor.export.queue.run', { count: pendingCount })}
+                    </button>
+                )
+            )}
+        </div>
+    );
+};
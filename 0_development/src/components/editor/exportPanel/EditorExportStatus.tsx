@@ -7,27 +7,33 @@ interface EditorExportStatusProps {
     isProcessing: boolean;
     processingProgress: number;
     processingEta: string | null;
+    isCancelling: boolean;
 
     exportUrl: string | null;
     exportError: string | null;
+    exportNotice: string | null;
 
     selectedFormat: ExportFormat;
     downloadFileName: string;
 
     onClearExportUrl: () => void;
     onClearExportError: () => void;
+    onCancel: () => void;
 }
 
 export const EditorExportStatus: React.FC<EditorExportStatusProps> = ({
     isProcessing,
     processingProgress,
     processingEta,
+    isCancelling,
     exportUrl,
     exportError,
+    exportNotice,
     selectedFormat,
     downloadFileName,
     onClearExportUrl,
     onClearExportError,
+    onCancel,
 }) => {
     const { t } = useI18n();
 
@@ -49,9 +55,21 @@ export const EditorExportStatus: React.FC<EditorExportStatusProps> = ({
 
             {isProcessing && (
                 <div className="bg-indigo-900/25 border border-indigo-500/30 p-4 rounded-xl space-y-3 animate-fade-in">
-                    <div className="flex items-center gap-2 text-indigo-300">
-                        <Loader2 size={18} className="animate-spin" />
-                        <span className="text-sm font-medium">{t('editor.export.processing')}</span>
+                    <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2 text-indigo-300">
+                            <Loader2 size={18} className="animate-spin" />
+                            <span className="text-sm font-medium">
+                                {isCancelling ? t('editor.export.cancelling') : t('editor.export.processing')}
+                            </span>
+                        </div>
+                        <button
+                            type="button"
+                            onClick={onCancel}
+                            disabled={isCancelling}
+                            className="text-xs px-2 py-1 rounded-md border border-slate-600 text-slate-300 hover:text-white hover:border-red-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {t('editor.export.cancel')}
+                        </button>
                     </div>
                     <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden">
                         <div
@@ -69,6 +87,9 @@ export const EditorExportStatus: React.FC<EditorExportStatusProps> = ({
             {exportUrl && !isProcessing && (
                 <div className="bg-emerald-900/25 border border-emerald-500/30 p-4 rounded-xl text-center space-y-3 animate-fade-in">
                     <p className="text-emerald-300 text-sm font-medium">{t('editor.export.ready')}</p>
+                    {exportNotice && (
+                        <p className="text-[11px] text-amber-300 leading-relaxed">{exportNotice}</p>
+                    )}
                     <a
                         href={exportUrl}
                         download={downloadFileName}
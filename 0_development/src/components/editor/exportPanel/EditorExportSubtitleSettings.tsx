@@ -0,0 +1,55 @@
+import React from 'react';
+import type { SubtitleExportMode } from '../../../types';
+import { SUBTITLE_EXPORT_MODES } from '../../../types';
+import { useI18n } from '../../../i18n';
+
+interface EditorExportSubtitleSettingsProps {
+    mode: SubtitleExportMode;
+    onChangeMode: (mode: SubtitleExportMode) => void;
+    cueCount: number;
+    isProcessing: boolean;
+    /** 动图没有字幕轨，只能烧进画面 */
+    trackUnavailable?: boolean;
+}
+
+/**
+ * 字幕导出方式：不加 / 字幕轨（可开关）/ 烧进画面
+ */
+export const EditorExportSubtitleSettings: React.FC<EditorExportSubtitleSettingsProps> = ({
+    mode,
+    onChangeMode,
+    cueCount,
+    isProcessing,
+    trackUnavailable = false,
+}) => {
+    const { t } = useI18n();
+
+    const hint = cueCount === 0
+        ? t('editor.export.subtitles.noCues')
+        : trackUnavailable && mode === 'soft'
+            ? t('editor.export.subtitles.trackUnavailable')
+            : t(`editor.export.subtitles.hint.${mode}`, { count: cueCount });
+
+    return (
+        <div className="space-y-2">
+            <label className="text-xs text-slate-400 uppercase tracking-wide">{t('editor.export.subtitles.title')}</label>
+            <div className="grid grid-cols-3 gap-2">
+                {SUBTITLE_EXPORT_MODES.map((option) => (
+                    <button
+                        key={option}
+                        onClick={() => onChangeMode(option)}
+                        className={`py-2 px-2 rounded-xl border text-sm transition-all ${mode === option
+                            ? 'bg-indigo-600/20 border-indigo-500 text-indigo-200'
+                            : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-600'
+                            } disabled:opacity-50 disabled:hover:border-slate-700`}
+                        disabled={isProcessing || (trackUnavailable && option === 'soft')}
+                        type="button"
+                    >
+                        {t(`editor.export.subtitles.mode.${option}`)}
+                    </button>
+                ))}
+            </div>
+            <p className="text-[11px] text-slate-500">{hint}</p>
+        </div>
+    );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import type { TrimRange } from '../../../types';
+import { MUTE_AUDIO_ABOVE_SPEED, SEGMENT_SPEED_PRESETS, getSegmentOutputDuration, getSegmentSpeed } from '../../../types';
+import { formatTime } from '../../../utils/format';
+import { useI18n } from '../../../i18n';
+
+interface InspectorClipSettingsProps {
+    segment: TrimRange;
+    index: number;
+    onChangeSpeed: (speed: number) => void;
+    isBusy: boolean;
+}
+
+/**
+ * 选取片段的设定：播放速度（快转安装 / 等待的段落，而不是剪掉）
+ */
+export const InspectorClipSettings: React.FC<InspectorClipSettingsProps> = ({
+    segment,
+    index,
+    onChangeSpeed,
+    isBusy,
+}) => {
+    const { t } = useI18n();
+    const speed = getSegmentSpeed(segment);
+
+    return (
+        <div className="bg-slate-800/30 rounded-lg p-2.5 space-y-2">
+            <div className="flex items-center justify-between">
+                <span className="text-[11px] font-medium text-white flex items-center gap-1.5">
+                    <Gauge size={12} className="text-amber-400" />
+                    {t('editor.clip.title', { index: index + 1 })}
+                </span>
+                <span className="text-[10px] font-mono text-slate-500">
+                    {formatTime(segment.start)} - {formatTime(segment.end)}
+                </span>
+            </div>
+
+            <div className="space-y-1">
+                <label className="text-[10px] text-slate-400 uppercase tracking-wide">{t('editor.clip.speed')}</label>
+                <div className="grid grid-cols-6 gap-1">
+                    {SEGMENT_SPEED_PRESETS.map((preset) => (
+                        <button
+                            key={preset}
+                            type="button"
+                            onClick={() => onChangeSpeed(preset)}
+                            disabled={isBusy}
+                            className={`py-1 rounded-md border text-[10px] font-mono transition-colors disabled:opacity-50 ${speed === preset
+                                ? 'bg-amber-500/20 border-amber-400 text-amber-200'
+                                : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-600'
+                                }`}
+                        >
+                            {preset}×
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <p className="text-[10px] text-slate-500">
+                {t('editor.clip.outputDuration', { duration: formatTime(getSegmentOutputDuration(segment)) })}
+                {speed > MUTE_AUDIO_ABOVE_SPEED && ` • ${t('editor.clip.muted')}`}
+            </p>
+        </div>
+    );
+};
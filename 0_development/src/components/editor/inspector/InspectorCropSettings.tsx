@@ -0,0 +1,93 @@
+import React from 'react';
+import { Crop, RotateCcw } from 'lucide-react';
+import type { CropAspect, ExportCrop } from '../../../types';
+import { CROP_ASPECTS } from '../../../types';
+import { useI18n } from '../../../i18n';
+
+interface InspectorCropSettingsProps {
+    crop: ExportCrop | null;
+    aspect: CropAspect;
+    /** 录制画面尺寸（未载入时不能裁切） */
+    videoSize: { width: number; height: number } | null;
+    isEditing: boolean;
+    onToggleEditing: () => void;
+    onSelectAspect: (aspect: CropAspect) => void;
+    onReset: () => void;
+    isBusy: boolean;
+}
+
+/**
+ * 导出裁切：在播放器上拉框，或套用比例预设（例如 9:16 直式）
+ */
+export const InspectorCropSettings: React.FC<InspectorCropSettingsProps> = ({
+    crop,
+    aspect,
+    videoSize,
+    isEditing,
+    onToggleEditing,
+    onSelectAspect,
+    onReset,
+    isBusy,
+}) => {
+    const { t } = useI18n();
+    const disabled = isBusy || !videoSize;
+
+    return (
+        <div className={`bg-slate-800/30 border rounded-lg p-2.5 space-y-2 ${isEditing ? 'border-yellow-400/40' : 'border-transparent'}`}>
+            <div className="flex items-center justify-between">
+                <span className="text-[11px] font-medium text-white flex items-center gap-1.5">
+                    <Crop size={12} className="text-yellow-400" />
+                    {t('editor.crop.title')}
+                </span>
+                <span className="text-[10px] font-mono text-slate-500">
+                    {crop && videoSize
+                        ? `${Math.round(crop.width * videoSize.width)}×${Math.round(crop.height * videoSize.height)}`
+                        : t('editor.crop.none')}
+                </span>
+            </div>
+
+            <div className="grid grid-cols-5 gap-1">
+                {CROP_ASPECTS.map((preset) => (
+                    <button
+                        key={preset}
+                        type="button"
+                        onClick={() => onSelectAspect(preset)}
+                        disabled={disabled}
+                        className={`py-1 rounded-md border text-[10px] font-mono transition-colors disabled:opacity-50 ${aspect === preset
+                            ? 'bg-yellow-500/20 border-yellow-400 text-yellow-200'
+                            : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-600'
+                            }`}
+                        title={t(`editor.crop.aspects.${preset}`)}
+                    >
+                        {preset === 'free' ? t('editor.crop.free') : preset}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex items-center gap-1.5">
+                <button
+                    type="button"
+                    onClick={onToggleEditing}
+                    disabled={disabled}
+                    className={`flex-1 py-1 rounded-md border text-[11px] transition-colors disabled:opacity-50 ${isEditing
+                        ? 'bg-yellow-500/30 border-yellow-400 text-yellow-100'
+                        : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-600'
+                        }`}
+                >
+                    {isEditing ? t('editor.crop.done') : t('editor.crop.edit')}
+                </button>
+                <button
+                    type="button"
+                    onClick={onReset}
+                    disabled={disabled || !crop}
+                    className="p-1.5 rounded-md border border-slate-700 text-slate-400 hover:text-white hover:border-slate-600 disabled:opacity-50"
+                    title={t('editor.crop.reset')}
+                >
+                    <RotateCcw size={12} />
+                </button>
+            </div>
+
+            <p className="text-[10px] text-slate-500">{t('editor.crop.hint')}</p>
+        </div>
+    );
+};
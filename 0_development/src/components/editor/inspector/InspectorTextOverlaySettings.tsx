@@ -0,0 +1,164 @@
+import React from 'react';
+import { Crosshair, Trash2, Type, X } from 'lucide-react';
+import type { TextOverlay } from '../../../types';
+import { MAX_TEXT_OVERLAY_FONT_SIZE, MIN_TEXT_OVERLAY_FONT_SIZE, TEXT_OVERLAY_COLORS, TEXT_OVERLAY_POSITIONS } from '../../../types';
+import { useI18n } from '../../../i18n';
+
+interface InspectorTextOverlaySettingsProps {
+    overlay: TextOverlay;
+    onUpdate: (id: string, patch: Partial<Omit<TextOverlay, 'id'>>) => void;
+    onRemove: (id: string) => void;
+    onClose: () => void;
+    /** 把起点 / 终点设为播放头位置 */
+    currentTime: number;
+}
+
+/**
+ * 选取文字的设定：内容、起讫时间、九宫格位置、字级、颜色与底框
+ */
+export const InspectorTextOverlaySettings: React.FC<InspectorTextOverlaySettingsProps> = ({
+    overlay,
+    onUpdate,
+    onRemove,
+    onClose,
+    currentTime,
+}) => {
+    const { t } = useI18n();
+    const update = (patch: Partial<Omit<TextOverlay, 'id'>>) => onUpdate(overlay.id, patch);
+
+    const timeInputClass = 'w-full rounded-md border border-slate-700 bg-slate-800 px-2 py-1 text-[11px] font-mono text-slate-100 focus:outline-none focus:ring-1 focus:ring-teal-500';
+
+    return (
+        <div className="bg-slate-800/30 border border-teal-500/20 rounded-lg p-2.5 space-y-2">
+            <div className="flex items-center justify-between">
+                <span className="text-[11px] font-medium text-white flex items-center gap-1.5">
+                    <Type size={12} className="text-teal-400" />
+                    {t('editor.textOverlay.title')}
+                </span>
+                <div className="flex items-center gap-0.5">
+                    <button
+                        type="button"
+                        onClick={() => onRemove(overlay.id)}
+                        className="p-0.5 rounded text-red-300 hover:text-red-200 hover:bg-slate-700"
+                        title={t('editor.textOverlay.remove')}
+                    >
+                        <Trash2 size={12} />
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="p-0.5 rounded text-slate-500 hover:text-white hover:bg-slate-700"
+                        title={t('editor.textOverlay.close')}
+                    >
+                        <X size={12} />
+                    </button>
+                </div>
+            </div>
+
+            <textarea
+                value={overlay.text}
+                onChange={(e) => update({ text: e.target.value })}
+                placeholder={t('editor.textOverlay.placeholder')}
+                rows={2}
+                className="w-full resize-y rounded-md border border-slate-700 bg-slate-800 px-2 py-1.5 text-xs text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+            />
+
+            {/* 起讫时间 */}
+            <div className="grid grid-cols-2 gap-2">
+                {(['start', 'end'] as const).map((field) => (
+                    <div key={field} className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <label className="text-[10px] text-slate-400 uppercase tracking-wide">{t(`editor.textOverlay.${field}`)}</label>
+                            <button
+                                type="button"
+                                onClick={() => update({ [field]: currentTime })}
+                                className="text-teal-300 hover:text-teal-200"
+                                title={t('editor.textOverlay.setToPlayhead')}
+                            >
+                                <Crosshair size={10} />
+                            </button>
+                        </div>
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.1}
+                            value={Number(overlay[field].toFixed(2))}
+                            onChange={(e) => {
+                                const value = Number(e.target.value);
+                                if (Number.isFinite(value)) update({ [field]: value });
+                            }}
+                            className={timeInputClass}
+                        />
+                    </div>
+                ))}
+            </div>
+
+            {/* 位置 */}
+            <div className="flex items-start gap-3">
+                <div className="space-y-1">
+                    <label className="text-[10px] text-slate-400 uppercase tracking-wide">{t('editor.textOverlay.position')}</label>
+                    <div className="grid grid-cols-3 gap-0.5 w-16">
+                        {TEXT_OVERLAY_POSITIONS.map((position) => (
+                            <button
+                                key={position}
+                                type="button"
+                                onClick={() => update({ position })}
+                                className={`h-4 rounded-sm border transition-colors ${overlay.position === position
+                                    ? 'bg-teal-500/40 border-teal-400'
+                                    : 'bg-slate-800/50 border-slate-700 hover:border-slate-500'
+                                    }`}
+                                title={t(`editor.textOverlay.positions.${position}`)}
+                            />
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex-1 space-y-1">
+                    <label className="text-[10px] text-slate-400 uppercase tracking-wide flex items-center justify-between">
+                        <span>{t('editor.textOverlay.fontSize')}</span>
+                        <span className="font-mono normal-case">{overlay.fontSize}px</span>
+                    </label>
+                    <input
+                        type="range"
+                        min={MIN_TEXT_OVERLAY_FONT_SIZE}
+                        max={MAX_TEXT_OVERLAY_FONT_SIZE}
+                        step={2}
+                        value={overlay.fontSize}
+                        onChange={(e) => update({ fontSize: Number(e.target.value) })}
+                        className="w-full accent-teal-500"
+                    />
+                    <label className="flex items-center gap-1.5 text-[11px] text-slate-300">
+                        <input
+                            type="checkbox"
+                            checked={overlay.background}
+                            onChange={(e) => update({ background: e.target.checked })}
+                            className="accent-teal-500"
+                        />
+                        {t('editor.textOverlay.background')}
+                    </label>
+                </div>
+            </div>
+
+            {/* 颜色 */}
+            <div className="flex items-center gap-1">
+                {TEXT_OVERLAY_COLORS.map((color) => (
+                    <button
+                        key={color}
+                        type="button"
+                        onClick={() => update({ color })}
+                        className={`w-4 h-4 rounded-full border ${overlay.color === color ? 'border-teal-300 ring-1 ring-teal-300' : 'border-slate-600'}`}
+                        style={{ backgroundColor: color }}
+                        title={color}
+                    />
+                ))}
+                <input
+                    type="color"
+                    value={overlay.color}
+                    onChange={(e) => update({ color: e.target.value })}
+                    className="ml-auto w-6 h-5 bg-transparent border-0 cursor-pointer"
+                    title={t('editor.textOverlay.customColor')}
+                />
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,108 @@
+import React from 'react';
+import { Crosshair, Trash2, X, ZoomIn } from 'lucide-react';
+import type { ZoomRegion } from '../../../types';
+import { MAX_ZOOM, MIN_ZOOM } from '../../../types';
+import { useI18n } from '../../../i18n';
+
+interface InspectorZoomSettingsProps {
+    region: ZoomRegion;
+    onUpdate: (id: string, patch: Partial<Omit<ZoomRegion, 'id'>>) => void;
+    onRemove: (id: string) => void;
+    onClose: () => void;
+    /** 把起点 / 终点设为播放头位置 */
+    currentTime: number;
+}
+
+/**
+ * 选取缩放区域的设定：起讫时间与倍率（放大的位置在播放器上拖曳目标框）
+ */
+export const InspectorZoomSettings: React.FC<InspectorZoomSettingsProps> = ({
+    region,
+    onUpdate,
+    onRemove,
+    onClose,
+    currentTime,
+}) => {
+    const { t } = useI18n();
+    const update = (patch: Partial<Omit<ZoomRegion, 'id'>>) => onUpdate(region.id, patch);
+
+    const timeInputClass = 'w-full rounded-md border border-slate-700 bg-slate-800 px-2 py-1 text-[11px] font-mono text-slate-100 focus:outline-none focus:ring-1 focus:ring-fuchsia-500';
+
+    return (
+        <div className="bg-slate-800/30 border border-fuchsia-500/20 rounded-lg p-2.5 space-y-2">
+            <div className="flex items-center justify-between">
+                <span className="text-[11px] font-medium text-white flex items-center gap-1.5">
+                    <ZoomIn size={12} className="text-fuchsia-400" />
+                    {t('editor.zoom.title')}
+                </span>
+                <div className="flex items-center gap-0.5">
+                    <button
+                        type="button"
+                        onClick={() => onRemove(region.id)}
+                        className="p-0.5 rounded text-red-300 hover:text-red-200 hover:bg-slate-700"
+                        title={t('editor.zoom.remove')}
+                    >
+                        <Trash2 size={12} />
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="p-0.5 rounded text-slate-500 hover:text-white hover:bg-slate-700"
+                        title={t('editor.zoom.close')}
+                    >
+                        <X size={12} />
+                    </button>
+                </div>
+            </div>
+
+            {/* 起讫时间 */}
+            <div className="grid grid-cols-2 gap-2">
+                {(['start', 'end'] as const).map((field) => (
+                    <div key={field} className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <label className="text-[10px] text-slate-400 uppercase tracking-wide">{t(`editor.zoom.${field}`)}</label>
+                            <button
+                                type="button"
+                                onClick={() => update({ [field]: currentTime })}
+                                className="text-fuchsia-300 hover:text-fuchsia-200"
+                                title={t('editor.zoom.setToPlayhead')}
+                            >
+                                <Crosshair size={10} />
+                            </button>
+                        </div>
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.1}
+                            value={Number(region[field].toFixed(2))}
+                            onChange={(e) => {
+                                const value = Number(e.target.value);
+                                if (Number.isFinite(value)) update({ [field]: value });
+                            }}
+                            className={timeInputClass}
+                        />
+                    </div>
+                ))}
+            </div>
+
+            {/* 倍率 */}
+            <div className="space-y-1">
+                <label className="text-[10px] text-slate-400 uppercase tracking-wide flex items-center justify-between">
+                    <span>{t('editor.zoom.amount')}</span>
+                    <span className="font-mono normal-case">{region.zoom.toFixed(2)}×</span>
+                </label>
+                <input
+                    type="range"
+                    min={MIN_ZOOM}
+                    max={MAX_ZOOM}
+                    step={0.25}
+                    value={region.zoom}
+                    onChange={(e) => update({ zoom: Number(e.target.value) })}
+                    className="w-full accent-fuchsia-500"
+                />
+            </div>
+
+            <p className="text-[10px] text-slate-500">{t('editor.zoom.hint')}</p>
+        </div>
+    );
+};
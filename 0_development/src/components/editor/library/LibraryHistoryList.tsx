@@ -0,0 +1,84 @@
+import React from 'react';
+import { Redo2, Undo2 } from 'lucide-react';
+import { useI18n } from '../../../i18n';
+import type { SegmentHistoryEntry } from '../../../types';
+
+interface LibraryHistoryListProps {
+    history: SegmentHistoryEntry[];
+    historyIndex: number;
+    canUndo: boolean;
+    canRedo: boolean;
+    onUndo: () => void;
+    onRedo: () => void;
+    onJump: (index: number) => void;
+}
+
+/**
+ * 编辑历史：点任一步跳回该状态；目前位置之后（可重做）的步骤变暗
+ */
+export const LibraryHistoryList: React.FC<LibraryHistoryListProps> = ({
+    history,
+    historyIndex,
+    canUndo,
+    canRedo,
+    onUndo,
+    onRedo,
+    onJump,
+}) => {
+    const { t } = useI18n();
+
+    return (
+        <div className="space-y-1.5">
+            <div className="flex items-center justify-between px-2">
+                <span className="text-[10px] text-slate-500 uppercase tracking-wider">
+                    {t('editor.history.title')}
+                </span>
+                <div className="flex items-center gap-0.5">
+                    <button
+                        type="button"
+                        onClick={onUndo}
+                        disabled={!canUndo}
+                        className="p-0.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                        title={`${t('editor.trim.undo')} (⌘Z)`}
+                    >
+                        <Undo2 size={12} />
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onRedo}
+                        disabled={!canRedo}
+                        className="p-0.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                        title={`${t('editor.trim.redo')} (⇧⌘Z)`}
+                    >
+                        <Redo2 size={12} />
+                    </button>
+                </div>
+            </div>
+
+            <div className="space-y-0.5 max-h-48 overflow-y-auto">
+                {history.map((entry, idx) => {
+                    const isCurrent = idx === historyIndex;
+                    const isUndone = idx > historyIndex;
+                    return (
+                        <button
+                            key={idx}
+                            type="button"
+                            onClick={() => onJump(idx)}
+                            className={`w-full flex items-center gap-1.5 px-2 py-1 rounded-md text-left text-[11px] transition-colors ${isCurrent
+                                ? 'bg-blue-600/20 text-blue-200'
+                                : isUndone
+                                    ? 'text-slate-600 hover:bg-slate-800/50 hover:text-slate-400'
+                                    : 'text-slate-300 hover:bg-slate-800/50'
+                                }`}
+                        >
+                            <span className="min-w-0 flex-1 truncate">{t(`editor.history.action.${entry.action}`)}</span>
+                            <span className="shrink-0 text-[10px] text-slate-500">
+                                {t('editor.history.segments', { count: entry.segments.length })}
+                            </span>
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
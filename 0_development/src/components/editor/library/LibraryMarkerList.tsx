@@ -0,0 +1,121 @@
+import React from 'react';
+import { Bookmark, ChevronLeft, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import { useI18n } from '../../../i18n';
+import { formatTime } from '../../../utils/format';
+import type { MarkerColor, TimelineMarker } from '../../../types';
+import { MARKER_COLORS } from '../../../types';
+
+const COLOR_ORDER = Object.keys(MARKER_COLORS) as MarkerColor[];
+
+interface LibraryMarkerListProps {
+    markers: TimelineMarker[];
+    onAddMarker: () => void;
+    onSeekMarker: (marker: TimelineMarker) => void;
+    onUpdateMarker: (id: string, patch: Partial<Omit<TimelineMarker, 'id'>>) => void;
+    onRemoveMarker: (id: string) => void;
+    onPreviousMarker: () => void;
+    onNextMarker: () => void;
+}
+
+/**
+ * 标记清单：点时间跳转、行内改名、点色块换颜色
+ */
+export const LibraryMarkerList: React.FC<LibraryMarkerListProps> = ({
+    markers,
+    onAddMarker,
+    onSeekMarker,
+    onUpdateMarker,
+    onRemoveMarker,
+    onPreviousMarker,
+    onNextMarker,
+}) => {
+    const { t } = useI18n();
+
+    return (
+        <div className="space-y-1.5">
+            <div className="flex items-center justify-between px-2">
+                <span className="text-[10px] text-slate-500 uppercase tracking-wider">
+                    {t('editor.markers.title')}
+                </span>
+                <div className="flex items-center gap-0.5">
+                    <button
+                        type="button"
+                        onClick={onPreviousMarker}
+                        disabled={markers.length === 0}
+                        className="p-0.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                        title={`${t('editor.markers.previous')} (Ctrl+;)`}
+                    >
+                        <ChevronLeft size={12} />
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onNextMarker}
+                        disabled={markers.length === 0}
+                        className="p-0.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                        title={`${t('editor.markers.next')} (Ctrl+')`}
+                    >
+                        <ChevronRight size={12} />
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onAddMarker}
+                        className="p-0.5 rounded text-blue-300 hover:text-white hover:bg-blue-600/40"
+                        title={`${t('editor.markers.add')} (M)`}
+                    >
+                        <Plus size={12} />
+                    </button>
+                </div>
+            </div>
+
+            {markers.length === 0 ? (
+                <div className="px-2 text-[11px] text-slate-500">{t('editor.markers.empty')}</div>
+            ) : (
+                <div className="space-y-0.5">
+                    {markers.map((marker, idx) => (
+                        <div
+                            key={marker.id}
+                            className="flex items-center gap-1.5 px-2 py-1 rounded-md hover:bg-slate-800/50 group"
+                        >
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    const next = COLOR_ORDER[(COLOR_ORDER.indexOf(marker.color) + 1) % COLOR_ORDER.length];
+                                    onUpdateMarker(marker.id, { color: next });
+                                }}
+                                className="shrink-0"
+                                title={t('editor.markers.color')}
+                            >
+                                <Bookmark size={11} style={{ color: MARKER_COLORS[marker.color], fill: MARKER_COLORS[marker.color] }} />
+                            </button>
+                            <input
+                                value={marker.label}
+                                onChange={(e) => onUpdateMarker(marker.id, { label: e.target.value })}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+                                }}
+                                placeholder={t('editor.markers.untitled', { index: idx + 1 })}
+                                className="min-w-0 flex-1 bg-transparent text-[11px] text-slate-200 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-blue-500 rounded px-0.5"
+                            />
+                            <button
+                                type="button"
+                                onClick={() => onSeekMarker(marker)}
+                                className="shrink-0 text-[10px] font-mono text-slate-400 hover:text-white"
+                                title={t('editor.markers.jump')}
+                            >
+                                {formatTime(marker.time)}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => onRemoveMarker(marker.id)}
+                                className="shrink-0 text-red-300 hover:text-red-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                                title={t('editor.markers.remove')}
+                            >
+                                <Trash2 size={10} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { Film, Star, Pencil, Trash2, Check, X, Tag } from 'lucide-react';
+import { useI18n } from '../../../i18n';
+import { formatTime, formatBytes } from '../../../utils/format';
+import type { LibraryItem } from '../useRecordingLibrary';
+
+interface LibraryRecordingCardProps {
+    item: LibraryItem;
+    isActive: boolean;
+    onOpen: () => void;
+    onRename: (name: string) => void;
+    onDelete: () => void;
+    onSetTags: (tags: string[]) => void;
+}
+
+/**
+ * 素材库中的单一录制卡片
+ * - 点击打开到编辑器
+ * - 行内重命名 / 标签 / 删除（两段式确认，避免误删）
+ */
+export const LibraryRecordingCard: React.FC<LibraryRecordingCardProps> = ({
+    item,
+    isActive,
+    onOpen,
+    onRename,
+    onDelete,
+    onSetTags,
+}) => {
+    const { t } = useI18n();
+    const [isRenaming, setIsRenaming] = useState(false);
+    const [draftName, setDraftName] = useState(item.name ?? '');
+    const [draftTag, setDraftTag] = useState('');
+    const [confirmDelete, setConfirmDelete] = useState(false);
+
+    const commitRename = () => {
+        setIsRenaming(false);
+        if (draftName.trim() && draftName !== item.name) onRename(draftName);
+    };
+
+    const commitTag = () => {
+        const tag = draftTag.trim();
+        setDraftTag('');
+        if (tag) onSetTags([...item.tags, tag]);
+    };
+
+    return (
+        <div
+            className={`bg-slate-800/50 rounded-lg overflow-hidden border transition-colors group ${isActive
+                ? 'border-blue-500/70'
+                : 'border-slate-700/50 hover:border-blue-500/50 cursor-pointer'
+                }`}
+            onClick={() => {
+                if (!isActive) onOpen();
+            }}
+            title={isActive ? undefined : t('editor.library.open')}
+        >
+            {/* 缩略图区域 */}
+            <div className="aspect-video bg-slate-900 relative overflow-hidden">
+                {item.thumbnailUrl ? (
+                    <img
+                        src={item.thumbnailUrl}
+                        alt={item.name}
+                        className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity"
+                    />
+                ) : (
+                    <div className="w-full h-full flex items-center justify-center text-slate-600">
+                        <Film size={20} />
+                    </div>
+                )}
+                <div className="absolute bottom-1 right-1 bg-black/70 text-[9px] text-white px-1 py-0.5 rounded font-mono">
+                    {formatTime(item.duration)}
+                </div>
+                {isActive && (
+                    <div className="absolute top-1 left-1" title={t('editor.library.current')}>
+                        <Star size={10} className="text-yellow-400 fill-yellow-400" />
+                    </div>
+                )}
+
+                {/* 操作按钮 */}
+                <div
+                    className="absolute top-1 right-1 flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    {confirmDelete ? (
+                        <>
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    setConfirmDelete(false);
+                                    onDelete();
+                                }}
+                                className="p-1 rounded bg-red-600/90 text-white hover:bg-red-500"
+                                title={t('editor.library.deleteConfirm')}
+                            >
+                                <Check size={10} />
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => setConfirmDelete(false)}
+                                className="p-1 rounded bg-black/70 text-slate-300 hover:text-white"
+                                title={t('common.dismiss')}
+                            >
+                                <X size={10} />
+                            </button>
+                        </>
+                    ) : (
+                        <>
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    setDraftName(item.name ?? '');
+                                    setIsRenaming(true);
+                                }}
+                                className="p-1 rounded bg-black/70 text-slate-300 hover:text-white"
+                                title={t('editor.library.rename')}
+                            >
+                                <Pencil size={10} />
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => setConfirmDelete(true)}
+                                className="p-1 rounded bg-black/70 text-red-300 hover:text-red-200"
+                                title={t('editor.library.delete')}
+                            >
+                                <Trash2 size={10} />
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {/* 信息区域 */}
+            <div className="p-2 space-y-1" onClick={(e) => isRenaming && e.stopPropagation()}>
+                {isRenaming ? (
+                    <input
+                        autoFocus
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') setIsRenaming(false);
+                        }}
+                        className="w-full rounded border border-slate-600 bg-slate-900 px-1.5 py-0.5 text-[11px] text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                ) : (
+                    <div className="text-[11px] font-medium text-white truncate">
+                        {item.name}
+                    </div>
+                )}
+                <div className="text-[10px] text-slate-500 flex items-center justify-between gap-1">
+                    <span>{formatBytes(item.size)}</span>
+                    <span className="truncate">{new Date(item.createdAt).toLocaleDateString()}</span>
+                </div>
+
+                {/* 标签 */}
+                <div className="flex flex-wrap items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                    {item.tags.map((tag) => (
+                        <span
+                            key={tag}
+                            className="flex items-center gap-0.5 text-[9px] bg-blue-600/20 text-blue-300 px-1 rounded"
+                        >
+                            {tag}
+                            <button
+                                type="button"
+                                onClick={() => onSetTags(item.tags.filter((t) => t !== tag))}
+                                className="hover:text-white"
+                                aria-label={t('common.dismiss')}
+                            >
+                                <X size={8} />
+                            </button>
+                        </span>
+                    ))}
+                    <label className="flex items-center gap-0.5 text-[9px] text-slate-500 min-w-0 flex-1">
+                        <Tag size={8} className="shrink-0" />
+                        <input
+                            value={draftTag}
+                            onChange={(e) => setDraftTag(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') commitTag();
+                            }}
+                            placeholder={t('editor.library.addTag')}
+                            className="min-w-0 w-full bg-transparent text-[9px] text-slate-300 placeholder:text-slate-600 focus:outline-none"
+                        />
+                    </label>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,109 @@
+import React, { useRef } from 'react';
+import { Download, Trash2, Upload } from 'lucide-react';
+import { useI18n } from '../../../i18n';
+import { formatTime } from '../../../utils/format';
+import type { SubtitleCue } from '../../../types';
+import type { SubtitleFileFormat } from '../../../utils/subtitles';
+
+interface LibrarySubtitleListProps {
+    cues: SubtitleCue[];
+    importError: string | null;
+    onImportFile: (file: File) => void;
+    onDownload: (format: SubtitleFileFormat) => void;
+    onClear: () => void;
+    onSeekCue: (cue: SubtitleCue) => void;
+}
+
+/**
+ * 字幕：汇入 SRT / VTT、下载换算过剪辑的字幕档、点 cue 跳转
+ */
+export const LibrarySubtitleList: React.FC<LibrarySubtitleListProps> = ({
+    cues,
+    importError,
+    onImportFile,
+    onDownload,
+    onClear,
+    onSeekCue,
+}) => {
+    const { t } = useI18n();
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    return (
+        <div className="space-y-1.5">
+            <div className="flex items-center justify-between px-2">
+                <span className="text-[10px] text-slate-500 uppercase tracking-wider">
+                    {t('editor.subtitles.title')}
+                </span>
+                <div className="flex items-center gap-0.5">
+                    {cues.length > 0 && (
+                        <>
+                            {(['srt', 'vtt'] as const).map((format) => (
+                                <button
+                                    key={format}
+                                    type="button"
+                                    onClick={() => onDownload(format)}
+                                    className="flex items-center gap-0.5 px-1 py-0.5 rounded text-[9px] font-mono uppercase text-slate-400 hover:text-white hover:bg-slate-700"
+                                    title={t('editor.subtitles.download', { format: format.toUpperCase() })}
+                                >
+                                    <Download size={10} />
+                                    {format}
+                                </button>
+                            ))}
+                            <button
+                                type="button"
+                                onClick={onClear}
+                                className="p-0.5 rounded text-red-300 hover:text-red-200 hover:bg-slate-700"
+                                title={t('editor.subtitles.clear')}
+                            >
+                                <Trash2 size={12} />
+                            </button>
+                        </>
+                    )}
+                    <button
+                        type="button"
+                        onClick={() => inputRef.current?.click()}
+                        className="p-0.5 rounded text-sky-300 hover:text-white hover:bg-sky-600/40"
+                        title={t('editor.subtitles.import')}
+                    >
+                        <Upload size={12} />
+                    </button>
+                    <input
+                        ref={inputRef}
+                        type="file"
+                        accept=".srt,.vtt,text/vtt,application/x-subrip"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) onImportFile(file);
+                            // 允许再次选同一个档案
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+            </div>
+
+            {importError && <div className="px-2 text-[11px] text-red-300">{importError}</div>}
+
+            {cues.length === 0 ? (
+                <div className="px-2 text-[11px] text-slate-500">{t('editor.subtitles.empty')}</div>
+            ) : (
+                <>
+                    <div className="px-2 text-[10px] text-slate-500">{t('editor.subtitles.count', { count: cues.length })}</div>
+                    <div className="space-y-0.5 max-h-48 overflow-y-auto">
+                        {cues.map((cue) => (
+                            <button
+                                key={cue.id}
+                                type="button"
+                                onClick={() => onSeekCue(cue)}
+                                className="w-full flex items-start gap-1.5 px-2 py-1 rounded-md text-left hover:bg-slate-800/50"
+                            >
+                                <span className="shrink-0 text-[10px] font-mono text-slate-500">{formatTime(cue.start)}</span>
+                                <span className="min-w-0 flex-1 truncate text-[11px] text-slate-300">{cue.text.replace(/\n/g, ' ')}</span>
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -1,16 +1,60 @@
-import { useEffect, useState } from 'react';
-import type { ExportFormat, ExportOptions, ExportResolution, ExportFrameRateOption, TrimRange, VideoMetadata, VideoQualityPreset } from '../../types';
-import { ffmpegService } from '../../services/ffmpegService';
+import { useEffect, useRef, useState } from 'react';
+import type {
+    AnimatedExportSettings,
+    CropAspect,
+    EditorExportSettings,
+    ExportChapter,
+    ExportChapterSource,
+    ExportCrop,
+    ExportFormat,
+    ExportMode,
+    ExportOptions,
+    ExportQueueJob,
+    ExportResolution,
+    ExportFrameRateOption,
+    ExportMetadata,
+    KeyframeSnapReport,
+    SubtitleCue,
+    SubtitleExportMode,
+    TextOverlay,
+    TimelineMarker,
+    TrimRange,
+    VideoMetadata,
+    VideoQualityPreset,
+    ZoomRegion,
+} from '../../types';
+import { EXPORT_FORMATS, getSegmentSpeed, isAnimatedFormat } from '../../types';
+import { isFullFrameCrop } from '../../utils/crop';
+import { ExportCancelledError, NoAudioTrackError, ffmpegService } from '../../services/ffmpegService';
+import { buildExportChapters, buildSegmentChapters, hasExportMetadata } from '../../services/ffmpeg/chapters';
+import { buildExportTextOverlays } from '../../services/ffmpeg/textOverlays';
+import { buildExportZoomRegions } from '../../services/ffmpeg/zoom';
+import { buildExportSubtitles } from '../../services/ffmpeg/subtitles';
 
 interface UseEditorExportControllerArgs {
     videoMetadata: VideoMetadata;
     segments: TrimRange[];
+    markers: TimelineMarker[];
+    textOverlays: TextOverlay[];
+    subtitles: SubtitleCue[];
+    zoomRegions: ZoomRegion[];
+    /** 录制总长（整段导出时章节的结尾） */
+    duration: number;
+    /** 录制画面尺寸（文字叠加排版与缩放用；尚未载入时为 null） */
+    videoSize: { width: number; height: number } | null;
 
     selectedQuality: VideoQualityPreset;
     selectedResolution: ExportResolution;
     selectedFormat: ExportFormat;
     selectedFps: ExportFrameRateOption;
     customCrf: number;
+    animationSettings: AnimatedExportSettings;
+    fastExport: boolean;
+    chapterSource: ExportChapterSource;
+    exportMetadata: ExportMetadata;
+    subtitleMode: SubtitleExportMode;
+    crop: ExportCrop | null;
+    cropAspect: CropAspect;
 
     playbackError: string | null;
     setPlaybackError: (msg: string | null) => void;
@@ -23,15 +67,30 @@ interface UseEditorExportControllerArgs {
  * - 追蹤 FFmpeg 進度 / ETA
  * - 產生 export blob URL（並在切換/卸載時 revoke）
  * - 將錯誤變成 UI 可顯示的字串（避免用 alert）
+ * - 可取消進行中的匯出（取消不算錯誤）
+ * - 匯出佇列：同一段剪輯用多組設定依序輸出（輸入檔只寫入 FFmpeg 一次）
  */
 export const useEditorExportController = ({
     videoMetadata,
     segments,
+    markers,
+    textOverlays,
+    subtitles,
+    zoomRegions,
+    duration,
+    videoSize,
     selectedQuality,
     selectedResolution,
     selectedFormat,
     selectedFps,
     customCrf,
+    animationSettings,
+    fastExport,
+    chapterSource,
+    exportMetadata,
+    subtitleMode,
+    crop,
+    cropAspect,
     playbackError,
     setPlaybackError,
     t,
@@ -42,20 +101,41 @@ export const useEditorExportController = ({
     const [processingStartTime, setProcessingStartTime] = useState<number | null>(null);
     const [exportUrl, setExportUrl] = useState<string | null>(null);
     const [exportError, setExportError] = useState<string | null>(null);
+    const [exportNotice, setExportNotice] = useState<string | null>(null);
+    const [isCancelling, setIsCancelling] = useState(false);
+
+    const [queue, setQueue] = useState<ExportQueueJob[]>([]);
+    const [isQueueRunning, setIsQueueRunning] = useState(false);
+    // 佇列中正在跑的 job（progress 回呼用 ref 讀，避免重新訂閱）
+    const runningJobRef = useRef<{ id: string; startedAt: number } | null>(null);
+    // 佇列產生的 URL（卸載時統一 revoke）
+    const queueUrlsRef = useRef(new Set<string>());
+
+    const patchJob = (id: string, patch: Partial<ExportQueueJob>) => {
+        setQueue((prev) => prev.map((job) => (job.id === id ? { ...job, ...patch } : job)));
+    };
 
     // Subscribe to FFmpeg progress
     useEffect(() => {
         ffmpegService.onProgress(({ ratio }) => {
             const clamped = Math.max(0, Math.min(1, ratio));
-            setProcessingProgress(Math.round(clamped * 100));
+            const running = runningJobRef.current;
+            const startTime = running ? running.startedAt : processingStartTime;
 
-            if (processingStartTime && clamped > 0) {
-                const elapsedMs = Date.now() - processingStartTime;
+            let eta: string | null = null;
+            if (startTime && clamped > 0) {
+                const elapsedMs = Date.now() - startTime;
                 const etaMs = (elapsedMs / clamped) - elapsedMs;
-                if (Number.isFinite(etaMs) && etaMs >= 0) {
-                    setProcessingEta(formatEta(etaMs));
-                }
+                if (Number.isFinite(etaMs) && etaMs >= 0) eta = formatEta(etaMs);
             }
+
+            if (running) {
+                patchJob(running.id, { progress: Math.round(clamped * 100), ...(eta ? { eta } : {}) });
+                return;
+            }
+
+            setProcessingProgress(Math.round(clamped * 100));
+            if (eta) setProcessingEta(eta);
         });
     }, [processingStartTime]);
 
@@ -66,75 +146,347 @@ export const useEditorExportController = ({
         };
     }, [exportUrl]);
 
-    const exportVideo = async (mode: 'full' | 'trimmed') => {
-        setExportError(null);
+    // 卸載（例如切換到另一段錄製）時停止仍在跑的匯出，並釋放佇列的 URL
+    useEffect(() => {
+        const queueUrls = queueUrlsRef.current;
+        return () => {
+            if (ffmpegService.isProcessing()) ffmpegService.cancelProcessing();
+            queueUrls.forEach((url) => URL.revokeObjectURL(url));
+            queueUrls.clear();
+        };
+    }, []);
 
-        // 使用同一份播放錯誤顯示（避免 UI 出現兩套錯誤訊息）
+    const isBusy = isProcessing || isQueueRunning;
+
+    /**
+     * 匯出前檢查；回傳 false 代表已顯示錯誤
+     */
+    const canExport = (mode: ExportMode) => {
         if (playbackError || videoMetadata.duration <= 0) {
             setPlaybackError(t('editor.playback.cannotExport'));
-            return;
+            return false;
         }
 
         const totalSelected = segments.reduce((sum, s) => sum + Math.max(s.end - s.start, 0), 0);
         if (mode === 'trimmed' && totalSelected <= 0) {
             setPlaybackError(t('editor.playback.trimInvalid'));
-            return;
+            return false;
         }
+        return true;
+    };
+
+    // 無音軌要給明確提示，其餘統一顯示匯出失敗
+    const describeExportError = (error: unknown) => {
+        return error instanceof NoAudioTrackError ? t('editor.export.noAudioTrack') : t('editor.export.failed');
+    };
+
+    // 快速匯出（stream copy）時，把切點移到關鍵格的幅度告訴使用者
+    const describeKeyframeSnap = (report?: KeyframeSnapReport) => {
+        if (!report) return null;
+        const notes: string[] = [];
+        if (report.movedCuts > 0) {
+            notes.push(t('editor.export.fast.snapped', { count: report.movedCuts, shift: report.maxShift.toFixed(2) }));
+        }
+        if (report.droppedSegments > 0) {
+            notes.push(t('editor.export.fast.dropped', { count: report.droppedSegments }));
+        }
+        return notes.length > 0 ? notes.join(' ') : null;
+    };
+
+    const currentSettings = (): EditorExportSettings => ({
+        quality: selectedQuality,
+        resolution: selectedResolution,
+        format: selectedFormat,
+        fps: selectedFps,
+        crf: customCrf,
+        animation: animationSettings,
+        fastExport,
+        chapters: chapterSource,
+        metadata: exportMetadata,
+        subtitles: subtitleMode,
+        crop,
+        cropAspect,
+    });
+
+    // 章节来源（执行时才取，永远是最新的标记 / cut）
+    const chapterSources = (): ChapterSources => ({
+        markers: markers.map((m, i) => ({ time: m.time, title: m.label || t('editor.markers.untitled', { index: i + 1 }) })),
+        segmentTitle: (index) => t('editor.export.chapters.segmentTitle', { index: index + 1 }),
+        duration,
+    });
+
+    const overlaySources = (): OverlaySources => ({ overlays: textOverlays, subtitles, zoomRegions, sourceSize: videoSize });
+
+    const exportVideo = async (mode: ExportMode) => {
+        setExportError(null);
+
+        // 使用同一份播放錯誤顯示（避免 UI 出現兩套錯誤訊息）
+        if (isBusy || !canExport(mode)) return;
 
         setIsProcessing(true);
         setProcessingProgress(0);
         setProcessingEta(null);
         setProcessingStartTime(Date.now());
         setExportUrl(null);
+        setExportNotice(null);
 
         try {
-            const options: ExportOptions = {
-                quality: selectedQuality,
-                resolution: selectedResolution,
-                format: selectedFormat,
-                fps: selectedFps,
-                crf: customCrf,
-            };
-
-            if (mode === 'trimmed') {
-                if (segments.length > 1) {
-                    options.segments = segments.map((s) => ({ start: s.start, end: s.end }));
-                } else if (segments.length === 1) {
-                    options.trimStart = segments[0].start;
-                    options.trimEnd = segments[0].end;
-                }
-            }
-
-            const outputBlob = await ffmpegService.processVideo(videoMetadata.blob, options);
-            const url = URL.createObjectURL(outputBlob);
+            const options = buildExportOptions(currentSettings(), mode, segments, chapterSources(), overlaySources());
+            const [result] = await ffmpegService.processVideoBatch(videoMetadata.blob, [options]);
+            if (!result.ok) throw result.error;
+            const url = URL.createObjectURL(result.output);
             setExportUrl(url);
+            setExportNotice(describeKeyframeSnap(result.keyframeSnap));
         } catch (error) {
-            console.error(error);
-            setExportError(t('editor.export.failed'));
+            if (error instanceof ExportCancelledError) {
+                console.info('Export cancelled');
+            } else {
+                console.error(error);
+                setExportError(describeExportError(error));
+            }
         } finally {
             setIsProcessing(false);
+            setIsCancelling(false);
             setProcessingProgress(0);
             setProcessingEta(null);
             setProcessingStartTime(null);
         }
     };
 
+    /**
+     * 把目前的匯出設定加入佇列（剪輯範圍在執行時才取，永遠是最新的 cut）
+     */
+    const addToQueue = (mode: ExportMode = 'trimmed') => {
+        const job: ExportQueueJob = {
+            id: `job_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+            mode,
+            settings: currentSettings(),
+            status: 'queued',
+            progress: 0,
+            eta: null,
+            url: null,
+            error: null,
+            notice: null,
+        };
+        setQueue((prev) => [...prev, job]);
+    };
+
+    const releaseJobUrl = (job: ExportQueueJob) => {
+        if (!job.url) return;
+        URL.revokeObjectURL(job.url);
+        queueUrlsRef.current.delete(job.url);
+    };
+
+    const removeFromQueue = (id: string) => {
+        if (runningJobRef.current?.id === id) return;
+        const job = queue.find((j) => j.id === id);
+        if (job) releaseJobUrl(job);
+        setQueue((prev) => prev.filter((j) => j.id !== id));
+    };
+
+    const clearQueue = () => {
+        if (isQueueRunning) return;
+        queue.forEach(releaseJobUrl);
+        setQueue([]);
+    };
+
+    /**
+     * 依序執行佇列中尚未完成的 job（已完成的保留結果，不重跑）
+     */
+    const runQueue = async () => {
+        setExportError(null);
+        const pending = queue.filter((job) => job.status !== 'done');
+        if (isBusy || pending.length === 0) return;
+        if (pending.some((job) => !canExport(job.mode))) return;
+
+        const pendingIds = new Set(pending.map((job) => job.id));
+        setQueue((prev) => prev.map((job) => (
+            pendingIds.has(job.id) ? { ...job, status: 'queued', progress: 0, eta: null, error: null, notice: null } : job
+        )));
+        setIsQueueRunning(true);
+
+        try {
+            await ffmpegService.processVideoBatch(
+                videoMetadata.blob,
+                pending.map((job) => buildExportOptions(job.settings, job.mode, segments, chapterSources(), overlaySources())),
+                {
+                    onJobStart: (index) => {
+                        runningJobRef.current = { id: pending[index].id, startedAt: Date.now() };
+                        patchJob(pending[index].id, { status: 'running' });
+                    },
+                    onJobComplete: (index, output, keyframeSnap) => {
+                        const url = URL.createObjectURL(output);
+                        queueUrlsRef.current.add(url);
+                        patchJob(pending[index].id, {
+                            status: 'done',
+                            progress: 100,
+                            eta: null,
+                            url,
+                            notice: describeKeyframeSnap(keyframeSnap),
+                        });
+                    },
+                    onJobError: (index, error) => {
+                        patchJob(pending[index].id, { status: 'failed', eta: null, error: describeExportError(error) });
+                    },
+                }
+            );
+        } catch (error) {
+            const cancelled = error instanceof ExportCancelledError;
+            if (!cancelled) {
+                console.error(error);
+                setExportError(t('editor.export.failed'));
+            }
+            // 還沒跑完的 job 標記為取消 / 失敗，方便之後重跑
+            setQueue((prev) => prev.map((job) => (
+                pendingIds.has(job.id) && (job.status === 'queued' || job.status === 'running')
+                    ? { ...job, status: cancelled ? 'cancelled' : 'failed', eta: null }
+                    : job
+            )));
+        } finally {
+            runningJobRef.current = null;
+            setIsQueueRunning(false);
+            setIsCancelling(false);
+        }
+    };
+
+    const cancelExport = () => {
+        if (!isBusy || isCancelling) return;
+        setIsCancelling(true);
+        ffmpegService.cancelProcessing();
+    };
+
     return {
         // state
         isProcessing,
+        isCancelling,
         processingProgress,
         processingEta,
         exportUrl,
         exportError,
+        exportNotice,
+        queue,
+        isQueueRunning,
 
         // actions
         exportTrimmed: () => exportVideo('trimmed'),
         exportFull: () => exportVideo('full'),
-        clearExportUrl: () => setExportUrl(null),
+        cancelExport,
+        clearExportUrl: () => {
+            setExportUrl(null);
+            setExportNotice(null);
+        },
         clearExportError: () => setExportError(null),
+        addToQueue,
+        removeFromQueue,
+        clearQueue,
+        runQueue,
     };
 };
 
+interface ChapterSources {
+    markers: Array<{ time: number; title: string }>;
+    /** 第 index 個保留片段的章節標題 */
+    segmentTitle: (index: number) => string;
+    duration: number;
+}
+
+interface OverlaySources {
+    /** 录制时间的文字叠加 */
+    overlays: TextOverlay[];
+    /** 录制时间的字幕 */
+    subtitles: SubtitleCue[];
+    /** 录制时间的缩放区域 */
+    zoomRegions: ZoomRegion[];
+    sourceSize: { width: number; height: number } | null;
+}
+
+/**
+ * 匯出設定 + 模式 + 目前的剪輯範圍 -> FFmpeg 的 ExportOptions
+ */
+
+const buildExportOptions = (
+    settings: EditorExportSettings,
+    mode: ExportMode,
+    segments: TrimRange[],
+    chapterSources: ChapterSources,
+    overlaySources: OverlaySources
+): ExportOptions => {
+    const options: ExportOptions = {
+        quality: settings.quality,
+        resolution: settings.resolution,
+        format: settings.format,
+        fps: settings.fps,
+        crf: settings.crf,
+    };
+
+    if (isAnimatedFormat(settings.format)) {
+        options.animation = settings.animation;
+    }
+    if (settings.fastExport && settings.format === 'webm') {
+        options.streamCopy = true;
+    }
+    // 裁切适用于影片与动图（纯音频没有画面）
+    if (settings.crop && !isFullFrameCrop(settings.crop) && EXPORT_FORMATS[settings.format].kind !== 'audio') {
+        options.crop = settings.crop;
+    }
+
+    // 有变速的片段一律走 segments（单段 trimStart / trimEnd 无法带速度；转场只存在于多段之间）
+    if (mode === 'trimmed') {
+        if (segments.length > 1 || segments.some((s) => getSegmentSpeed(s) !== 1)) {
+            options.segments = segments.map((s) => ({ start: s.start, end: s.end, speed: getSegmentSpeed(s), transition: s.transition }));
+        } else if (segments.length === 1) {
+            options.trimStart = segments[0].start;
+            options.trimEnd = segments[0].end;
+        }
+    }
+
+    // 章节与标题等 tag 只写进 mp4 / webm；章节时间换算到输出时间轴
+    if (EXPORT_FORMATS[settings.format].kind === 'video') {
+        if (settings.chapters !== 'none') {
+            const chapterSegments = mode === 'trimmed' && segments.length > 0 ? segments : null;
+            let chapters: ExportChapter[];
+            if (settings.chapters === 'markers') {
+                chapters = buildExportChapters(chapterSources.markers, chapterSegments, chapterSources.duration);
+            } else if (chapterSegments) {
+                // 片段章節直接用各片段在輸出上的起點（重複的片段來源時間相同，不能用換算的）
+                chapters = buildSegmentChapters(chapterSegments, chapterSources.segmentTitle);
+            } else {
+                chapters = buildExportChapters(
+                    segments.map((s, i) => ({ time: s.start, title: chapterSources.segmentTitle(i) })),
+                    null,
+                    chapterSources.duration
+                );
+            }
+            if (chapters.length > 0) options.chapters = chapters;
+        }
+        if (hasExportMetadata(settings.metadata)) options.metadata = settings.metadata;
+    }
+
+    // 文字叠加、字幕与缩放跟章节一样换算到输出时间轴（被剪掉的部分不显示）
+    const outputSegments = mode === 'trimmed' && segments.length > 0 ? segments : null;
+    // 文字叠加与缩放在影片与动图都画进画面（纯音频没有画面）
+    if (EXPORT_FORMATS[settings.format].kind !== 'audio') {
+        const textOverlays = buildExportTextOverlays(overlaySources.overlays, outputSegments);
+        if (textOverlays.length > 0) options.textOverlays = textOverlays;
+        const zoomRegions = buildExportZoomRegions(overlaySources.zoomRegions, outputSegments);
+        if (zoomRegions.length > 0) options.zoomRegions = zoomRegions;
+    }
+    // 字幕轨只有 mp4 / webm 装得下；动图只能烧进画面
+    const subtitleMode = EXPORT_FORMATS[settings.format].kind === 'video'
+        ? settings.subtitles
+        : isAnimatedFormat(settings.format) && settings.subtitles === 'burn' ? 'burn' : 'none';
+    if (subtitleMode !== 'none') {
+        const cues = buildExportSubtitles(overlaySources.subtitles, outputSegments);
+        if (cues.length > 0) options.subtitles = { mode: subtitleMode, cues };
+    }
+    // 叠字、烧录字幕与缩放要按画面尺寸排版
+    if ((options.textOverlays || options.subtitles?.mode === 'burn' || options.zoomRegions) && overlaySources.sourceSize) {
+        options.sourceSize = overlaySources.sourceSize;
+    }
+
+    return options;
+};
+
 const formatEta = (ms: number) => {
     const totalSeconds = Math.round(ms / 1000);
     const minutes = Math.floor(totalSeconds / 60);
@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from 'react';
+import { filmstripStorageService } from '../../services/filmstripStorageService';
+import { captureVideoFrames } from '../../utils/videoFrames';
+
+// 帧数上限（时间轴最大缩放时也足够铺满）
+const MAX_FRAMES = 240;
+// 最密每 0.5 秒一帧（短录制不需要更多）
+const MIN_INTERVAL_SECONDS = 0.5;
+// 缩略图宽度（px，已考虑高 DPI）
+const FRAME_WIDTH = 160;
+// 每产生几帧写回一次快取
+const SAVE_EVERY_FRAMES = 20;
+
+/**
+ * 由粗到细的抓帧顺序：先铺满整条时间轴，再补中间的帧
+ */
+const coarseToFineOrder = (count: number) => {
+    const order: number[] = [];
+    const seen = new Set<number>();
+    for (let stride = 2 ** Math.ceil(Math.log2(Math.max(count, 1))); stride >= 1; stride = Math.floor(stride / 2)) {
+        for (let i = 0; i < count; i += stride) {
+            if (seen.has(i)) continue;
+            seen.add(i);
+            order.push(i);
+        }
+        if (stride === 1) break;
+    }
+    return order;
+};
+
+interface UseFilmstripArgs {
+    /** 没有 id 时照样产生，只是不快取 */
+    recordingId?: string;
+    videoUrl: string;
+    duration: number;
+}
+
+/**
+ * 时间轴缩略图（filmstrip）：
+ * - 先读 IndexedDB 快取，缺的帧在背景用隐藏 <video> 依序补齐（不占用 FFmpeg）
+ * - 每张帧转成 object URL，卸载时 revoke
+ */
+export const useFilmstrip = ({ recordingId, videoUrl, duration }: UseFilmstripArgs) => {
+    const [frameUrls, setFrameUrls] = useState<Array<string | null>>([]);
+    const [interval, setIntervalSeconds] = useState(0);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const urlsRef = useRef<Array<string | null>>([]);
+
+    useEffect(() => {
+        if (!Number.isFinite(duration) || duration <= 0) return;
+        const controller = new AbortController();
+
+        const frameInterval = Math.max(MIN_INTERVAL_SECONDS, duration / MAX_FRAMES);
+        const count = Math.max(1, Math.floor(duration / frameInterval));
+        const frames: Array<Blob | null> = new Array(count).fill(null);
+
+        const setFrameUrl = (index: number, blob: Blob) => {
+            const url = URL.createObjectURL(blob);
+            urlsRef.current[index] = url;
+            setFrameUrls((prev) => {
+                const next = prev.slice();
+                next[index] = url;
+                return next;
+            });
+        };
+
+        const persist = () => {
+            if (!recordingId) return;
+            filmstripStorageService
+                .saveFilmstrip({ recordingId, interval: frameInterval, frames: frames.slice() })
+                .catch((error) => console.warn('Failed to cache filmstrip:', error));
+        };
+
+        const run = async () => {
+            urlsRef.current = new Array(count).fill(null);
+            setFrameUrls(new Array(count).fill(null));
+            setIntervalSeconds(frameInterval);
+
+            // 1. 快取（间隔相同才沿用）
+            if (recordingId) {
+                const cached = await filmstripStorageService.loadFilmstrip(recordingId);
+                if (controller.signal.aborted) return;
+                if (cached && Math.abs(cached.interval - frameInterval) < 1e-6 && cached.frames.length === count) {
+                    cached.frames.forEach((blob, i) => {
+                        if (!blob) return;
+                        frames[i] = blob;
+                        setFrameUrl(i, blob);
+                    });
+                }
+            }
+
+            // 2. 背景补齐缺的帧
+            const missing = coarseToFineOrder(count).filter((i) => !frames[i]);
+            if (missing.length === 0) return;
+
+            setIsGenerating(true);
+            let sinceSave = 0;
+            await captureVideoFrames(
+                videoUrl,
+                missing.map((i) => (i + 0.5) * frameInterval),
+                {
+                    width: FRAME_WIDTH,
+                    signal: controller.signal,
+                    onFrame: (k, _time, blob) => {
+                        const index = missing[k];
+                        frames[index] = blob;
+                        setFrameUrl(index, blob);
+                        if (++sinceSave >= SAVE_EVERY_FRAMES) {
+                            sinceSave = 0;
+                            persist();
+                        }
+                    },
+                }
+            );
+            // 中途被取消也把已产生的帧存起来，下次继续
+            persist();
+        };
+
+        run()
+            .catch((error) => console.error('Failed to generate filmstrip:', error))
+            .finally(() => {
+                if (!controller.signal.aborted) setIsGenerating(false);
+            });
+
+        return () => {
+            controller.abort();
+            urlsRef.current.forEach((url) => {
+                if (url) URL.revokeObjectURL(url);
+            });
+            urlsRef.current = [];
+        };
+    }, [recordingId, videoUrl, duration]);
+
+    return { frameUrls, interval, isGenerating };
+};
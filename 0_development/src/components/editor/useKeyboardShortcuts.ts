@@ -7,7 +7,12 @@ interface KeyboardShortcutsConfig {
     onSeek: (time: number) => void;
     onSplitAtPlayhead?: () => void;
     onUndo?: () => void;
+    onRedo?: () => void;
+    onDuplicateSelected?: () => void;
     onDeleteSelected?: () => void;
+    onAddMarker?: () => void;
+    onPreviousMarker?: () => void;
+    onNextMarker?: () => void;
     maxDuration: number;
     segmentStart: number;
     segmentEnd: number;
@@ -26,11 +31,15 @@ interface KeyboardShortcutsConfig {
  * - ← / →: 帧步进（±1帧，约 1/30 秒）
  * - Shift + ← / →: 大步跳转（±1秒）
  * - Home / End: 跳到开头/结尾
+ * - Ctrl + ; / Ctrl + ': 上一个/下一个标记
  * 
  * 编辑:
  * - B / Cmd+B: 在播放头位置剪切（Blade）
+ * - Cmd+D: 复制选中片段（插在后面）
  * - Delete / Backspace: 删除选中片段
  * - Cmd+Z: 撤销
+ * - Cmd+Shift+Z / Cmd+Y: 重做
+ * - M: 在播放头位置加标记
  */
 export function useKeyboardShortcuts({
     videoRef,
@@ -39,7 +48,12 @@ export function useKeyboardShortcuts({
     onSeek,
     onSplitAtPlayhead,
     onUndo,
+    onRedo,
+    onDuplicateSelected,
     onDeleteSelected,
+    onAddMarker,
+    onPreviousMarker,
+    onNextMarker,
     maxDuration,
     segmentStart,
     segmentEnd,
@@ -155,6 +169,22 @@ export function useKeyboardShortcuts({
                 onSeek(segmentEnd);
                 break;
 
+            case 'Semicolon':
+                // Ctrl + ; = 上一个标记
+                if (e.ctrlKey || e.metaKey) {
+                    e.preventDefault();
+                    onPreviousMarker?.();
+                }
+                break;
+
+            case 'Quote':
+                // Ctrl + ' = 下一个标记
+                if (e.ctrlKey || e.metaKey) {
+                    e.preventDefault();
+                    onNextMarker?.();
+                }
+                break;
+
             // ========== 编辑操作 ==========
             case 'KeyB':
                 // B 或 Cmd+B = Blade（剪切）
@@ -164,16 +194,45 @@ export function useKeyboardShortcuts({
                 }
                 break;
 
+            case 'KeyD':
+                // Cmd+D = 复制片段（拦下浏览器的加入书签）
+                if (e.metaKey || e.ctrlKey) {
+                    e.preventDefault();
+                    onDuplicateSelected?.();
+                }
+                break;
+
             case 'Delete':
             case 'Backspace':
                 e.preventDefault();
                 onDeleteSelected?.();
                 break;
 
+            case 'KeyM':
+                // M = 加标记
+                if (!e.metaKey && !e.ctrlKey && !e.altKey) {
+                    e.preventDefault();
+                    onAddMarker?.();
+                }
+                break;
+
             case 'KeyZ':
+                // Cmd+Z = 撤销，Cmd+Shift+Z = 重做
+                if (e.metaKey || e.ctrlKey) {
+                    e.preventDefault();
+                    if (e.shiftKey) {
+                        onRedo?.();
+                    } else {
+                        onUndo?.();
+                    }
+                }
+                break;
+
+            case 'KeyY':
+                // Cmd+Y = 重做
                 if (e.metaKey || e.ctrlKey) {
                     e.preventDefault();
-                    onUndo?.();
+                    onRedo?.();
                 }
                 break;
 
@@ -187,7 +246,12 @@ export function useKeyboardShortcuts({
         onSeek,
         onSplitAtPlayhead,
         onUndo,
+        onRedo,
+        onDuplicateSelected,
         onDeleteSelected,
+        onAddMarker,
+        onPreviousMarker,
+        onNextMarker,
         getCurrentTime,
         setPlaybackRate,
         segmentStart,
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import type { MarkerColor, TimelineMarker } from '../../types';
+
+// 同一位置（在这个距离内）不重复加标记
+const MARKER_DEDUPE_SECONDS = 0.05;
+// 上一个 / 下一个标记：跳过播放头正上方的那个
+const MARKER_NAV_EPSILON = 0.01;
+const DEFAULT_MARKER_COLOR: MarkerColor = 'blue';
+
+const createMarkerId = () => `marker_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const sortMarkers = (markers: TimelineMarker[]) => [...markers].sort((a, b) => a.time - b.time);
+
+/**
+ * 时间轴标记（书签）：
+ * - 依时间排序保存；与片段分开（加 / 删标记不进撤销历史）
+ * - 跟剪辑专案一起保存（见 useProjectPersistence）
+ * - initialTimes：录制中打的标记，作为新专案的初始标记（已保存的专案会覆盖）
+ */
+export const useMarkers = (initialTimes: number[] = []) => {
+    const [markers, setMarkers] = useState<TimelineMarker[]>(() => sortMarkers(
+        initialTimes
+            .filter((time) => Number.isFinite(time) && time >= 0)
+            .map((time) => ({ id: createMarkerId(), time, label: '', color: DEFAULT_MARKER_COLOR }))
+    ));
+
+    const addMarker = (time: number, patch: Partial<Omit<TimelineMarker, 'id' | 'time'>> = {}) => {
+        if (!Number.isFinite(time) || time < 0) return;
+        setMarkers((prev) => {
+            if (prev.some((m) => Math.abs(m.time - time) < MARKER_DEDUPE_SECONDS)) return prev;
+            return sortMarkers([
+                ...prev,
+                { id: createMarkerId(), time, label: patch.label ?? '', color: patch.color ?? DEFAULT_MARKER_COLOR },
+            ]);
+        });
+    };
+
+    const updateMarker = (id: string, patch: Partial<Omit<TimelineMarker, 'id'>>) => {
+        setMarkers((prev) => sortMarkers(prev.map((m) => (m.id === id ? { ...m, ...patch } : m))));
+    };
+
+    const removeMarker = (id: string) => {
+        setMarkers((prev) => prev.filter((m) => m.id !== id));
+    };
+
+    /**
+     * 从已保存的专案恢复
+     */
+    const restoreMarkers = (restored: TimelineMarker[]) => {
+        setMarkers(sortMarkers(restored));
+    };
+
+    const findPreviousMarker = (time: number) => {
+        for (let i = markers.length - 1; i >= 0; i--) {
+            if (markers[i].time < time - MARKER_NAV_EPSILON) return markers[i];
+        }
+        return null;
+    };
+
+    const findNextMarker = (time: number) => {
+        return markers.find((m) => m.time > time + MARKER_NAV_EPSILON) ?? null;
+    };
+
+    return {
+        markers,
+        addMarker,
+        updateMarker,
+        removeMarker,
+        restoreMarkers,
+        findPreviousMarker,
+        findNextMarker,
+    };
+};
@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from 'react';
+import type { EditorExportSettings, SegmentHistoryEntry, SubtitleCue, TextOverlay, TimelineMarker, TrimRange, ZoomRegion } from '../../types';
+import { projectStorageService, type EditorProject, type EditorProjectDraft } from '../../services/projectStorageService';
+
+// 编辑停顿多久后写入 IndexedDB（拖拽把手时不要每一帧都写）
+const AUTOSAVE_DELAY_MS = 500;
+
+interface UseProjectPersistenceArgs {
+    /** 没有 id（录制未能存入 IndexedDB）时不做任何持久化 */
+    recordingId?: string;
+    segments: TrimRange[];
+    markers: TimelineMarker[];
+    textOverlays: TextOverlay[];
+    subtitles: SubtitleCue[];
+    zoomRegions: ZoomRegion[];
+    selectedIndex: number;
+    history: SegmentHistoryEntry[];
+    historyIndex: number;
+    exportSettings: EditorExportSettings;
+    /** 读到已保存的专案时回调，由 Editor 把状态灌回各个 hook */
+    onRestore: (project: EditorProject) => void;
+}
+
+/**
+ * 剪辑专案自动保存 / 恢复：
+ * - 开启录制时读取专案并恢复
+ * - 之后每次编辑（debounce）自动保存；卸载时把尚未写入的变更 flush 掉
+ */
+export const useProjectPersistence = ({
+    recordingId,
+    segments,
+    markers,
+    textOverlays,
+    subtitles,
+    zoomRegions,
+    selectedIndex,
+    history,
+    historyIndex,
+    exportSettings,
+    onRestore,
+}: UseProjectPersistenceArgs) => {
+    const [isRestored, setIsRestored] = useState(!recordingId);
+    const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+    const onRestoreRef = useRef(onRestore);
+    onRestoreRef.current = onRestore;
+    const pendingDraftRef = useRef<EditorProjectDraft | null>(null);
+
+    // 开启录制时恢复专案
+    useEffect(() => {
+        if (!recordingId) return;
+        let cancelled = false;
+
+        projectStorageService.loadProject(recordingId).then((project) => {
+            if (cancelled) return;
+            if (project) {
+                onRestoreRef.current(project);
+                console.log('Restored editing project for recording:', recordingId);
+            }
+            setIsRestored(true);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [recordingId]);
+
+    const flush = () => {
+        const draft = pendingDraftRef.current;
+        if (!draft) return;
+        pendingDraftRef.current = null;
+        projectStorageService.saveProject(draft)
+            .then(() => setLastSavedAt(Date.now()))
+            .catch((error) => console.warn('Failed to save editing project:', error));
+    };
+
+    // 自动保存（恢复完成前不写，避免用初始状态覆盖已保存的专案）
+    useEffect(() => {
+        if (!recordingId || !isRestored) return;
+        pendingDraftRef.current = { recordingId, segments, markers, textOverlays, subtitles, zoomRegions, selectedIndex, history, historyIndex, exportSettings };
+        const timer = setTimeout(flush, AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [recordingId, isRestored, segments, markers, textOverlays, subtitles, zoomRegions, selectedIndex, history, historyIndex, exportSettings]);
+
+    // 卸载（切换录制 / 回到录制页）或关闭页面时写入最后的变更
+    useEffect(() => {
+        window.addEventListener('pagehide', flush);
+        return () => {
+            window.removeEventListener('pagehide', flush);
+            flush();
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    return {
+        isRestored,
+        lastSavedAt,
+    };
+};
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from 'react';
+import { videoStorageService, type StoredVideoSummary } from '../../services/videoStorageService';
+
+export interface LibraryItem extends StoredVideoSummary {
+    /** 缩略图 object URL（由 hook 负责 revoke） */
+    thumbnailUrl: string | null;
+}
+
+interface UseRecordingLibraryArgs {
+    /** 删除后通知上层（例如删掉的是目前开启的录制） */
+    onDeleted?: (id: string) => void;
+}
+
+/**
+ * 素材库（IndexedDB 中所有录制）：
+ * - 列表 / 重命名 / 删除 / 标签
+ * - 缩略图 Blob 转成 object URL，列表更新或卸载时 revoke
+ */
+export const useRecordingLibrary = ({ onDeleted }: UseRecordingLibraryArgs = {}) => {
+    const [items, setItems] = useState<LibraryItem[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const refresh = useCallback(async () => {
+        const videos = await videoStorageService.listVideos();
+        setItems(videos.map((v) => ({
+            ...v,
+            thumbnailUrl: v.thumbnail ? URL.createObjectURL(v.thumbnail) : null,
+        })));
+        setIsLoading(false);
+    }, []);
+
+    useEffect(() => {
+        refresh().catch((error) => {
+            console.error('Failed to load library:', error);
+            setIsLoading(false);
+        });
+    }, [refresh]);
+
+    // 列表替换或卸载时释放缩略图 URL
+    useEffect(() => {
+        return () => {
+            items.forEach((item) => {
+                if (item.thumbnailUrl) URL.revokeObjectURL(item.thumbnailUrl);
+            });
+        };
+    }, [items]);
+
+    const renameRecording = async (id: string, name: string) => {
+        try {
+            await videoStorageService.renameVideo(id, name);
+            await refresh();
+        } catch (error) {
+            console.error('Failed to rename recording:', error);
+        }
+    };
+
+    const setRecordingTags = async (id: string, tags: string[]) => {
+        try {
+            await videoStorageService.setVideoTags(id, tags);
+            await refresh();
+        } catch (error) {
+            console.error('Failed to update recording tags:', error);
+        }
+    };
+
+    const deleteRecording = async (id: string) => {
+        try {
+            await videoStorageService.deleteVideo(id);
+            await refresh();
+            onDeleted?.(id);
+        } catch (error) {
+            console.error('Failed to delete recording:', error);
+        }
+    };
+
+    return {
+        items,
+        isLoading,
+        refresh,
+        renameRecording,
+        setRecordingTags,
+        deleteRecording,
+    };
+};
@@ -0,0 +1,81 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { SceneChange } from '../../types';
+import { ExportCancelledError, ffmpegService } from '../../services/ffmpegService';
+import { pickSceneCuts } from '../../services/ffmpeg/sceneDetect';
+
+// 预设门槛（0-1）；屏幕录制切换窗口通常 > 0.3
+const DEFAULT_SCENE_THRESHOLD = 0.3;
+// 建议点之间的最短间隔（秒）
+const MIN_SCENE_GAP_SECONDS = 2;
+
+interface UseSceneDetectionArgs {
+    blob: Blob;
+    /** 套用：在所有建议点分割（一步撤销） */
+    onSplitAtTimes: (times: number[]) => void;
+}
+
+/**
+ * 画面切换检测（FFmpeg scene score）：
+ * - 检测只跑一次，之后调整门槛即时重算建议点
+ * - 与导出共用 FFmpeg worker，执行中无法导出（反之亦然）
+ */
+export const useSceneDetection = ({ blob, onSplitAtTimes }: UseSceneDetectionArgs) => {
+    const [threshold, setThreshold] = useState(DEFAULT_SCENE_THRESHOLD);
+    const [changes, setChanges] = useState<SceneChange[] | null>(null);
+    const [isDetecting, setIsDetecting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const isDetectingRef = useRef(false);
+
+    // 卸载时停掉仍在跑的检测
+    useEffect(() => {
+        return () => {
+            if (isDetectingRef.current) ffmpegService.cancelProcessing();
+        };
+    }, []);
+
+    const suggestions = useMemo(() => {
+        if (!changes) return [];
+        return pickSceneCuts(changes, threshold, MIN_SCENE_GAP_SECONDS);
+    }, [changes, threshold]);
+
+    const detect = async () => {
+        if (isDetectingRef.current) return;
+        isDetectingRef.current = true;
+        setIsDetecting(true);
+        setError(null);
+        try {
+            setChanges(await ffmpegService.detectScenes(blob));
+        } catch (err) {
+            if (!(err instanceof ExportCancelledError)) {
+                console.error('Scene detection failed:', err);
+                setError(err instanceof Error ? err.message : String(err));
+            }
+        } finally {
+            isDetectingRef.current = false;
+            setIsDetecting(false);
+        }
+    };
+
+    const cancel = () => {
+        if (isDetectingRef.current) ffmpegService.cancelProcessing();
+    };
+
+    const apply = () => {
+        if (suggestions.length === 0) return;
+        onSplitAtTimes(suggestions);
+        setChanges(null);
+    };
+
+    return {
+        threshold,
+        setThreshold,
+        isDetecting,
+        hasResult: changes !== null,
+        suggestions,
+        error,
+        detect,
+        cancel,
+        clear: () => setChanges(null),
+        apply,
+    };
+};
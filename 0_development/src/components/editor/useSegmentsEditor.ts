@@ -1,5 +1,6 @@
-import { useEffect, useMemo, useState } from 'react';
-import type { TrimRange } from '../../types';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { SegmentEditAction, SegmentHistoryEntry, SegmentTransition, TrimRange } from '../../types';
+import { MAX_SEGMENT_SPEED, MAX_TRANSITION_SECONDS, MIN_SEGMENT_SPEED, getOutputDuration, getSegmentSpeed } from '../../types';
 
 // UI 拖曳與分割的最小間距（避免太小導致難操作）
 const MIN_HANDLE_GAP_SECONDS = 0.5;
@@ -7,9 +8,114 @@ const MIN_HANDLE_GAP_SECONDS = 0.5;
 const MIN_KEEP_SEGMENT_SECONDS = 0.1;
 // 刪除區間本身的最小長度（太短的刪除通常是誤觸）
 const MIN_REMOVE_RANGE_SECONDS = 0.1;
-const MAX_HISTORY = 20; // 避免記憶體無限制成長（一般剪輯撤銷 20 步已足夠）
+const MAX_HISTORY = 50; // 含目前狀態；避免記憶體無限制成長（拖曳已合併成一步，50 步足夠）
 const MERGE_EPSILON = 0.001; // 合併相鄰片段的容忍誤差（避免浮點造成 0.0000001 的縫）
 
+/**
+ * 去掉片段的轉場（轉場屬於「片段之後的接點」，切開後只留給後半段）
+ */
+const withoutTransition = (seg: TrimRange): TrimRange => {
+    const { transition: _transition, ...rest } = seg;
+    return rest;
+};
+
+/**
+ * 把第 idx 段在 time 切成兩段（離兩端太近則回傳 null）
+ */
+const splitSegmentAt = (segments: TrimRange[], idx: number, time: number): TrimRange[] | null => {
+    const seg = segments[idx];
+    if (!seg) return null;
+
+    const splitTime = Math.max(seg.start, Math.min(time, seg.end));
+    if (splitTime - seg.start < MIN_HANDLE_GAP_SECONDS) return null;
+    if (seg.end - splitTime < MIN_HANDLE_GAP_SECONDS) return null;
+
+    return [
+        ...segments.slice(0, idx),
+        { ...withoutTransition(seg), end: splitTime },
+        { ...seg, start: splitTime },
+        ...segments.slice(idx + 1),
+    ];
+};
+
+/**
+ * 從片段中扣掉多個區間，並合併相鄰片段、移除太短的殘段
+ * - 保留時間軸順序（片段可能被重新排序過，不依來源時間排序）
+ */
+const subtractIntervals = (segments: TrimRange[], ranges: TrimRange[], maxDuration: number): TrimRange[] => {
+    let cut = segments;
+    for (const { start: s, end: e } of ranges) {
+        const next: TrimRange[] = [];
+        for (const seg of cut) {
+            // no overlap
+            if (e <= seg.start || s >= seg.end) {
+                next.push(seg);
+                continue;
+            }
+            // left remainder（有右半段時，轉場跟著右半段）
+            if (s > seg.start) next.push({ ...(e < seg.end ? withoutTransition(seg) : seg), end: Math.min(s, seg.end) });
+            // right remainder
+            if (e < seg.end) next.push({ ...seg, start: Math.max(e, seg.start) });
+        }
+        cut = next;
+    }
+
+    const filtered = cut
+        .map((seg) => ({
+            ...seg,
+            start: Math.max(0, Math.min(seg.start, maxDuration)),
+            end: Math.max(0, Math.min(seg.end, maxDuration)),
+        }))
+        // 刪除後允許更短的殘段存在（避免使用者覺得「刪除沒作用」）
+        .filter((seg) => seg.end - seg.start >= MIN_KEEP_SEGMENT_SECONDS);
+
+    // Merge segments that are adjacent both in timeline order and in source time
+    // (same speed, and no transition between them); the merged one keeps the later transition
+    const merged: TrimRange[] = [];
+    for (const seg of filtered) {
+        const last = merged[merged.length - 1];
+        if (last && !last.transition && Math.abs(seg.start - last.end) <= MERGE_EPSILON && getSegmentSpeed(last) === getSegmentSpeed(seg)) {
+            last.end = Math.max(last.end, seg.end);
+            if (seg.transition) last.transition = seg.transition;
+        } else {
+            merged.push(seg);
+        }
+    }
+    return merged;
+};
+
+const sameTransition = (a?: SegmentTransition, b?: SegmentTransition) =>
+    a?.type === b?.type && a?.duration === b?.duration;
+
+const sameSegments = (a: TrimRange[], b: TrimRange[]) =>
+    a.length === b.length && a.every((seg, i) =>
+        seg.start === b[i].start && seg.end === b[i].end
+        && getSegmentSpeed(seg) === getSegmentSpeed(b[i]) && sameTransition(seg.transition, b[i].transition));
+
+/**
+ * 把 from 的片段移到 to 的位置（時間軸順序）
+ */
+const moveSegmentTo = (segments: TrimRange[], from: number, to: number): TrimRange[] | null => {
+    if (from === to || from < 0 || to < 0 || from >= segments.length || to >= segments.length) return null;
+    const next = [...segments];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    return next;
+};
+
+/**
+ * 線性歷史：entries[index] 是目前狀態；index 之後的是可重做的步驟
+ */
+interface SegmentHistory {
+    entries: SegmentHistoryEntry[];
+    index: number;
+}
+
+const createHistory = (segments: TrimRange[]): SegmentHistory => ({
+    entries: [{ action: 'initial', segments }],
+    index: 0,
+});
+
 interface UseSegmentsEditorArgs {
     initialDuration: number;
     maxDuration: number;
@@ -19,20 +125,30 @@ interface UseSegmentsEditorArgs {
  * 以「保留片段」的方式做剪輯：
  * - split：把目前片段切成兩段
  * - delete：刪掉其中一段，即可達成「刪除中間片段」
+ * - 陣列順序就是時間軸（匯出）順序；可用 moveSegment 重新排序
+ * - 同一段來源可以出現多次（duplicate），片段之間可能重疊
+ * - 每段可以有自己的播放速度（speed，預設 1x）；時長一律以成品時長計算
+ * - transition：接到下一段的轉場，存在前一段上（跟著片段移動）
  */
 export const useSegmentsEditor = ({ initialDuration, maxDuration }: UseSegmentsEditorArgs) => {
-    const [segments, setSegments] = useState<TrimRange[]>([{ start: 0, end: initialDuration }]);
+    const [history, setHistory] = useState<SegmentHistory>(() => createHistory([{ start: 0, end: initialDuration }]));
     const [selectedIndex, setSelectedIndex] = useState(0);
     const [previewIndex, setPreviewIndex] = useState<number | null>(null);
-    const [history, setHistory] = useState<TrimRange[][]>([]);
+    // 進行中的拖曳（key = 片段 index）；同一次拖曳的 trim 合併成 entryIndex 那一筆（finishTrim 後結束）
+    const dragGroupRef = useRef<{ key: number; entryIndex: number | null } | null>(null);
+    // 已從專案恢復：之後不再用瀏覽器解析到的 duration 改寫剪輯
+    const restoredRef = useRef(false);
+
+    const segments = history.entries[history.index].segments;
 
     // 當新影片載入（duration 變了），重置剪輯狀態
     useEffect(() => {
         if (Number.isFinite(initialDuration) && initialDuration > 0) {
-            setSegments([{ start: 0, end: initialDuration }]);
+            setHistory(createHistory([{ start: 0, end: initialDuration }]));
             setSelectedIndex(0);
             setPreviewIndex(null);
-            setHistory([]);
+            dragGroupRef.current = null;
+            restoredRef.current = false;
         }
     }, [initialDuration]);
 
@@ -52,24 +168,62 @@ export const useSegmentsEditor = ({ initialDuration, maxDuration }: UseSegmentsE
     const activeSegment = safeSegments[Math.min(activeIndex, safeSegments.length - 1)];
 
     const totalSelectedDuration = useMemo(() => {
-        return safeSegments.reduce((sum, s) => sum + Math.max(s.end - s.start, 0), 0);
+        return getOutputDuration(safeSegments);
     }, [safeSegments]);
 
-    const pushHistory = (prev: TrimRange[]) => {
-        setHistory((h) => [...h.slice(-(MAX_HISTORY - 1)), prev]);
+    /**
+     * 套用一個編輯：丟掉可重做的步驟，推入新的一筆
+     * - update 回傳 null 或相同內容時不算一步
+     * - groupKey：同一個 key 連續的編輯合併成一筆（拖曳）
+     */
+    const commit = (
+        action: SegmentEditAction,
+        update: (prev: TrimRange[]) => TrimRange[] | null,
+        groupKey: number | null = null
+    ) => {
+        if (groupKey === null) {
+            dragGroupRef.current = null;
+        } else if (dragGroupRef.current?.key !== groupKey) {
+            dragGroupRef.current = { key: groupKey, entryIndex: null };
+        }
+        const group = dragGroupRef.current;
+
+        setHistory((h) => {
+            const prev = h.entries[h.index].segments;
+            const next = update(prev);
+            if (!next || sameSegments(prev, next)) return h;
+
+            // 同一次拖曳：改寫這次拖曳建立的那一筆（中間沒有 undo / 其他編輯）
+            if (group && group.entryIndex === h.index && h.index === h.entries.length - 1) {
+                const entries = [...h.entries];
+                entries[h.index] = { action, segments: next };
+                return { entries, index: h.index };
+            }
+
+            const entries = [...h.entries.slice(0, h.index + 1), { action, segments: next }].slice(-MAX_HISTORY);
+            if (group) group.entryIndex = entries.length - 1;
+            return { entries, index: entries.length - 1 };
+        });
     };
 
-    const undo = () => {
+    /**
+     * 跳到歷史中的任一步（undo / redo / 歷史面板共用）
+     */
+    const jumpToHistory = (index: number) => {
+        dragGroupRef.current = null;
         setHistory((h) => {
-            const last = h[h.length - 1];
-            if (!last) return h;
-            setSegments(last);
-            setSelectedIndex((idx) => Math.max(0, Math.min(idx, last.length - 1)));
+            if (index < 0 || index > h.entries.length - 1 || index === h.index) return h;
+            const target = h.entries[index].segments;
+            setSelectedIndex((idx) => Math.max(0, Math.min(idx, target.length - 1)));
             setPreviewIndex(null);
-            return h.slice(0, -1);
+            return { entries: h.entries, index };
         });
     };
 
+    const undo = () => jumpToHistory(history.index - 1);
+
+    const redo = () => jumpToHistory(history.index + 1);
+
     const selectIndex = (idx: number) => {
         setSelectedIndex(Math.max(0, Math.min(idx, safeSegments.length - 1)));
         setPreviewIndex(null);
@@ -79,40 +233,40 @@ export const useSegmentsEditor = ({ initialDuration, maxDuration }: UseSegmentsE
         setSelectedIndex(Math.max(0, Math.min(idx, safeSegments.length - 1)));
     };
 
+    /**
+     * 調整選取片段的起訖；同一次拖曳只算一步撤銷（拖完呼叫 finishTrim）
+     */
     const updateSelectedSegment = (start: number, end: number) => {
-        setSegments((prev) => {
-            if (prev.length === 0) return prev;
-            pushHistory(prev);
-            const idx = Math.min(selectedIndex, prev.length - 1);
-            const prevEnd = idx > 0 ? prev[idx - 1].end : 0;
-            const nextStart = idx < prev.length - 1 ? prev[idx + 1].start : maxDuration;
+        const idx = Math.min(selectedIndex, segments.length - 1);
+        commit('trim', (prev) => {
+            if (prev.length === 0) return null;
+            const seg = prev[idx];
+            // 片段可能被重新排序：夾在「來源時間」上相鄰的片段之間，而不是陣列中的前後一段
+            const others = prev.filter((_, i) => i !== idx);
+            const prevEnd = Math.max(0, ...others.filter((s) => s.end <= seg.start + MERGE_EPSILON).map((s) => s.end));
+            const nextStart = Math.min(maxDuration, ...others.filter((s) => s.start >= seg.end - MERGE_EPSILON).map((s) => s.start));
 
             const clampedStart = Math.max(prevEnd, Math.min(start, nextStart - MIN_HANDLE_GAP_SECONDS));
             const clampedEnd = Math.min(nextStart, Math.max(end, prevEnd + MIN_HANDLE_GAP_SECONDS));
-            if (!Number.isFinite(clampedStart) || !Number.isFinite(clampedEnd) || clampedEnd <= clampedStart) return prev;
+            if (!Number.isFinite(clampedStart) || !Number.isFinite(clampedEnd) || clampedEnd <= clampedStart) return null;
 
-            return prev.map((s, i) => i === idx ? { start: clampedStart, end: clampedEnd } : s);
-        });
+            return prev.map((s, i) => i === idx ? { ...s, start: clampedStart, end: clampedEnd } : s);
+        }, idx);
+    };
+
+    /**
+     * 結束一次拖曳（下一次 trim 會是新的一步）
+     */
+    const finishTrim = () => {
+        dragGroupRef.current = null;
     };
 
     const splitSelectedAt = (time: number) => {
-        setSegments((prev) => {
-            if (prev.length === 0) return prev;
-            pushHistory(prev);
+        commit('split', (prev) => {
+            if (prev.length === 0) return null;
             const idx = Math.min(selectedIndex, prev.length - 1);
-            const seg = prev[idx];
-            if (!seg) return prev;
-
-            const splitTime = Math.max(seg.start, Math.min(time, seg.end));
-            if (splitTime - seg.start < MIN_HANDLE_GAP_SECONDS) return prev;
-            if (seg.end - splitTime < MIN_HANDLE_GAP_SECONDS) return prev;
-
-            const next = [
-                ...prev.slice(0, idx),
-                { start: seg.start, end: splitTime },
-                { start: splitTime, end: seg.end },
-                ...prev.slice(idx + 1),
-            ];
+            const next = splitSegmentAt(prev, idx, time);
+            if (!next) return null;
 
             // split 後預設選到後半段，方便刪掉「中段」
             setSelectedIndex(idx + 1);
@@ -120,10 +274,88 @@ export const useSegmentsEditor = ({ initialDuration, maxDuration }: UseSegmentsE
         });
     };
 
+    /**
+     * 在多個時間點一次分割（例如「在所有建議點分割」），只算一步撤銷
+     * - 每個時間點只切輸出時間軸上對應到的那一份（第一個包含它的片段，同 mapToOutputTime），重複的片段不會跟著切
+     * - 離片段兩端太近的點會略過
+     */
+    const splitAtTimes = (times: number[]) => {
+        commit('split', (prev) => {
+            let next = prev;
+            for (const time of [...times].sort((a, b) => a - b)) {
+                const idx = next.findIndex((seg) => time > seg.start && time < seg.end);
+                if (idx >= 0) next = splitSegmentAt(next, idx, time) ?? next;
+            }
+            if (next === prev) return null;
+            setPreviewIndex(null);
+            return next;
+        });
+    };
+
+    /**
+     * 調整片段在時間軸上的順序（匯出 / 預覽依這個順序串接）
+     */
+    const moveSegment = (from: number, to: number) => {
+        commit('reorder', (prev) => {
+            const next = moveSegmentTo(prev, from, to);
+            if (!next) return null;
+            // 選取跟著被移動的片段走
+            setSelectedIndex(to);
+            setPreviewIndex(null);
+            return next;
+        });
+    };
+
+    /**
+     * 複製選取的片段，插在它後面（同一段畫面重播一次），並選到複本
+     */
+    const duplicateSelectedSegment = () => {
+        commit('duplicate', (prev) => {
+            if (prev.length === 0) return null;
+            const idx = Math.min(selectedIndex, prev.length - 1);
+            setSelectedIndex(idx + 1);
+            setPreviewIndex(null);
+            // 原本接到下一段的轉場改由複本接；原片段與複本之間是硬切
+            return [...prev.slice(0, idx), withoutTransition(prev[idx]), { ...prev[idx] }, ...prev.slice(idx + 1)];
+        });
+    };
+
+    /**
+     * 設定選取片段的播放速度（1x 時不存 speed 欄位）
+     */
+    const setSelectedSegmentSpeed = (speed: number) => {
+        if (!Number.isFinite(speed)) return;
+        const clamped = Math.max(MIN_SEGMENT_SPEED, Math.min(speed, MAX_SEGMENT_SPEED));
+        commit('speed', (prev) => {
+            if (prev.length === 0) return null;
+            const idx = Math.min(selectedIndex, prev.length - 1);
+            return prev.map((s, i) => {
+                if (i !== idx) return s;
+                if (clamped !== 1) return { ...s, speed: clamped };
+                const { speed: _speed, ...rest } = s;
+                return rest;
+            });
+        });
+    };
+
+    /**
+     * 設定第 index 段與下一段之間的轉場（null = 硬切）
+     */
+    const setTransitionAfter = (index: number, transition: SegmentTransition | null) => {
+        commit('transition', (prev) => {
+            if (index < 0 || index >= prev.length - 1) return null;
+            return prev.map((s, i) => {
+                if (i !== index) return s;
+                if (!transition) return withoutTransition(s);
+                const duration = Math.max(0, Math.min(transition.duration, MAX_TRANSITION_SECONDS));
+                return { ...s, transition: { type: transition.type, duration } };
+            });
+        });
+    };
+
     const deleteSelectedSegment = () => {
-        setSegments((prev) => {
+        commit('delete', (prev) => {
             if (prev.length <= 1) return [{ start: 0, end: maxDuration }];
-            pushHistory(prev);
             const idx = Math.min(selectedIndex, prev.length - 1);
             const next = prev.filter((_, i) => i !== idx);
             setSelectedIndex(Math.max(0, idx - 1));
@@ -137,49 +369,22 @@ export const useSegmentsEditor = ({ initialDuration, maxDuration }: UseSegmentsE
      * - 自動合併相鄰片段並移除太短片段
      */
     const removeInterval = (start: number, end: number) => {
-        const s = Math.min(start, end);
-        const e = Math.max(start, end);
-        if (!Number.isFinite(s) || !Number.isFinite(e) || e - s < MIN_REMOVE_RANGE_SECONDS) return;
-
-        setSegments((prev) => {
-            if (prev.length === 0) return prev;
-            pushHistory(prev);
-
-            const cut: TrimRange[] = [];
-            for (const seg of prev) {
-                // no overlap
-                if (e <= seg.start || s >= seg.end) {
-                    cut.push(seg);
-                    continue;
-                }
-                // left remainder
-                if (s > seg.start) cut.push({ start: seg.start, end: Math.min(s, seg.end) });
-                // right remainder
-                if (e < seg.end) cut.push({ start: Math.max(e, seg.start), end: seg.end });
-            }
+        removeIntervals([{ start, end }]);
+    };
 
-            const filtered = cut
-                .map((seg) => ({
-                    start: Math.max(0, Math.min(seg.start, maxDuration)),
-                    end: Math.max(0, Math.min(seg.end, maxDuration)),
-                }))
-                // 刪除後允許更短的殘段存在（避免使用者覺得「刪除沒作用」）
-                .filter((seg) => seg.end - seg.start >= MIN_KEEP_SEGMENT_SECONDS)
-                .sort((a, b) => a.start - b.start);
-
-            // Merge adjacent segments
-            const merged: TrimRange[] = [];
-            for (const seg of filtered) {
-                const last = merged[merged.length - 1];
-                if (!last) {
-                    merged.push(seg);
-                } else if (seg.start <= last.end + MERGE_EPSILON) {
-                    last.end = Math.max(last.end, seg.end);
-                } else {
-                    merged.push(seg);
-                }
-            }
+    /**
+     * 一次刪除多個區間（例如「移除所有靜音」），只算一步撤銷
+     */
+    const removeIntervals = (ranges: TrimRange[]) => {
+        const valid = ranges
+            .map((r) => ({ start: Math.min(r.start, r.end), end: Math.max(r.start, r.end) }))
+            .filter((r) => Number.isFinite(r.start) && Number.isFinite(r.end) && r.end - r.start >= MIN_REMOVE_RANGE_SECONDS);
+        if (valid.length === 0) return;
+
+        commit('removeRange', (prev) => {
+            if (prev.length === 0) return null;
 
+            const merged = subtractIntervals(prev, valid, maxDuration);
             if (merged.length === 0) {
                 setSelectedIndex(0);
                 return [{ start: 0, end: maxDuration }];
@@ -192,45 +397,78 @@ export const useSegmentsEditor = ({ initialDuration, maxDuration }: UseSegmentsE
     };
 
     const resetSegments = () => {
-        setSegments((prev) => {
-            pushHistory(prev);
-            return [{ start: 0, end: maxDuration }];
-        });
+        commit('reset', () => [{ start: 0, end: maxDuration }]);
         setSelectedIndex(0);
         setPreviewIndex(null);
     };
 
     /**
-     * 若瀏覽器解析到的 duration 更準，且使用者還沒剪（只有一段、從 0 開始），則同步 end
+     * 從已保存的專案恢復剪輯狀態（不推入撤銷歷史）
+     */
+    const restoreState = (state: { history: SegmentHistoryEntry[]; historyIndex: number; selectedIndex: number }) => {
+        restoredRef.current = true;
+        if (state.history.length === 0) return;
+        const dropped = Math.max(0, state.history.length - MAX_HISTORY);
+        const entries = state.history.slice(dropped);
+        const index = Math.max(0, Math.min(state.historyIndex - dropped, entries.length - 1));
+        setHistory({ entries, index });
+        setSelectedIndex(Math.max(0, Math.min(state.selectedIndex, entries[index].segments.length - 1)));
+        setPreviewIndex(null);
+        dragGroupRef.current = null;
+    };
+
+    /**
+     * 若瀏覽器解析到的 duration 更準，且使用者還沒剪（只有最初那一筆、一段、從 0 開始），則同步 end
+     * - 恢復的專案不動（專案恢復是非同步的，loadedmetadata 可能比它晚到）
      */
     const syncDurationIfUntouched = (duration: number) => {
         if (!Number.isFinite(duration) || duration <= 0) return;
-        setSegments((prev) => {
-            if (prev.length !== 1) return prev;
-            if (prev[0].start !== 0) return prev;
-            if (Math.abs(prev[0].end - duration) <= 1 && prev[0].end !== 0) return prev;
-            return [{ start: 0, end: duration }];
+        if (restoredRef.current) return;
+        // 只是修正長度，不算一步：直接改寫目前這筆
+        setHistory((h) => {
+            if (h.index !== 0 || h.entries[0].action !== 'initial') return h;
+            const prev = h.entries[h.index].segments;
+            if (prev.length !== 1) return h;
+            if (prev[0].start !== 0) return h;
+            if (Math.abs(prev[0].end - duration) <= 1 && prev[0].end !== 0) return h;
+            const entries = [...h.entries];
+            entries[h.index] = { ...entries[h.index], segments: [{ ...prev[0], start: 0, end: duration }] };
+            return { entries, index: h.index };
         });
     };
 
     return {
+        segments,
+        history: history.entries,
+        historyIndex: history.index,
         safeSegments,
         selectedSegment,
         activeSegment,
         selectedIndex,
         previewIndex,
         totalSelectedDuration,
-        canUndo: history.length > 0,
+        canUndo: history.index > 0,
+        canRedo: history.index < history.entries.length - 1,
 
         setPreviewIndex,
         selectIndex,
         setSelectedIndexDirect,
         updateSelectedSegment,
+        finishTrim,
         splitSelectedAt,
+        splitAtTimes,
+        moveSegment,
+        duplicateSelectedSegment,
+        setSelectedSegmentSpeed,
+        setTransitionAfter,
         deleteSelectedSegment,
         removeInterval,
+        removeIntervals,
         undo,
+        redo,
+        jumpToHistory,
         resetSegments,
+        restoreState,
         syncDurationIfUntouched,
     };
 };
@@ -0,0 +1,48 @@
+import { useMemo, useState } from 'react';
+import type { TrimRange, WaveformData } from '../../types';
+import { DEFAULT_SILENCE_DETECTION, detectSilences, type SilenceDetectionSettings } from '../../utils/silence';
+
+interface UseSilenceDetectionArgs {
+    waveform: WaveformData | null;
+    isWaveformLoading: boolean;
+    /** 套用：一次扣掉所有静音区间（一步撤销） */
+    onRemoveIntervals: (ranges: TrimRange[]) => void;
+}
+
+/**
+ * 静音侦测：
+ * - 按下「侦测」后才显示结果；之后调整参数会即时重算
+ * - 套用后清掉结果（片段已经改变）
+ */
+export const useSilenceDetection = ({ waveform, isWaveformLoading, onRemoveIntervals }: UseSilenceDetectionArgs) => {
+    const [settings, setSettings] = useState<SilenceDetectionSettings>(DEFAULT_SILENCE_DETECTION);
+    const [isActive, setIsActive] = useState(false);
+
+    const ranges = useMemo(() => {
+        if (!isActive || !waveform) return [];
+        return detectSilences(waveform, settings);
+    }, [isActive, waveform, settings]);
+
+    const totalDuration = useMemo(() => {
+        return ranges.reduce((sum, r) => sum + (r.end - r.start), 0);
+    }, [ranges]);
+
+    const apply = () => {
+        if (ranges.length === 0) return;
+        onRemoveIntervals(ranges);
+        setIsActive(false);
+    };
+
+    return {
+        settings,
+        setSettings,
+        isActive,
+        ranges,
+        totalDuration,
+        canDetect: !!waveform && waveform.hasAudio,
+        isWaveformLoading,
+        detect: () => setIsActive(true),
+        clear: () => setIsActive(false),
+        apply,
+    };
+};
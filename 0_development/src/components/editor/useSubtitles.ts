@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import type { SubtitleCue, TrimRange } from '../../types';
+import { formatSubtitles, parseSubtitles, type SubtitleFileFormat } from '../../utils/subtitles';
+import { buildExportSubtitles } from '../../services/ffmpeg/subtitles';
+
+/**
+ * 字幕（从 SRT / WebVTT 汇入）：
+ * - cue 时间是录制时间，导出时才跟着片段换算（见 services/ffmpeg/subtitles）
+ * - 汇入会取代目前的字幕；不进撤销历史，跟剪辑专案一起保存
+ */
+export const useSubtitles = () => {
+    const [cues, setCues] = useState<SubtitleCue[]>([]);
+    const [importError, setImportError] = useState<string | null>(null);
+
+    /**
+     * 读取字幕档；回传汇入的 cue 数（失败为 0，并设定 importError）
+     */
+    const importFile = async (file: File, errorMessage: string) => {
+        setImportError(null);
+        try {
+            const parsed = parseSubtitles(await file.text());
+            if (parsed.length === 0) {
+                setImportError(errorMessage);
+                return 0;
+            }
+            setCues(parsed);
+            return parsed.length;
+        } catch (error) {
+            console.error('Failed to read subtitle file:', error);
+            setImportError(errorMessage);
+            return 0;
+        }
+    };
+
+    const clearCues = () => {
+        setCues([]);
+        setImportError(null);
+    };
+
+    /**
+     * 下载换算到成品时间轴的字幕档（搭配导出的影片当外挂字幕）
+     * - segments = null：整段录制，时间不变
+     */
+    const downloadFile = (format: SubtitleFileFormat, segments: TrimRange[] | null, fileName: string) => {
+        const content = formatSubtitles(buildExportSubtitles(cues, segments), format);
+        const url = URL.createObjectURL(new Blob([content], { type: format === 'vtt' ? 'text/vtt' : 'application/x-subrip' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    /**
+     * 从已保存的专案恢复
+     */
+    const restoreCues = (restored: SubtitleCue[]) => {
+        setCues([...restored].sort((a, b) => a.start - b.start));
+    };
+
+    return {
+        cues,
+        importError,
+        importFile,
+        clearCues,
+        downloadFile,
+        restoreCues,
+    };
+};
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import type { TextOverlay } from '../../types';
+import { MAX_TEXT_OVERLAY_FONT_SIZE, MIN_TEXT_OVERLAY_FONT_SIZE } from '../../types';
+
+// 新增时的预设长度与样式
+const DEFAULT_OVERLAY_SECONDS = 3;
+const DEFAULT_OVERLAY: Omit<TextOverlay, 'id' | 'start' | 'end' | 'text'> = {
+    position: 'bottom',
+    fontSize: 56,
+    color: '#ffffff',
+    background: true,
+};
+// 起讫至少相隔这么久（拖曳时避免缩成 0）
+export const MIN_TEXT_OVERLAY_SECONDS = 0.2;
+
+const createOverlayId = () => `text_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const sortOverlays = (overlays: TextOverlay[]) => [...overlays].sort((a, b) => a.start - b.start);
+
+/**
+ * 文字叠加（标题、步骤说明）：
+ * - 时间用录制时间，导出时跟着片段换算（见 services/ffmpeg/textOverlays）
+ * - 跟标记一样不进撤销历史，跟剪辑专案一起保存
+ */
+export const useTextOverlays = (maxDuration: number) => {
+    const [overlays, setOverlays] = useState<TextOverlay[]>([]);
+    const [selectedOverlayId, setSelectedOverlayId] = useState<string | null>(null);
+
+    const clampOverlay = (overlay: TextOverlay): TextOverlay => {
+        const start = Math.max(0, Math.min(overlay.start, maxDuration - MIN_TEXT_OVERLAY_SECONDS));
+        const end = Math.min(maxDuration, Math.max(overlay.end, start + MIN_TEXT_OVERLAY_SECONDS));
+        const fontSize = Math.max(MIN_TEXT_OVERLAY_FONT_SIZE, Math.min(Math.round(overlay.fontSize), MAX_TEXT_OVERLAY_FONT_SIZE));
+        return { ...overlay, start, end, fontSize };
+    };
+
+    /**
+     * 在 time 新增一段文字并选取它
+     */
+    const addOverlay = (time: number, text: string) => {
+        if (!Number.isFinite(time)) return;
+        const overlay = clampOverlay({
+            ...DEFAULT_OVERLAY,
+            id: createOverlayId(),
+            text,
+            start: time,
+            end: time + DEFAULT_OVERLAY_SECONDS,
+        });
+        setOverlays((prev) => sortOverlays([...prev, overlay]));
+        setSelectedOverlayId(overlay.id);
+    };
+
+    const updateOverlay = (id: string, patch: Partial<Omit<TextOverlay, 'id'>>) => {
+        setOverlays((prev) => sortOverlays(prev.map((o) => (o.id === id ? clampOverlay({ ...o, ...patch }) : o))));
+    };
+
+    const removeOverlay = (id: string) => {
+        setOverlays((prev) => prev.filter((o) => o.id !== id));
+        setSelectedOverlayId((current) => (current === id ? null : current));
+    };
+
+    /**
+     * 从已保存的专案恢复
+     */
+    const restoreOverlays = (restored: TextOverlay[]) => {
+        setOverlays(sortOverlays(restored));
+        setSelectedOverlayId(null);
+    };
+
+    const selectedOverlay = overlays.find((o) => o.id === selectedOverlayId) ?? null;
+
+    return {
+        overlays,
+        selectedOverlay,
+        selectOverlay: setSelectedOverlayId,
+        addOverlay,
+        updateOverlay,
+        removeOverlay,
+        restoreOverlays,
+    };
+};
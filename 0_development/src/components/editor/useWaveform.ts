@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import type { WaveformData } from '../../types';
+import { waveformStorageService } from '../../services/waveformStorageService';
+import { WAVEFORM_VERSION, computeWaveform } from '../../utils/waveform';
+
+interface UseWaveformArgs {
+    /** 没有 id 时照样计算，只是不快取 */
+    recordingId?: string;
+    blob: Blob;
+}
+
+/**
+ * 录制的音频波形：
+ * - 先读 IndexedDB 快取；没有（或版本过旧）才解码计算，算完写回快取
+ */
+export const useWaveform = ({ recordingId, blob }: UseWaveformArgs) => {
+    const [waveform, setWaveform] = useState<WaveformData | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        const controller = new AbortController();
+
+        const load = async () => {
+            if (recordingId) {
+                const cached = await waveformStorageService.loadWaveform(recordingId);
+                if (controller.signal.aborted) return;
+                if (cached && cached.version === WAVEFORM_VERSION) {
+                    setWaveform(cached);
+                    return;
+                }
+            }
+
+            const computed = await computeWaveform(blob, controller.signal);
+            if (controller.signal.aborted) return;
+            setWaveform(computed);
+
+            if (recordingId) {
+                waveformStorageService.saveWaveform(recordingId, computed).catch((error) => {
+                    console.warn('Failed to cache waveform:', error);
+                });
+            }
+        };
+
+        setIsLoading(true);
+        load()
+            .catch((error) => console.error('Failed to load waveform:', error))
+            .finally(() => {
+                if (!controller.signal.aborted) setIsLoading(false);
+            });
+
+        return () => controller.abort();
+    }, [recordingId, blob]);
+
+    return { waveform, isLoading };
+};
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import type { ZoomRegion } from '../../types';
+import { MAX_ZOOM, MIN_ZOOM } from '../../types';
+
+// 新增时的预设长度与倍率
+const DEFAULT_REGION_SECONDS = 4;
+const DEFAULT_ZOOM = 2;
+// 起讫至少相隔这么久（拖曳时避免缩成 0）
+export const MIN_ZOOM_REGION_SECONDS = 0.5;
+
+const createRegionId = () => `zoom_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const sortRegions = (regions: ZoomRegion[]) => [...regions].sort((a, b) => a.start - b.start);
+
+/**
+ * 缩放区域（放大画面的某一块，Ken Burns）：
+ * - 时间用录制时间，导出时跟着片段换算（见 services/ffmpeg/zoom）
+ * - 跟文字叠加一样不进撤销历史，跟剪辑专案一起保存
+ */
+export const useZoomRegions = (maxDuration: number) => {
+    const [regions, setRegions] = useState<ZoomRegion[]>([]);
+    const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null);
+
+    const clampRegion = (region: ZoomRegion): ZoomRegion => {
+        const start = Math.max(0, Math.min(region.start, maxDuration - MIN_ZOOM_REGION_SECONDS));
+        const end = Math.min(maxDuration, Math.max(region.end, start + MIN_ZOOM_REGION_SECONDS));
+        const zoom = Math.max(MIN_ZOOM, Math.min(region.zoom, MAX_ZOOM));
+        // 目标框（1 / zoom 大小）不超出画面
+        const half = 0.5 / zoom;
+        const x = Math.max(half, Math.min(region.x, 1 - half));
+        const y = Math.max(half, Math.min(region.y, 1 - half));
+        return { ...region, start, end, zoom, x, y };
+    };
+
+    /**
+     * 在 time 新增一段缩放（放大画面中央）并选取它
+     */
+    const addRegion = (time: number) => {
+        if (!Number.isFinite(time)) return;
+        const region = clampRegion({
+            id: createRegionId(),
+            start: time,
+            end: time + DEFAULT_REGION_SECONDS,
+            zoom: DEFAULT_ZOOM,
+            x: 0.5,
+            y: 0.5,
+        });
+        setRegions((prev) => sortRegions([...prev, region]));
+        setSelectedRegionId(region.id);
+    };
+
+    const updateRegion = (id: string, patch: Partial<Omit<ZoomRegion, 'id'>>) => {
+        setRegions((prev) => sortRegions(prev.map((r) => (r.id === id ? clampRegion({ ...r, ...patch }) : r))));
+    };
+
+    const removeRegion = (id: string) => {
+        setRegions((prev) => prev.filter((r) => r.id !== id));
+        setSelectedRegionId((current) => (current === id ? null : current));
+    };
+
+    /**
+     * 从已保存的专案恢复
+     */
+    const restoreRegions = (restored: ZoomRegion[]) => {
+        setRegions(sortRegions(restored));
+        setSelectedRegionId(null);
+    };
+
+    const selectedRegion = regions.find((r) => r.id === selectedRegionId) ?? null;
+
+    return {
+        regions,
+        selectedRegion,
+        selectRegion: setSelectedRegionId,
+        addRegion,
+        updateRegion,
+        removeRegion,
+        restoreRegions,
+    };
+};
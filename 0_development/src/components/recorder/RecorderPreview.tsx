@@ -1,7 +1,7 @@
 import React from 'react';
 import { Button } from '../Button';
 import { AudioLevelMeter } from '../AudioLevelMeter';
-import { Monitor, StopCircle, Mic, Pause, Play, GripVertical } from 'lucide-react';
+import { Monitor, StopCircle, Mic, Pause, Play, GripVertical, Bookmark } from 'lucide-react';
 import { useI18n } from '../../i18n';
 
 interface RecorderPreviewProps {
@@ -10,6 +10,8 @@ interface RecorderPreviewProps {
     isRecording: boolean;
     isPaused: boolean;
     recordingTimeLabel: string;
+    /** 錄製中已打的標記數 */
+    liveMarkerCount: number;
 
     activeStream: MediaStream | null;
     micStream: MediaStream | null;
@@ -18,6 +20,7 @@ interface RecorderPreviewProps {
 
     onPauseResume: () => void;
     onStop: () => void;
+    onAddMarker: () => void;
     onCyclePipPosition: () => void;
 }
 
@@ -26,11 +29,13 @@ export const RecorderPreview: React.FC<RecorderPreviewProps> = ({
     isRecording,
     isPaused,
     recordingTimeLabel,
+    liveMarkerCount,
     activeStream,
     micStream,
     enableCam,
     onPauseResume,
     onStop,
+    onAddMarker,
     onCyclePipPosition,
 }) => {
     const { t } = useI18n();
@@ -103,6 +108,22 @@ export const RecorderPreview: React.FC<RecorderPreviewProps> = ({
                                         {isPaused ? t('preview.resume') : t('preview.pause')}
                                     </Button>
 
+                                    <Button
+                                        variant="secondary"
+                                        onClick={onAddMarker}
+                                        disabled={!isRecording}
+                                        className="px-3"
+                                        title={`${t('preview.addMarker')} (M)`}
+                                    >
+                                        <Bookmark size={18} />
+                                        {t('preview.marker')}
+                                        {liveMarkerCount > 0 && (
+                                            <span className="ml-1 min-w-[1.25rem] px-1 rounded-full bg-blue-500/30 text-blue-100 text-[10px] font-mono">
+                                                {liveMarkerCount}
+                                            </span>
+                                        )}
+                                    </Button>
+
                                     {enableCam && (
                                         <Button
                                             variant="secondary"
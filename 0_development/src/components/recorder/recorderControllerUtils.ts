@@ -32,6 +32,15 @@ export const getChosenRecordingPreset = (
     };
 };
 
+/**
+ * 合併「已寫入 IndexedDB」與「仍在記憶體（寫入失敗）」的 chunk，依 index 排序
+ */
+export const mergeRecordingChunks = (persisted: Map<number, Blob>, inMemory: Map<number, Blob>): Blob[] => {
+    const merged = new Map(persisted);
+    inMemory.forEach((blob, index) => merged.set(index, blob));
+    return [...merged.entries()].sort((a, b) => a[0] - b[0]).map(([, blob]) => blob);
+};
+
 /**
  * 安全停止所有 track，避免錄影停止後還佔用裝置/CPU
  */
@@ -1,11 +1,15 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import type { StreamCompositor } from '../../utils/StreamCompositor';
-import { PIPPosition, RecordingQuality } from '../../types';
+import { PIPPosition, RecordingCompleteDetails, RecordingQuality } from '../../types';
 import { useI18n } from '../../i18n';
-import { closeAudioMix, createFinalStream, formatRecordingTimeLabel, getChosenRecordingPreset, stopTracks, type AudioMix } from './recorderControllerUtils';
+import { recordingSessionService } from '../../services/recordingSessionService';
+import { closeAudioMix, createFinalStream, formatRecordingTimeLabel, getChosenRecordingPreset, mergeRecordingChunks, stopTracks, type AudioMix } from './recorderControllerUtils';
+
+// 連按時（這個間隔內）不重複打標記
+const LIVE_MARKER_DEDUPE_SECONDS = 0.5;
 
 interface UseRecorderControllerArgs {
-    onRecordingComplete: (blob: Blob, duration: number) => void;
+    onRecordingComplete: (blob: Blob, duration: number, details: RecordingCompleteDetails) => void;
     onError: (msg: string) => void;
 }
 
@@ -15,6 +19,8 @@ export const useRecorderController = ({ onRecordingComplete, onError }: UseRecor
     const [isPaused, setIsPaused] = useState(false);
     const [isPreparing, setIsPreparing] = useState(false);
     const [recordingTime, setRecordingTime] = useState(0);
+    // 錄製中打的標記（秒，已扣除暫停）
+    const [liveMarkers, setLiveMarkers] = useState<number[]>([]);
 
     // Settings
     const [enableMic, setEnableMic] = useState(false);
@@ -29,7 +35,12 @@ export const useRecorderController = ({ onRecordingComplete, onError }: UseRecor
     const mediaRecorderRef = useRef<MediaRecorder | null>(null);
     const compositorRef = useRef<StreamCompositor | null>(null);
     const audioMixRef = useRef<AudioMix | null>(null);
-    const chunksRef = useRef<Blob[]>([]);
+    // 尚未確認寫入 IndexedDB 的 chunk（寫入成功後移除，釋放記憶體）
+    const pendingChunksRef = useRef<Map<number, Blob>>(new Map());
+    const chunkIndexRef = useRef(0);
+    const sessionIdRef = useRef<string | null>(null);
+    // chunk 依序寫入（避免並行 transaction 打亂順序）
+    const persistQueueRef = useRef<Promise<void>>(Promise.resolve());
     const hasFinalizedRef = useRef(false);
     const startTimeRef = useRef<number>(0);
     const pausedTimeRef = useRef<number>(0);
@@ -37,18 +48,25 @@ export const useRecorderController = ({ onRecordingComplete, onError }: UseRecor
     const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
     // 用 ref 記住「真正正在跑的 stream」，避免 closure 讀到舊 state 導致 stop 不完整
     const activeStreamRef = useRef<MediaStream | null>(null);
+    // finalize 時讀最新的標記（onstop closure 建立於開始錄製時）
+    const liveMarkersRef = useRef<number[]>([]);
 
     // Streams
     const [activeStream, setActiveStream] = useState<MediaStream | null>(null);
     const [micStream, setMicStream] = useState<MediaStream | null>(null);
 
+    // 已錄製時間（秒，扣除暫停）
+    const getElapsedSeconds = () => {
+        const paused = pauseStartedRef.current ? (Date.now() - pauseStartedRef.current) : 0;
+        const elapsed = (Date.now() - startTimeRef.current - pausedTimeRef.current - paused) / 1000;
+        return Math.max(elapsed, 0);
+    };
+
     // Recording timer
     useEffect(() => {
         if (isRecording && !isPaused) {
             timerRef.current = setInterval(() => {
-                const paused = pauseStartedRef.current ? (Date.now() - pauseStartedRef.current) : 0;
-                const elapsed = (Date.now() - startTimeRef.current - pausedTimeRef.current - paused) / 1000;
-                setRecordingTime(Math.max(elapsed, 0));
+                setRecordingTime(getElapsedSeconds());
             }, 200);
         } else if (timerRef.current) {
             clearInterval(timerRef.current);
@@ -64,6 +82,27 @@ export const useRecorderController = ({ onRecordingComplete, onError }: UseRecor
         audioMixRef.current = null;
     };
 
+    /**
+     * 在目前的錄製時間打一個標記（暫停中也可以，落在暫停的那一格）
+     */
+    const addLiveMarker = useCallback(() => {
+        if (!mediaRecorderRef.current || mediaRecorderRef.current.state === 'inactive') return;
+        const time = getElapsedSeconds();
+        const prev = liveMarkersRef.current;
+        if (prev.some((t) => Math.abs(t - time) < LIVE_MARKER_DEDUPE_SECONDS)) return;
+
+        const next = [...prev, time].sort((a, b) => a - b);
+        liveMarkersRef.current = next;
+        setLiveMarkers(next);
+
+        const sessionId = sessionIdRef.current;
+        if (sessionId) {
+            recordingSessionService.saveMarkers(sessionId, next).catch((persistError) => {
+                console.warn('Failed to persist live markers.', persistError);
+            });
+        }
+    }, []);
+
     const stopAction = useCallback(() => {
         const mr = mediaRecorderRef.current;
         if (mr && mr.state !== 'inactive') {
@@ -130,16 +169,57 @@ export const useRecorderController = ({ onRecordingComplete, onError }: UseRecor
             });
 
             mediaRecorderRef.current = mediaRecorder;
-            chunksRef.current = [];
+            pendingChunksRef.current = new Map();
+            chunkIndexRef.current = 0;
+            persistQueueRef.current = Promise.resolve();
             hasFinalizedRef.current = false;
+            liveMarkersRef.current = [];
+            setLiveMarkers([]);
+
+            // 崩潰保護：每個 chunk 即時寫入 IndexedDB（失敗時仍保留在記憶體）
+            sessionIdRef.current = null;
+            try {
+                sessionIdRef.current = await recordingSessionService.startSession(mimeType);
+            } catch (sessionError) {
+                console.warn('Failed to start recording session; chunks stay in memory only.', sessionError);
+            }
 
             mediaRecorder.ondataavailable = (event) => {
-                if (event.data && event.data.size > 0) {
-                    chunksRef.current.push(event.data);
+                if (!event.data || event.data.size === 0) return;
+
+                const index = chunkIndexRef.current++;
+                const chunk = event.data;
+                pendingChunksRef.current.set(index, chunk);
+
+                const sessionId = sessionIdRef.current;
+                if (!sessionId) return;
+                const duration = getElapsedSeconds();
+                persistQueueRef.current = persistQueueRef.current
+                    .then(() => recordingSessionService.appendChunk(sessionId, index, chunk, duration))
+                    .then(() => {
+                        pendingChunksRef.current.delete(index);
+                    })
+                    .catch((persistError) => {
+                        console.warn('Failed to persist recording chunk; keeping it in memory.', persistError);
+                    });
+            };
+
+            // 從 IndexedDB 讀回已寫入的 chunk，再補上記憶體中的（寫入失敗的）
+            const buildRecordingBlob = async () => {
+                await persistQueueRef.current;
+                const sessionId = sessionIdRef.current;
+                let persisted = new Map<number, Blob>();
+                if (sessionId) {
+                    try {
+                        persisted = await recordingSessionService.loadChunks(sessionId);
+                    } catch (loadError) {
+                        console.warn('Failed to read recording chunks back from IndexedDB.', loadError);
+                    }
                 }
+                return new Blob(mergeRecordingChunks(persisted, pendingChunksRef.current), { type: 'video/webm' });
             };
 
-            const finalizeRecording = () => {
+            const finalizeRecording = async () => {
                 if (hasFinalizedRef.current) return;
                 hasFinalizedRef.current = true;
 
@@ -154,9 +234,15 @@ export const useRecorderController = ({ onRecordingComplete, onError }: UseRecor
                     0
                 );
 
-                const fullBlob = new Blob(chunksRef.current, { type: 'video/webm' });
+                const fullBlob = await buildRecordingBlob();
+                const sessionId = sessionIdRef.current ?? undefined;
+                const markers = liveMarkersRef.current.filter((time) => time < durationInSeconds);
+                pendingChunksRef.current = new Map();
+                liveMarkersRef.current = [];
+                setLiveMarkers([]);
 
                 if (!fullBlob.size) {
+                    if (sessionId) recordingSessionService.discardSession(sessionId).catch(() => undefined);
                     setIsRecording(false);
                     setIsPaused(false);
                     setActiveStream(null);
@@ -182,7 +268,7 @@ export const useRecorderController = ({ onRecordingComplete, onError }: UseRecor
                 setActiveStream(null);
                 setMicStream(null);
                 setRecordingTime(0);
-                onRecordingComplete(fullBlob, durationInSeconds);
+                onRecordingComplete(fullBlob, durationInSeconds, { sessionId, markers });
             };
 
             mediaRecorder.onstop = () => {
@@ -242,6 +328,28 @@ export const useRecorderController = ({ onRecordingComplete, onError }: UseRecor
         }
     };
 
+    // 快捷鍵：錄製中按 M 打標記（輸入框內不觸發）
+    useEffect(() => {
+        if (!isRecording) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+            if (e.key !== 'm' && e.key !== 'M') return;
+            if (
+                e.target instanceof HTMLInputElement ||
+                e.target instanceof HTMLTextAreaElement ||
+                e.target instanceof HTMLSelectElement
+            ) {
+                return;
+            }
+            e.preventDefault();
+            addLiveMarker();
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isRecording, addLiveMarker]);
+
     // Update Preview element srcObject
     useEffect(() => {
         if (videoRef.current && activeStream) {
@@ -267,6 +375,7 @@ export const useRecorderController = ({ onRecordingComplete, onError }: UseRecor
         isPreparing,
         recordingTime,
         recordingTimeLabel: formatRecordingTimeLabel(recordingTime),
+        liveMarkerCount: liveMarkers.length,
 
         // Settings state + setters
         enableMic,
@@ -293,5 +402,6 @@ export const useRecorderController = ({ onRecordingComplete, onError }: UseRecor
         startRecording,
         stopAction,
         pauseResume,
+        addLiveMarker,
     };
 };
@@ -18,7 +18,13 @@ const en: TranslationTable = {
     'app.error.invalidDuration': 'Invalid recording duration detected.',
     'app.error.invalid': 'Recording looks invalid. Please try capturing again.',
     'app.error.finalize': 'Failed to finish processing the recording. Please try again.',
+    'app.error.openFailed': 'Could not open this recording. It may have been deleted.',
     'app.loading': 'Loading...',
+    'app.recovery.title': 'An interrupted recording was found',
+    'app.recovery.detail': 'Started {{date}} • {{duration}} captured before the page closed.',
+    'app.recovery.recover': 'Recover',
+    'app.recovery.discard': 'Discard',
+    'app.recovery.failed': 'Could not recover the interrupted recording.',
 
     'ffmpeg.idle': 'Engine Idle',
     'ffmpeg.loading': 'Loading Engine...',
@@ -66,8 +72,10 @@ const en: TranslationTable = {
     'preview.pause': 'Pause',
     'preview.changePosition': 'Change camera position',
     'preview.stop': 'Stop',
+    'preview.marker': 'Mark',
+    'preview.addMarker': 'Mark this moment',
     'preview.footer.paused': 'Recording paused. Click Resume to continue.',
-    'preview.footer.recording': 'Recording in progress.',
+    'preview.footer.recording': 'Recording in progress. Press M to mark a moment for the editor.',
     'preview.footer.tip': "Pro Tip: Select 'Entire Screen' to capture system audio.",
 
     'recorder.errors.empty': 'Recording appears to be empty. Please keep the capture running for a moment before stopping.',
@@ -93,6 +101,7 @@ const en: TranslationTable = {
     'editor.trim.removeHint': 'Select the unwanted middle range, then Delete it. You can Undo.',
     'editor.trim.removeNoOverlap': 'Selected range is outside kept segments (nothing to delete).',
     'editor.trim.undo': 'Undo',
+    'editor.trim.redo': 'Redo',
     'editor.trim.deleteRange': 'Delete range',
     'editor.trim.deleteDuration': 'Delete duration',
     'editor.trim.start': 'Start',
@@ -101,6 +110,7 @@ const en: TranslationTable = {
     'editor.trim.splitAtPlayhead': 'Split at playhead',
     'editor.trim.deleteSelection': 'Delete selection',
     'editor.trim.deleteSegment': 'Delete segment',
+    'editor.trim.duplicateSegment': 'Duplicate segment',
     'editor.trim.reset': 'Reset Trim',
     'editor.trim.legend.keep': 'Kept',
     'editor.trim.legend.deleted': 'Deleted',
@@ -118,15 +128,29 @@ const en: TranslationTable = {
     'editor.export.quickHint': 'Quick high quality: CRF 20 / 60fps / Original',
     'editor.export.quickButton': 'Apply preset',
     'editor.export.estimated': 'Estimated size',
+    'editor.export.estimateUnavailable': 'Varies with content',
+    'editor.export.animation.width': 'Width (px)',
+    'editor.export.animation.widthHint': 'Height follows the video aspect ratio.',
+    'editor.export.animation.fpsHint': 'Lower frame rates keep animated images small.',
+    'editor.export.animation.loop': 'Loop forever',
     'editor.export.quality': 'Quality',
     'editor.export.crf': 'CRF (18-23 recommended)',
     'editor.export.crfHint': 'Lower is clearer, but larger files.',
     'editor.export.resolution': 'Resolution',
     'editor.export.resolutionOriginal': 'Original',
+    'editor.export.resolutionHint': 'Presets set the short side; the long side follows the (cropped) aspect ratio, so nothing is padded.',
     'editor.export.frameRate': 'Frame Rate',
     'editor.export.frameRateHint': 'Higher frame rates are smoother but slower to process.',
     'editor.export.format': 'Format',
+    'editor.export.formatGroup.video': 'Video',
+    'editor.export.formatGroup.animated': 'Animated image',
+    'editor.export.formatGroup.audio': 'Audio only',
+    'editor.export.audio.bitrateHint': 'Audio only, {{bitrate}} (bitrate follows the quality preset).',
+    'editor.export.audio.wavHint': 'Audio only, uncompressed 16-bit PCM.',
+    'editor.export.noAudioTrack': 'This recording has no audio track, so it cannot be exported as audio.',
     'editor.export.processing': 'Processing...',
+    'editor.export.cancel': 'Cancel',
+    'editor.export.cancelling': 'Cancelling...',
     'editor.export.eta': 'ETA',
     'editor.export.etaEstimating': 'estimating...',
     'editor.export.ready': 'Export ready',
@@ -136,6 +160,40 @@ const en: TranslationTable = {
     'editor.export.exportFull': 'Export Full Video (No Trim)',
     'editor.export.playbackIssue': 'Fix playback issue by recording again.',
     'editor.export.failed': 'Failed to export video. Please check console.',
+    'editor.export.fast.label': 'Fast export (no re-encode)',
+    'editor.export.fast.short': 'Fast',
+    'editor.export.fast.hint': 'Copies the original WebM streams without re-encoding. Quality and resolution stay as recorded; cut points snap to the nearest following keyframe.',
+    'editor.export.fast.unavailable': 'Only available for WebM recordings.',
+    'editor.export.fast.effectsUnavailable': 'Not available while segments have speed changes or transitions, or the video has text, subtitles, a crop or zoom.',
+    'editor.export.fast.snapped': '{{count}} cut point(s) moved to keyframes (up to {{shift}}s).',
+    'editor.export.fast.dropped': '{{count}} segment(s) were shorter than the keyframe spacing and were skipped.',
+    'editor.export.chapters.title': 'Chapters',
+    'editor.export.chapters.source.none': 'None',
+    'editor.export.chapters.source.markers': 'Markers',
+    'editor.export.chapters.source.segments': 'Segments',
+    'editor.export.chapters.noneHint': 'No chapters are embedded.',
+    'editor.export.chapters.hint': '{{count}} marker(s) become chapters (markers in removed ranges are skipped).',
+    'editor.export.chapters.noMarkers': 'No markers yet. Press M on the timeline to add one.',
+    'editor.export.chapters.segmentsHint': 'Each of the {{count}} kept segment(s) becomes a chapter.',
+    'editor.export.chapters.segmentTitle': 'Part {{index}}',
+    'editor.export.metadata.title': 'Metadata',
+    'editor.export.metadata.titlePlaceholder': 'Title',
+    'editor.export.metadata.authorPlaceholder': 'Author',
+    'editor.export.metadata.descriptionPlaceholder': 'Description',
+    'editor.export.metadata.hint': 'Written into the MP4 / WebM file; empty fields are skipped.',
+    'editor.export.queue.title': 'Export queue ({{count}})',
+    'editor.export.queue.add': 'Add current settings',
+    'editor.export.queue.empty': 'Add several presets of this cut and render them in one batch.',
+    'editor.export.queue.clear': 'Clear',
+    'editor.export.queue.remove': 'Remove from queue',
+    'editor.export.queue.full': 'Full',
+    'editor.export.queue.run': 'Render queue ({{count}})',
+    'editor.export.queue.cancel': 'Cancel queue',
+    'editor.export.queue.status.queued': 'Queued',
+    'editor.export.queue.status.running': 'Rendering',
+    'editor.export.queue.status.done': 'Done',
+    'editor.export.queue.status.failed': 'Failed',
+    'editor.export.queue.status.cancelled': 'Cancelled',
 
     'quality.low.label': 'Low (Fast)',
     'quality.low.description': 'Smaller file size, faster processing',
@@ -164,6 +222,134 @@ const en: TranslationTable = {
     'editor.library.segments': 'Segments',
     'editor.library.selectedDuration': 'Selected',
     'editor.library.hint': 'Drag media to timeline (coming soon)',
+    'editor.library.recordings': 'Recordings',
+    'editor.library.empty': 'No saved recordings yet.',
+    'editor.library.open': 'Open in editor',
+    'editor.library.current': 'Currently open',
+    'editor.library.rename': 'Rename',
+    'editor.library.delete': 'Delete recording',
+    'editor.library.deleteConfirm': 'Confirm delete',
+    'editor.library.addTag': 'Add tag',
+    'editor.analysis.title': 'Analysis',
+    'editor.silence.title': 'Silence detection',
+    'editor.silence.threshold': 'Threshold',
+    'editor.silence.minDuration': 'Minimum duration',
+    'editor.silence.padding': 'Padding',
+    'editor.silence.detect': 'Detect silences',
+    'editor.silence.found': '{{count}} silent range(s), {{duration}} in total',
+    'editor.silence.none': 'No silences found with these settings.',
+    'editor.silence.apply': 'Remove silences',
+    'editor.silence.clear': 'Clear',
+    'editor.silence.waitingAudio': 'Analyzing audio…',
+    'editor.silence.noAudio': 'This recording has no audio track.',
+    'editor.scenes.title': 'Scene changes',
+    'editor.scenes.threshold': 'Sensitivity threshold',
+    'editor.scenes.thresholdHint': 'Lower finds more (smaller) changes.',
+    'editor.scenes.detect': 'Detect scene changes',
+    'editor.scenes.detecting': 'Analyzing video…',
+    'editor.scenes.cancel': 'Cancel',
+    'editor.scenes.found': '{{count}} suggested split point(s)',
+    'editor.scenes.none': 'No scene changes above this threshold.',
+    'editor.scenes.apply': 'Split at all suggestions',
+    'editor.scenes.clear': 'Clear',
+    'editor.scenes.failed': 'Scene detection failed: {{error}}',
+    'editor.markers.title': 'Markers',
+    'editor.markers.add': 'Add marker at playhead',
+    'editor.markers.previous': 'Previous marker',
+    'editor.markers.next': 'Next marker',
+    'editor.markers.empty': 'Press M to mark the current moment.',
+    'editor.markers.untitled': 'Marker {{index}}',
+    'editor.markers.color': 'Change color',
+    'editor.markers.jump': 'Jump to marker',
+    'editor.markers.remove': 'Remove marker',
+    'editor.sequence.title': 'Order',
+    'editor.sequence.hint': 'Drag clips to change the order they play and export in',
+    'editor.history.title': 'History',
+    'editor.history.segments': '{{count}} seg.',
+    'editor.history.action.initial': 'Original',
+    'editor.history.action.split': 'Split',
+    'editor.history.action.delete': 'Delete',
+    'editor.history.action.removeRange': 'Remove range',
+    'editor.history.action.trim': 'Trim',
+    'editor.history.action.reorder': 'Reorder',
+    'editor.history.action.duplicate': 'Duplicate',
+    'editor.history.action.speed': 'Speed',
+    'editor.history.action.transition': 'Transition',
+    'editor.history.action.reset': 'Reset',
+    'editor.history.action.edit': 'Edit',
+    'editor.clip.title': 'Clip #{{index}}',
+    'editor.clip.speed': 'Speed',
+    'editor.clip.outputDuration': '{{duration}} in the export',
+    'editor.clip.muted': 'audio muted',
+    'editor.transition.title': 'Transition #{{from}} → #{{to}}',
+    'editor.transition.add': 'Add transition',
+    'editor.transition.close': 'Close',
+    'editor.textOverlay.title': 'Text',
+    'editor.textOverlay.add': 'Add text at playhead',
+    'editor.textOverlay.defaultText': 'Title',
+    'editor.textOverlay.empty': '(empty)',
+    'editor.textOverlay.placeholder': 'Text shown on the video…',
+    'editor.textOverlay.trackHint': 'Drag a text bar to move it; drag its edges to change when it shows',
+    'editor.textOverlay.start': 'Start (s)',
+    'editor.textOverlay.end': 'End (s)',
+    'editor.textOverlay.setToPlayhead': 'Set to playhead',
+    'editor.textOverlay.position': 'Position',
+    'editor.textOverlay.positions.top-left': 'Top left',
+    'editor.textOverlay.positions.top': 'Top',
+    'editor.textOverlay.positions.top-right': 'Top right',
+    'editor.textOverlay.positions.left': 'Left',
+    'editor.textOverlay.positions.center': 'Center',
+    'editor.textOverlay.positions.right': 'Right',
+    'editor.textOverlay.positions.bottom-left': 'Bottom left',
+    'editor.textOverlay.positions.bottom': 'Bottom',
+    'editor.textOverlay.positions.bottom-right': 'Bottom right',
+    'editor.textOverlay.fontSize': 'Size',
+    'editor.textOverlay.background': 'Background box',
+    'editor.textOverlay.customColor': 'Custom color',
+    'editor.textOverlay.remove': 'Delete text',
+    'editor.textOverlay.close': 'Close',
+    'editor.subtitles.title': 'Subtitles',
+    'editor.subtitles.import': 'Import SRT / VTT (replaces current subtitles)',
+    'editor.subtitles.importFailed': 'No subtitles found in that file. Is it SRT or WebVTT?',
+    'editor.subtitles.empty': 'No subtitles. Import an SRT or VTT file.',
+    'editor.subtitles.count': '{{count}} cues',
+    'editor.subtitles.download': 'Download {{format}} timed to the edited video',
+    'editor.subtitles.clear': 'Remove subtitles',
+    'editor.crop.title': 'Crop',
+    'editor.crop.none': 'Full frame',
+    'editor.crop.free': 'Free',
+    'editor.crop.edit': 'Adjust on video',
+    'editor.crop.done': 'Done',
+    'editor.crop.reset': 'Remove crop',
+    'editor.crop.hint': 'Drag the box on the video to move it, or its corners to resize. Only the inside is exported.',
+    'editor.crop.aspects.free': 'Any shape',
+    'editor.crop.aspects.16:9': 'Widescreen 16:9',
+    'editor.crop.aspects.9:16': 'Vertical 9:16 (Shorts, Reels, TikTok)',
+    'editor.crop.aspects.1:1': 'Square 1:1',
+    'editor.crop.aspects.4:5': 'Portrait 4:5',
+    'editor.zoom.title': 'Zoom',
+    'editor.zoom.add': 'Add zoom at playhead',
+    'editor.zoom.trackHint': 'Drag a zoom bar to move it; drag its edges to change when it zooms',
+    'editor.zoom.start': 'Start (s)',
+    'editor.zoom.end': 'End (s)',
+    'editor.zoom.setToPlayhead': 'Set to playhead',
+    'editor.zoom.amount': 'Magnification',
+    'editor.zoom.hint': 'Drag the dashed box on the video to choose what to zoom into. The zoom eases in and out at both ends.',
+    'editor.zoom.remove': 'Delete zoom',
+    'editor.zoom.close': 'Close',
+    'editor.export.subtitles.title': 'Subtitles',
+    'editor.export.subtitles.mode.none': 'None',
+    'editor.export.subtitles.mode.soft': 'Track',
+    'editor.export.subtitles.mode.burn': 'Burn in',
+    'editor.export.subtitles.hint.none': 'Subtitles are left out of the export.',
+    'editor.export.subtitles.hint.soft': '{{count}} cues as a subtitle track viewers can turn on and off.',
+    'editor.export.subtitles.hint.burn': '{{count}} cues drawn into the picture.',
+    'editor.export.subtitles.noCues': 'Import subtitles from the library panel to include them.',
+    'editor.export.subtitles.trackUnavailable': 'Animated images have no subtitle track. Choose Burn in to draw the cues into the frames.',
+    'editor.transition.type.cut': 'Cut',
+    'editor.transition.type.crossfade': 'Crossfade',
+    'editor.transition.type.dipToBlack': 'Dip to black',
+    'editor.transition.type.audioFade': 'Audio fade',
 };
 
 export default en;
@@ -18,7 +18,13 @@ const zh: TranslationTable = {
     'app.error.invalidDuration': '检测到无效的录制时长。',
     'app.error.invalid': '录制看起来异常，请重试。',
     'app.error.finalize': '录制处理失败，请重试。',
+    'app.error.openFailed': '无法打开该录制，可能已被删除。',
     'app.loading': '加载中...',
+    'app.recovery.title': '发现一段中断的录制',
+    'app.recovery.detail': '开始于 {{date}} • 页面关闭前已录制 {{duration}}。',
+    'app.recovery.recover': '恢复',
+    'app.recovery.discard': '丢弃',
+    'app.recovery.failed': '无法恢复中断的录制。',
 
     'ffmpeg.idle': '引擎空闲',
     'ffmpeg.loading': '正在加载引擎...',
@@ -66,8 +72,10 @@ const zh: TranslationTable = {
     'preview.pause': '暂停',
     'preview.changePosition': '切换摄像头位置',
     'preview.stop': '停止',
+    'preview.marker': '标记',
+    'preview.addMarker': '标记这个时刻',
     'preview.footer.paused': '录制已暂停，点击继续即可恢复。',
-    'preview.footer.recording': '正在录制。',
+    'preview.footer.recording': '正在录制。按 M 可标记当前时刻，剪辑时会出现在时间轴上。',
     'preview.footer.tip': "小贴士：选择“Entire Screen”可以录到系统音频。",
 
     'recorder.errors.empty': '录制为空，请稍等片刻再停止。',
@@ -93,6 +101,7 @@ const zh: TranslationTable = {
     'editor.trim.removeHint': '选择不需要的区间，然后删除；支持撤销。',
     'editor.trim.removeNoOverlap': '所选区间不在已保留片段中（无需删除）。',
     'editor.trim.undo': '撤销',
+    'editor.trim.redo': '重做',
     'editor.trim.deleteRange': '删除区间',
     'editor.trim.deleteDuration': '删除时长',
     'editor.trim.start': '开始',
@@ -101,6 +110,7 @@ const zh: TranslationTable = {
     'editor.trim.splitAtPlayhead': '在当前时间分割',
     'editor.trim.deleteSelection': '删除所选区间',
     'editor.trim.deleteSegment': '删除片段',
+    'editor.trim.duplicateSegment': '复制片段',
     'editor.trim.reset': '重置裁剪',
     'editor.trim.legend.keep': '保留',
     'editor.trim.legend.deleted': '已删除',
@@ -118,15 +128,29 @@ const zh: TranslationTable = {
     'editor.export.quickHint': '高质快捷：CRF 20 / 60fps / 原始分辨率',
     'editor.export.quickButton': '一键应用',
     'editor.export.estimated': '预计大小',
+    'editor.export.estimateUnavailable': '视内容而定',
+    'editor.export.animation.width': '宽度（px）',
+    'editor.export.animation.widthHint': '高度依视频比例自动计算。',
+    'editor.export.animation.fpsHint': '较低的帧率能让动图更小。',
+    'editor.export.animation.loop': '无限循环',
     'editor.export.quality': '质量',
     'editor.export.crf': 'CRF（18-23 推荐）',
     'editor.export.crfHint': '数值越低越清晰，文件越大。',
     'editor.export.resolution': '分辨率',
     'editor.export.resolutionOriginal': '原始分辨率',
+    'editor.export.resolutionHint': '预设决定短边，长边跟着（裁切后的）画面比例，不会补黑边。',
     'editor.export.frameRate': '帧率',
     'editor.export.frameRateHint': '更高帧率更流畅，但处理更慢。',
     'editor.export.format': '格式',
+    'editor.export.formatGroup.video': '视频',
+    'editor.export.formatGroup.animated': '动图',
+    'editor.export.formatGroup.audio': '纯音频',
+    'editor.export.audio.bitrateHint': '仅导出音频，{{bitrate}}（码率依画质预设）。',
+    'editor.export.audio.wavHint': '仅导出音频，无压缩 16-bit PCM。',
+    'editor.export.noAudioTrack': '这段录制没有音轨，无法导出为音频。',
     'editor.export.processing': '正在处理...',
+    'editor.export.cancel': '取消',
+    'editor.export.cancelling': '正在取消...',
     'editor.export.eta': '预计剩余',
     'editor.export.etaEstimating': '估算中...',
     'editor.export.ready': '导出就绪',
@@ -136,6 +160,40 @@ const zh: TranslationTable = {
     'editor.export.exportFull': '导出完整视频（不裁剪）',
     'editor.export.playbackIssue': '请重新录制以修复播放问题。',
     'editor.export.failed': '导出失败，请查看控制台。',
+    'editor.export.fast.label': '快速导出（不重新编码）',
+    'editor.export.fast.short': '快速',
+    'editor.export.fast.hint': '直接复制原始 WebM 串流，不重新编码。画质与分辨率维持原样；切点会移到其后最近的关键帧。',
+    'editor.export.fast.unavailable': '仅适用于 WebM 录制。',
+    'editor.export.fast.effectsUnavailable': '有片段变速、转场、文字叠加、字幕、裁切或缩放时无法使用。',
+    'editor.export.fast.snapped': '{{count}} 个切点已移到关键帧（最多 {{shift}} 秒）。',
+    'editor.export.fast.dropped': '{{count}} 个片段短于关键帧间距，已略过。',
+    'editor.export.chapters.title': '章节',
+    'editor.export.chapters.source.none': '无',
+    'editor.export.chapters.source.markers': '标记',
+    'editor.export.chapters.source.segments': '片段',
+    'editor.export.chapters.noneHint': '不写入章节。',
+    'editor.export.chapters.hint': '{{count}} 个标记会成为章节（位于已删除区间的标记会略过）。',
+    'editor.export.chapters.noMarkers': '还没有标记。在时间轴上按 M 即可新增。',
+    'editor.export.chapters.segmentsHint': '保留的 {{count}} 个片段各自成为一个章节。',
+    'editor.export.chapters.segmentTitle': '第 {{index}} 段',
+    'editor.export.metadata.title': '元数据',
+    'editor.export.metadata.titlePlaceholder': '标题',
+    'editor.export.metadata.authorPlaceholder': '作者',
+    'editor.export.metadata.descriptionPlaceholder': '描述',
+    'editor.export.metadata.hint': '写入 MP4 / WebM 文件；留空的字段会略过。',
+    'editor.export.queue.title': '导出队列（{{count}}）',
+    'editor.export.queue.add': '加入当前设置',
+    'editor.export.queue.empty': '把同一段剪辑加入多组预设，一次依序导出。',
+    'editor.export.queue.clear': '清空',
+    'editor.export.queue.remove': '从队列移除',
+    'editor.export.queue.full': '完整',
+    'editor.export.queue.run': '开始导出队列（{{count}}）',
+    'editor.export.queue.cancel': '取消队列',
+    'editor.export.queue.status.queued': '等待中',
+    'editor.export.queue.status.running': '导出中',
+    'editor.export.queue.status.done': '完成',
+    'editor.export.queue.status.failed': '失败',
+    'editor.export.queue.status.cancelled': '已取消',
 
     'quality.low.label': '低（快速）',
     'quality.low.description': '文件更小，处理更快',
@@ -164,6 +222,134 @@ const zh: TranslationTable = {
     'editor.library.segments': '片段数',
     'editor.library.selectedDuration': '已选时长',
     'editor.library.hint': '拖拽素材到时间轴 (即将推出)',
+    'editor.library.recordings': '录制列表',
+    'editor.library.empty': '还没有保存的录制。',
+    'editor.library.open': '在编辑器中打开',
+    'editor.library.current': '当前打开',
+    'editor.library.rename': '重命名',
+    'editor.library.delete': '删除录制',
+    'editor.library.deleteConfirm': '确认删除',
+    'editor.library.addTag': '添加标签',
+    'editor.analysis.title': '分析',
+    'editor.silence.title': '静音检测',
+    'editor.silence.threshold': '门槛',
+    'editor.silence.minDuration': '最短时长',
+    'editor.silence.padding': '留白',
+    'editor.silence.detect': '检测静音',
+    'editor.silence.found': '找到 {{count}} 段静音，共 {{duration}}',
+    'editor.silence.none': '此设定下没有找到静音。',
+    'editor.silence.apply': '移除静音',
+    'editor.silence.clear': '清除',
+    'editor.silence.waitingAudio': '正在分析音频…',
+    'editor.silence.noAudio': '此录制没有音轨。',
+    'editor.scenes.title': '画面切换',
+    'editor.scenes.threshold': '灵敏度门槛',
+    'editor.scenes.thresholdHint': '越低找到的变化越多（越细微）。',
+    'editor.scenes.detect': '检测画面切换',
+    'editor.scenes.detecting': '正在分析视频…',
+    'editor.scenes.cancel': '取消',
+    'editor.scenes.found': '{{count}} 个建议分割点',
+    'editor.scenes.none': '没有超过此门槛的画面切换。',
+    'editor.scenes.apply': '在所有建议点分割',
+    'editor.scenes.clear': '清除',
+    'editor.scenes.failed': '画面切换检测失败：{{error}}',
+    'editor.markers.title': '标记',
+    'editor.markers.add': '在播放头位置加标记',
+    'editor.markers.previous': '上一个标记',
+    'editor.markers.next': '下一个标记',
+    'editor.markers.empty': '按 M 标记当前时刻。',
+    'editor.markers.untitled': '标记 {{index}}',
+    'editor.markers.color': '更换颜色',
+    'editor.markers.jump': '跳到此标记',
+    'editor.markers.remove': '删除标记',
+    'editor.sequence.title': '顺序',
+    'editor.sequence.hint': '拖曳片段调整播放与导出的先后顺序',
+    'editor.history.title': '历史记录',
+    'editor.history.segments': '{{count}} 段',
+    'editor.history.action.initial': '原始',
+    'editor.history.action.split': '分割',
+    'editor.history.action.delete': '删除',
+    'editor.history.action.removeRange': '删除区间',
+    'editor.history.action.trim': '修剪',
+    'editor.history.action.reorder': '调整顺序',
+    'editor.history.action.duplicate': '复制',
+    'editor.history.action.speed': '变速',
+    'editor.history.action.transition': '转场',
+    'editor.history.action.reset': '重置',
+    'editor.history.action.edit': '编辑',
+    'editor.clip.title': '片段 #{{index}}',
+    'editor.clip.speed': '速度',
+    'editor.clip.outputDuration': '导出后 {{duration}}',
+    'editor.clip.muted': '音频静音',
+    'editor.transition.title': '转场 #{{from}} → #{{to}}',
+    'editor.transition.add': '添加转场',
+    'editor.transition.close': '关闭',
+    'editor.textOverlay.title': '文字',
+    'editor.textOverlay.add': '在播放头新增文字',
+    'editor.textOverlay.defaultText': '标题',
+    'editor.textOverlay.empty': '（空白）',
+    'editor.textOverlay.placeholder': '显示在画面上的文字…',
+    'editor.textOverlay.trackHint': '拖曳文字条移动；拖两端调整显示时间',
+    'editor.textOverlay.start': '开始（秒）',
+    'editor.textOverlay.end': '结束（秒）',
+    'editor.textOverlay.setToPlayhead': '设为播放头位置',
+    'editor.textOverlay.position': '位置',
+    'editor.textOverlay.positions.top-left': '左上',
+    'editor.textOverlay.positions.top': '上方',
+    'editor.textOverlay.positions.top-right': '右上',
+    'editor.textOverlay.positions.left': '左侧',
+    'editor.textOverlay.positions.center': '正中',
+    'editor.textOverlay.positions.right': '右侧',
+    'editor.textOverlay.positions.bottom-left': '左下',
+    'editor.textOverlay.positions.bottom': '下方',
+    'editor.textOverlay.positions.bottom-right': '右下',
+    'editor.textOverlay.fontSize': '字级',
+    'editor.textOverlay.background': '底框',
+    'editor.textOverlay.customColor': '自订颜色',
+    'editor.textOverlay.remove': '删除文字',
+    'editor.textOverlay.close': '关闭',
+    'editor.subtitles.title': '字幕',
+    'editor.subtitles.import': '汇入 SRT / VTT（取代目前的字幕）',
+    'editor.subtitles.importFailed': '档案中找不到字幕，请确认是 SRT 或 WebVTT 格式。',
+    'editor.subtitles.empty': '没有字幕。汇入 SRT 或 VTT 档。',
+    'editor.subtitles.count': '{{count}} 则字幕',
+    'editor.subtitles.download': '下载对齐剪辑后影片的 {{format}}',
+    'editor.subtitles.clear': '移除字幕',
+    'editor.crop.title': '裁切',
+    'editor.crop.none': '整个画面',
+    'editor.crop.free': '自由',
+    'editor.crop.edit': '在画面上调整',
+    'editor.crop.done': '完成',
+    'editor.crop.reset': '取消裁切',
+    'editor.crop.hint': '在影片上拖曳框来移动，拖四角调整大小。只会导出框内的画面。',
+    'editor.crop.aspects.free': '任意形状',
+    'editor.crop.aspects.16:9': '宽屏 16:9',
+    'editor.crop.aspects.9:16': '直式 9:16（Shorts、Reels、抖音）',
+    'editor.crop.aspects.1:1': '正方形 1:1',
+    'editor.crop.aspects.4:5': '直式 4:5',
+    'editor.zoom.title': '缩放',
+    'editor.zoom.add': '在播放头新增缩放',
+    'editor.zoom.trackHint': '拖曳缩放色条来移动，拖两端调整缩放的时间',
+    'editor.zoom.start': '开始（秒）',
+    'editor.zoom.end': '结束（秒）',
+    'editor.zoom.setToPlayhead': '设为播放头位置',
+    'editor.zoom.amount': '放大倍率',
+    'editor.zoom.hint': '在影片上拖曳虚线框，选择要放大的地方。开头与结尾会平滑地放大、缩回。',
+    'editor.zoom.remove': '删除缩放',
+    'editor.zoom.close': '关闭',
+    'editor.export.subtitles.title': '字幕',
+    'editor.export.subtitles.mode.none': '不加',
+    'editor.export.subtitles.mode.soft': '字幕轨',
+    'editor.export.subtitles.mode.burn': '烧进画面',
+    'editor.export.subtitles.hint.none': '导出时不含字幕。',
+    'editor.export.subtitles.hint.soft': '{{count}} 则字幕写成可开关的字幕轨。',
+    'editor.export.subtitles.hint.burn': '{{count}} 则字幕直接画进影片。',
+    'editor.export.subtitles.noCues': '从左侧素材库汇入字幕后才会导出。',
+    'editor.export.subtitles.trackUnavailable': '动图没有字幕轨，选「烧进画面」才会把字幕画进去。',
+    'editor.transition.type.cut': '硬切',
+    'editor.transition.type.crossfade': '交叉淡化',
+    'editor.transition.type.dipToBlack': '黑场过渡',
+    'editor.transition.type.audioFade': '仅音频淡化',
 };
 
 export default zh;
@@ -0,0 +1,164 @@
+import type { ExportChapter, ExportMetadata, TrimRange } from '../../types';
+import { getOutputDuration, getSegmentOutputDuration, getSegmentSpeed, getTransitionOverlap } from '../../types';
+
+export const METADATA_FILE = 'metadata.txt';
+
+// Chapters closer together than this are merged (the later title wins)
+const MIN_CHAPTER_SECONDS = 0.5;
+// Output ranges shorter than this (e.g. a sliver left by a cut) are dropped
+const MIN_RANGE_SECONDS = 0.05;
+const RANGE_MERGE_EPSILON = 0.001;
+
+/**
+ * Map a recording time onto the output timeline of a cut.
+ * - Sped-up segments take (length / speed) on the output
+ * - Overlapping transitions pull the following segments earlier
+ * - Returns null when the time falls into a removed range
+ */
+export const mapToOutputTime = (time: number, segments: TrimRange[]): number | null => {
+    let offset = 0;
+    for (let i = 0; i < segments.length; i++) {
+        const seg = segments[i];
+        const speed = getSegmentSpeed(seg);
+        if (time >= seg.start && time < seg.end) return offset + (time - seg.start) / speed;
+        offset += (seg.end - seg.start) / speed - getTransitionOverlap(segments, i);
+    }
+    return null;
+};
+
+/**
+ * Map one recording-time range onto the output timeline of a cut.
+ * - Split where the cut removes part of it; shown again for every repeated clip
+ * - Sped-up segments compress it; overlapping transitions pull later segments earlier
+ */
+export const mapRangeToOutput = (start: number, end: number, segments: TrimRange[]) => {
+    const ranges: Array<{ start: number; end: number }> = [];
+    let offset = 0;
+    segments.forEach((seg, i) => {
+        const speed = getSegmentSpeed(seg);
+        const from = Math.max(start, seg.start);
+        const to = Math.min(end, seg.end);
+        if (to > from) {
+            const outStart = offset + (from - seg.start) / speed;
+            const outEnd = offset + (to - seg.start) / speed;
+            const last = ranges[ranges.length - 1];
+            if (last && outStart <= last.end + RANGE_MERGE_EPSILON) {
+                last.end = Math.max(last.end, outEnd);
+            } else {
+                ranges.push({ start: outStart, end: outEnd });
+            }
+        }
+        offset += (seg.end - seg.start) / speed - getTransitionOverlap(segments, i);
+    });
+    return ranges.filter((range) => range.end - range.start >= MIN_RANGE_SECONDS);
+};
+
+/**
+ * Turn output-timeline chapter starts into chapters.
+ * - Starts closer together than MIN_CHAPTER_SECONDS are merged (the later title wins)
+ * - Each chapter runs until the next one; the last one until the end of the output
+ */
+const toChapters = (points: Array<{ start: number; title: string }>, outputDuration: number): ExportChapter[] => {
+    const sorted = points
+        .filter((point) => point.start >= 0 && point.start < outputDuration - MIN_CHAPTER_SECONDS)
+        .sort((a, b) => a.start - b.start);
+
+    const starts: Array<{ start: number; title: string }> = [];
+    for (const point of sorted) {
+        const last = starts[starts.length - 1];
+        if (last && point.start - last.start < MIN_CHAPTER_SECONDS) {
+            last.title = point.title;
+            continue;
+        }
+        starts.push({ ...point });
+    }
+
+    return starts.map((chapter, i) => ({
+        start: chapter.start,
+        end: i < starts.length - 1 ? starts[i + 1].start : outputDuration,
+        title: chapter.title,
+    }));
+};
+
+/**
+ * Build output-timeline chapters from points on the recording timeline.
+ * - segments = null: the whole recording is exported (times stay as they are)
+ * - segments are in output order, so reordered cuts reorder the chapters too
+ */
+export const buildExportChapters = (
+    points: Array<{ time: number; title: string }>,
+    segments: TrimRange[] | null,
+    duration: number
+): ExportChapter[] => {
+    const mapped = points
+        .map((point) => ({ start: segments ? mapToOutputTime(point.time, segments) : point.time, title: point.title }))
+        .filter((point): point is { start: number; title: string } => point.start !== null);
+    return toChapters(mapped, segments ? getOutputDuration(segments) : duration);
+};
+
+/**
+ * One chapter per segment of a cut, starting where that segment starts on the output.
+ * - Uses the running output offset of each segment instead of mapping its source time,
+ *   so duplicated clips (same source range twice) still get a chapter each
+ */
+export const buildSegmentChapters = (segments: TrimRange[], titleFor: (index: number) => string): ExportChapter[] => {
+    const points: Array<{ start: number; title: string }> = [];
+    let offset = 0;
+    segments.forEach((seg, i) => {
+        points.push({ start: offset, title: titleFor(i) });
+        offset += getSegmentOutputDuration(seg) - getTransitionOverlap(segments, i);
+    });
+    return toChapters(points, getOutputDuration(segments));
+};
+
+/**
+ * Move existing chapters to new starts (e.g. after the cut points shifted) and rebuild their ends.
+ * - Starts that land closer together than MIN_CHAPTER_SECONDS are merged like any other chapters
+ */
+export const retimeChapters = (
+    chapters: ExportChapter[],
+    mapStart: (start: number) => number,
+    outputDuration: number
+): ExportChapter[] => {
+    return toChapters(chapters.map((chapter) => ({ start: mapStart(chapter.start), title: chapter.title })), outputDuration);
+};
+
+// FFMETADATA values must escape '=', ';', '#', '\' and newlines with a backslash
+const escapeMetadataValue = (value: string) => value.replace(/[=;#\\\n]/g, (c) => `\\${c}`);
+
+// Global tag names per metadata field (the MP4 muxer maps title / artist / comment / description to iTunes atoms)
+const METADATA_TAGS: Array<[keyof ExportMetadata, string[]]> = [
+    ['title', ['title']],
+    ['author', ['artist']],
+    ['description', ['description', 'comment']],
+];
+
+export const hasExportMetadata = (metadata: ExportMetadata | undefined) =>
+    !!metadata && METADATA_TAGS.some(([field]) => metadata[field].trim().length > 0);
+
+/**
+ * Serialize chapters and global tags as an FFMETADATA1 file (used with `-map_metadata` / `-map_chapters`).
+ * - offset: added to every time; needed when the output is trimmed with an output-side `-ss`,
+ *   because FFmpeg shifts mapped chapters by the output start time
+ */
+export const buildFfmetadata = (chapters: ExportChapter[], offset = 0, metadata?: ExportMetadata) => {
+    const lines = [';FFMETADATA1'];
+    // Global tags must come before the first section
+    if (metadata) {
+        for (const [field, tags] of METADATA_TAGS) {
+            const value = metadata[field].trim();
+            if (!value) continue;
+            for (const tag of tags) lines.push(`${tag}=${escapeMetadataValue(value)}`);
+        }
+    }
+    for (const chapter of chapters) {
+        lines.push(
+            '[CHAPTER]',
+            'TIMEBASE=1/1000',
+            `START=${Math.round((chapter.start + offset) * 1000)}`,
+            `END=${Math.round((chapter.end + offset) * 1000)}`,
+            `title=${escapeMetadataValue(chapter.title)}`
+        );
+    }
+    return `${lines.join('\n')}\n`;
+};
@@ -1,11 +1,15 @@
-import type { ExportOptions } from '../../types';
+import type { AnimatedExportSettings, ExportCrop, ExportOptions, ExportZoomRegion } from '../../types';
+import { DEFAULT_ANIMATED_EXPORT, ZOOM_EASE_SECONDS, isAnimatedFormat } from '../../types';
 
-/** Resolution mappings for export scaling */
-const RESOLUTION_MAP: Record<string, { width: number; height: number } | null> = {
+/**
+ * Short side of the output per resolution preset.
+ * - The long side follows the (cropped) aspect ratio, so 9:16 at 1080p is 1080x1920 and nothing gets padded
+ */
+const RESOLUTION_SHORT_SIDE: Record<string, number | null> = {
     original: null, // No scaling
-    '720p': { width: 1280, height: 720 },
-    '1080p': { width: 1920, height: 1080 },
-    '4k': { width: 3840, height: 2160 },
+    '720p': 720,
+    '1080p': 1080,
+    '4k': 2160,
 };
 
 /**
@@ -18,19 +22,34 @@ export const toArrayBufferUint8 = (data: Uint8Array): Uint8Array<ArrayBuffer> =>
     return new Uint8Array(ab);
 };
 
+// Crop to the kept rectangle; width / height stay even for yuv420p
+const buildCropFilter = (crop: ExportCrop) => {
+    const f = (value: number) => value.toFixed(6);
+    return `crop=trunc(iw*${f(crop.width)}/2)*2:trunc(ih*${f(crop.height)}/2)*2:trunc(iw*${f(crop.x)}):trunc(ih*${f(crop.y)})`;
+};
+
+const getTargetFps = (options: ExportOptions) =>
+    Number.isFinite(options.fps) && (options.fps ?? 0) > 0 ? Math.round(options.fps!) : 30;
+
+// Zoom needs the frame size for zoompan's output size
+const hasZoom = (options: ExportOptions) => !!options.zoomRegions?.length && !!options.sourceSize;
+
 /**
  * Build video filters used for BOTH single-trim and multi-segment concat.
  * - Keep logic centralized to avoid duplicated hardcoded strings.
+ * - Crop first, then scale the short side to the preset (-2 keeps the long side even)
+ * - With zoom regions, scaling is left to buildZoomFilterString (zoompan scales to the output size itself)
  */
 export const buildVideoFilterString = (options: ExportOptions) => {
-    const resolution = options.resolution || 'original';
-    const resConfig = RESOLUTION_MAP[resolution];
-    const targetFps = Number.isFinite(options.fps) && (options.fps ?? 0) > 0 ? Math.round(options.fps!) : 30;
+    const shortSide = RESOLUTION_SHORT_SIDE[options.resolution || 'original'];
+    const targetFps = getTargetFps(options);
 
     const filters: string[] = [];
-    if (resConfig) {
-        // Scale while maintaining aspect ratio, pad if necessary
-        filters.push(`scale=${resConfig.width}:${resConfig.height}:force_original_aspect_ratio=decrease,pad=${resConfig.width}:${resConfig.height}:(ow-iw)/2:(oh-ih)/2`);
+    if (options.crop) {
+        filters.push(buildCropFilter(options.crop));
+    }
+    if (shortSide && !hasZoom(options)) {
+        filters.push(`scale='if(gte(iw,ih),-2,${shortSide})':'if(gte(iw,ih),${shortSide},-2)'`);
     }
     // Normalize frame cadence to avoid inflated duration from odd timebases
     filters.push(`fps=${targetFps}`);
@@ -38,3 +57,93 @@ export const buildVideoFilterString = (options: ExportOptions) => {
     return filters.join(',');
 };
 
+// Animated exports use their own width / fps (sanitized like the encoder does)
+const getAnimatedWidth = (animation: AnimatedExportSettings) =>
+    Number.isFinite(animation.width) && animation.width > 0 ? Math.round(animation.width) : 640;
+const getAnimatedFps = (animation: AnimatedExportSettings) =>
+    Number.isFinite(animation.fps) && animation.fps > 0 ? Math.round(animation.fps) : 15;
+
+/**
+ * Output frame size for a recording of the given size.
+ * - Mirrors buildVideoFilterString / buildAnimatedFilterString (including FFmpeg's rounding for -2)
+ */
+export const getOutputFrameLayout = (
+    options: Pick<ExportOptions, 'crop' | 'resolution' | 'format' | 'animation'>,
+    source: { width: number; height: number }
+) => {
+    let width = options.crop ? Math.trunc((source.width * options.crop.width) / 2) * 2 : source.width;
+    let height = options.crop ? Math.trunc((source.height * options.crop.height) / 2) * 2 : source.height;
+
+    if (options.format && isAnimatedFormat(options.format)) {
+        const animatedWidth = getAnimatedWidth(options.animation ?? DEFAULT_ANIMATED_EXPORT);
+        return { width: animatedWidth, height: width > 0 ? Math.round((animatedWidth * height) / width / 2) * 2 : height };
+    }
+
+    const shortSide = RESOLUTION_SHORT_SIDE[options.resolution || 'original'];
+    if (shortSide && width > 0 && height > 0) {
+        if (width >= height) {
+            width = Math.round((shortSide * width) / height / 2) * 2;
+            height = shortSide;
+        } else {
+            height = Math.round((shortSide * height) / width / 2) * 2;
+            width = shortSide;
+        }
+    }
+    return { width, height };
+};
+
+export type OutputFrameLayout = ReturnType<typeof getOutputFrameLayout>;
+
+// Smoothstep weight (0-1) of one region at the frame's time (in_time), eased in and out like getZoomAt
+const buildZoomWeight = (region: ExportZoomRegion) => {
+    const ease = Math.min(ZOOM_EASE_SECONDS, (region.end - region.start) / 2).toFixed(3);
+    const u = `clip(min((in_time-${region.start.toFixed(3)})/${ease},(${region.end.toFixed(3)}-in_time)/${ease}),0,1)`;
+    return `${u}*${u}*(3-2*${u})`;
+};
+
+/**
+ * Zoom and pan over the joined output (times are output time), scaled to the output size.
+ * - Runs after buildVideoFilterString, so it sees the cropped, fps-normalized frames (one output frame per input frame)
+ * - Regions must not overlap (see resolveZoomRegions); returns null when there is nothing to zoom
+ */
+export const buildZoomFilterString = (options: ExportOptions) => {
+    if (!hasZoom(options)) return null;
+    const regions = options.zoomRegions!;
+    const layout = getOutputFrameLayout(options, options.sourceSize!);
+    const width = Math.trunc(layout.width / 2) * 2;
+    const height = Math.trunc(layout.height / 2) * 2;
+
+    const sum = (value: (region: ExportZoomRegion) => number) => regions
+        .map((region) => `${buildZoomWeight(region)}*(${value(region).toFixed(4)})`)
+        .join('+');
+    const zoom = `1+${sum((region) => region.zoom - 1)}`;
+    // Center of the target rectangle, clamped so the visible area stays inside the frame
+    const x = `clip((0.5+${sum((region) => region.x - 0.5)})*iw-iw/zoom/2,0,iw-iw/zoom)`;
+    const y = `clip((0.5+${sum((region) => region.y - 0.5)})*ih-ih/zoom/2,0,ih-ih/zoom)`;
+
+    // zoompan re-times its output at this rate, so it must match the fps filter that runs before it
+    const fps = options.format && isAnimatedFormat(options.format)
+        ? getAnimatedFps(options.animation ?? DEFAULT_ANIMATED_EXPORT)
+        : getTargetFps(options);
+    return `zoompan=z='${zoom}':x='${x}':y='${y}':d=1:s=${width}x${height}:fps=${fps}`;
+};
+
+/**
+ * Filters for animated image export (gif / apng / webp).
+ * - Uses its own width/fps instead of the video resolution presets
+ * - Height follows the (cropped) aspect ratio (-2 keeps it even)
+ * - With zoom regions, scaling is left to buildZoomFilterString, like buildVideoFilterString
+ */
+export const buildAnimatedFilterString = (options: ExportOptions) => {
+    const animation = options.animation ?? DEFAULT_ANIMATED_EXPORT;
+    const filters = options.crop ? [buildCropFilter(options.crop)] : [];
+    filters.push(`fps=${getAnimatedFps(animation)}`);
+    if (!hasZoom(options)) filters.push(`scale=${getAnimatedWidth(animation)}:-2:flags=lanczos`);
+    return filters.join(',');
+};
+
+/** GIF pass 1: one palette for the whole clip (diff favours moving areas over static UI) */
+export const GIF_PALETTEGEN_FILTER = 'palettegen=stats_mode=diff';
+
+/** GIF pass 2: map frames onto the palette; only redraw changed rectangles to keep files small */
+export const GIF_PALETTEUSE_FILTER = 'paletteuse=dither=sierra2_4a:diff_mode=rectangle';
@@ -0,0 +1,65 @@
+import type { SceneChange } from '../../types';
+
+export const SCENE_SCORE_FILE = 'scenes.txt';
+
+// Scene scores are computed on a small, low-fps copy (much faster, same cuts for screen content)
+const SCENE_ANALYSIS_FPS = 5;
+const SCENE_ANALYSIS_WIDTH = 160;
+// Log everything above this so the UI threshold can change without re-running FFmpeg
+export const SCENE_CANDIDATE_THRESHOLD = 0.08;
+
+/**
+ * Args for a decode-only pass that writes `metadata=print` output for frames past the candidate threshold
+ */
+export const buildSceneDetectArgs = (inputName: string, outputFile: string) => {
+    const filter = [
+        `fps=${SCENE_ANALYSIS_FPS}`,
+        `scale=${SCENE_ANALYSIS_WIDTH}:-2`,
+        `select='gt(scene,${SCENE_CANDIDATE_THRESHOLD})'`,
+        `metadata=print:file=${outputFile}`,
+    ].join(',');
+    return ['-i', inputName, '-an', '-vf', filter, '-f', 'null', '-'];
+};
+
+/**
+ * Parse `metadata=print` output:
+ *   frame:12   pts:60   pts_time:12
+ *   lavfi.scene_score=0.412345
+ */
+export const parseSceneScores = (text: string): SceneChange[] => {
+    const changes: SceneChange[] = [];
+    let time: number | null = null;
+
+    for (const line of text.split(/\r?\n/)) {
+        const ptsMatch = /pts_time:\s*([\d.]+)/.exec(line);
+        if (ptsMatch) {
+            time = Number(ptsMatch[1]);
+            continue;
+        }
+        const scoreMatch = /lavfi\.scene_score=([\d.]+)/.exec(line);
+        if (scoreMatch && time !== null && Number.isFinite(time)) {
+            changes.push({ time, score: Number(scoreMatch[1]) });
+            time = null;
+        }
+    }
+
+    return changes.sort((a, b) => a.time - b.time);
+};
+
+/**
+ * Turn scene changes into suggested split points.
+ * - Within minGap seconds only the strongest change is kept (scrolling/animations produce bursts)
+ */
+export const pickSceneCuts = (changes: SceneChange[], threshold: number, minGap: number): number[] => {
+    const picked: SceneChange[] = [];
+    for (const change of changes) {
+        if (change.score < threshold) continue;
+        const last = picked[picked.length - 1];
+        if (last && change.time - last.time < minGap) {
+            if (change.score > last.score) picked[picked.length - 1] = change;
+            continue;
+        }
+        picked.push(change);
+    }
+    return picked.map((c) => c.time);
+};
@@ -1,20 +1,53 @@
 import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import type { SegmentTransition, TrimRange } from '../../types';
+import { MAX_TRANSITION_SECONDS, MUTE_AUDIO_ABOVE_SPEED, getSegmentOutputDuration, getSegmentTransition } from '../../types';
 
 // @ffmpeg/ffmpeg 目前不會從入口匯出 LogEvent 型別，這裡用最小 shape（只需要 message）。
 type LogEventLike = { message: string };
 
+type SegmentRange = TrimRange;
+
+const TRANSITION_TYPES: Array<SegmentTransition['type']> = ['crossfade', 'dipToBlack', 'audioFade'];
+
+// atempo is limited to 0.5–2.0 per instance in older FFmpeg builds; larger changes are chained
+const ATEMPO_MIN = 0.5;
+const ATEMPO_MAX = 2;
+
+// Segments that go back in source time share input 0 (split) only up to this long; longer ones seek their own input
+const MAX_SPLIT_REPEAT_SECONDS = 2;
+const SOURCE_ORDER_EPSILON = 0.001;
+
 /**
  * Normalize segments to a safe, stable shape:
- * - sorts by start time
+ * - keeps the given order (the editor's timeline order, which may differ from source time)
  * - removes invalid or zero-length segments
+ * - invalid speeds fall back to 1x; invalid transitions become hard cuts
  */
-export const normalizeSegments = (segments: Array<{ start: number; end: number }>) => {
+export const normalizeSegments = (segments: SegmentRange[]): SegmentRange[] => {
     return segments
-        .map((s) => ({ start: Number(s.start), end: Number(s.end) }))
-        .filter((s) => Number.isFinite(s.start) && Number.isFinite(s.end) && s.end > s.start)
-        .sort((a, b) => a.start - b.start);
+        .map((s) => {
+            const speed = Number(s.speed ?? 1);
+            const segment: SegmentRange = { start: Number(s.start), end: Number(s.end), speed: Number.isFinite(speed) && speed > 0 ? speed : 1 };
+            const transition = s.transition;
+            if (transition && TRANSITION_TYPES.includes(transition.type) && Number.isFinite(transition.duration) && transition.duration > 0) {
+                segment.transition = { type: transition.type, duration: Math.min(transition.duration, MAX_TRANSITION_SECONDS) };
+            }
+            return segment;
+        })
+        .filter((s) => Number.isFinite(s.start) && Number.isFinite(s.end) && s.end > s.start);
 };
 
+/**
+ * True when any boundary has an effective (non-cut) transition
+ */
+const hasTransitions = (segments: SegmentRange[]) => segments.some((_, i) => getSegmentTransition(segments, i) !== null);
+
+/**
+ * True when segments are retimed or blended (needs a filter graph; stream copy can't do it)
+ */
+export const hasSegmentEffects = (segments: SegmentRange[]) =>
+    segments.some((s) => (s.speed ?? 1) !== 1) || hasTransitions(segments);
+
 /**
  * Detect whether input contains an audio stream.
  * - Uses FFmpeg itself (no ffprobe in wasm builds)
@@ -41,33 +74,223 @@ export const detectHasAudio = async (ffmpeg: FFmpeg, inputName: string) => {
 
 };
 
+/**
+ * Fan one input stream out to n labelled pads (`split` / `asplit`).
+ */
+const buildSplit = (input: string, filter: 'split' | 'asplit', prefix: string, n: number) => {
+    const outputs = Array.from({ length: n }, (_, i) => `[${prefix}${i}]`).join('');
+    return `[${input}]${filter}=${n}${outputs}`;
+};
+
+/**
+ * Which segments open the recording again (input-side -ss / -t) instead of sharing input 0 through split.
+ * - split feeds every branch as the source is decoded, so a segment that goes back in source time
+ *   (reordered or duplicated clips) would have all its frames held in memory until concat reaches it
+ * - segments in source order, and short repeats, stay on the shared input
+ */
+const getSeekedSegments = (segments: SegmentRange[]) => {
+    let sharedEnd = -Infinity;
+    return segments.map((seg) => {
+        if (seg.start >= sharedEnd - SOURCE_ORDER_EPSILON) {
+            sharedEnd = seg.end;
+            return false;
+        }
+        return seg.end - seg.start > MAX_SPLIT_REPEAT_SECONDS;
+    });
+};
+
+/**
+ * Extra inputs for the seeked segments, in segment order (append after every other input;
+ * the graph builders take the index of the first one as `segmentInput`).
+ */
+export const buildSegmentInputArgs = (segments: SegmentRange[], inputName: string) => {
+    const seeked = getSeekedSegments(segments);
+    return segments.flatMap((seg, i) => seeked[i]
+        ? ['-ss', seg.start.toFixed(3), '-t', (seg.end - seg.start).toFixed(3), '-i', inputName]
+        : []);
+};
+
+/**
+ * Source pad per segment for one media type.
+ * - Shared segments read a split of input 0 and trim on recording time
+ * - Seeked segments read their own input, which already starts at the segment, so they trim from 0
+ */
+const buildSegmentSources = (segments: SegmentRange[], media: 'v' | 'a', segmentInput: number) => {
+    const seeked = getSeekedSegments(segments);
+    const shared = segments.map((_, i) => i).filter((i) => !seeked[i]);
+    const lines = shared.length > 1 ? [buildSplit(`0:${media}`, media === 'v' ? 'split' : 'asplit', `${media}in`, shared.length)] : [];
+
+    let nextInput = segmentInput;
+    const sources = segments.map((seg, i) => {
+        if (seeked[i]) return { pad: `${nextInput++}:${media}`, segment: { ...seg, start: 0, end: seg.end - seg.start } };
+        return { pad: shared.length > 1 ? `${media}in${shared.indexOf(i)}` : `0:${media}`, segment: seg };
+    });
+    return { lines, sources };
+};
+
+/**
+ * Trim one video segment and retime it by its speed.
+ */
+const buildVideoSegmentChain = (seg: SegmentRange) => {
+    const speed = seg.speed ?? 1;
+    const pts = speed === 1 ? 'PTS-STARTPTS' : `(PTS-STARTPTS)/${speed}`;
+    return `trim=start=${seg.start.toFixed(3)}:end=${seg.end.toFixed(3)},setpts=${pts}`;
+};
+
+/**
+ * Split a tempo factor into atempo steps that each stay within the supported range.
+ */
+const buildAtempoChain = (speed: number) => {
+    const steps: number[] = [];
+    let rest = speed;
+    while (rest > ATEMPO_MAX) {
+        steps.push(ATEMPO_MAX);
+        rest /= ATEMPO_MAX;
+    }
+    while (rest < ATEMPO_MIN) {
+        steps.push(ATEMPO_MIN);
+        rest /= ATEMPO_MIN;
+    }
+    if (Math.abs(rest - 1) > 1e-6) steps.push(rest);
+    return steps.map((step) => `atempo=${Number(step.toFixed(6))}`);
+};
+
+/**
+ * Trim one audio segment and match its video speed.
+ * - Up to MUTE_AUDIO_ABOVE_SPEED: time-stretched with atempo (pitch is kept)
+ * - Faster: muted; only the output length of audio is kept so A/V stay in sync
+ */
+const buildAudioSegmentChain = (seg: SegmentRange) => {
+    const speed = seg.speed ?? 1;
+    const start = seg.start.toFixed(3);
+    if (speed > MUTE_AUDIO_ABOVE_SPEED) {
+        const end = (seg.start + (seg.end - seg.start) / speed).toFixed(3);
+        return `atrim=start=${start}:end=${end},asetpts=PTS-STARTPTS,volume=0`;
+    }
+    return [`atrim=start=${start}:end=${seg.end.toFixed(3)}`, 'asetpts=PTS-STARTPTS', ...buildAtempoChain(speed)].join(',');
+};
+
+/**
+ * Audio chain for segments[i], plus the audio-only fades at its edges (audioFade transitions).
+ * - source: the range to trim from its input (segments[i] itself unless the segment has a seeked input)
+ */
+const buildAudioSegmentWithFades = (segments: SegmentRange[], i: number, source: SegmentRange = segments[i]) => {
+    const chain = [buildAudioSegmentChain(source)];
+    const fadeIn = i > 0 ? getSegmentTransition(segments, i - 1) : null;
+    const fadeOut = getSegmentTransition(segments, i);
+    if (fadeIn?.type === 'audioFade') {
+        chain.push(`afade=t=in:st=0:d=${fadeIn.duration.toFixed(3)}`);
+    }
+    if (fadeOut?.type === 'audioFade') {
+        const st = Math.max(getSegmentOutputDuration(segments[i]) - fadeOut.duration, 0);
+        chain.push(`afade=t=out:st=${st.toFixed(3)}:d=${fadeOut.duration.toFixed(3)}`);
+    }
+    return chain.join(',');
+};
+
+/**
+ * Join the per-segment pads ([v0].. or [a0]..) pairwise into [outLabel].
+ * - crossfade / dipToBlack: xfade (fade / fadeblack) for video, acrossfade for audio
+ * - hard cuts and audio-only fades: concat
+ * - xfade offsets are on the output timeline, so the running length is tracked
+ */
+const buildTransitionChain = (segments: SegmentRange[], pad: 'v' | 'a', outLabel: string) => {
+    const lines: string[] = [];
+    let prev = `${pad}0`;
+    let length = getSegmentOutputDuration(segments[0]);
+
+    for (let i = 1; i < segments.length; i++) {
+        const transition = getSegmentTransition(segments, i - 1);
+        const label = i === segments.length - 1 ? outLabel : `${pad}x${i}`;
+        const overlap = transition && transition.type !== 'audioFade' ? transition.duration : 0;
+
+        if (transition && overlap > 0) {
+            const duration = overlap.toFixed(3);
+            lines.push(pad === 'v'
+                ? `[${prev}][v${i}]xfade=transition=${transition.type === 'dipToBlack' ? 'fadeblack' : 'fade'}:duration=${duration}:offset=${Math.max(length - overlap, 0).toFixed(3)}[${label}]`
+                : `[${prev}][a${i}]acrossfade=d=${duration}[${label}]`);
+        } else {
+            lines.push(`[${prev}][${pad}${i}]concat=n=2:v=${pad === 'v' ? 1 : 0}:a=${pad === 'a' ? 1 : 0}[${label}]`);
+        }
+
+        length += getSegmentOutputDuration(segments[i]) - overlap;
+        prev = label;
+    }
+    return lines;
+};
+
+/**
+ * Multi-segment graph with transitions.
+ * - xfade needs the same size / frame rate / timebase on both inputs, so videoFilter runs per segment
+ * - outputFilter runs once on the joined output
+ */
+const buildTransitionFilterGraph = (args: {
+    segments: SegmentRange[];
+    hasAudio: boolean;
+    videoFilter: string;
+    outputFilter?: string | null;
+    segmentInput: number;
+}) => {
+    const { segments, hasAudio, videoFilter, outputFilter, segmentInput } = args;
+    const n = segments.length;
+
+    const video = buildSegmentSources(segments, 'v', segmentInput);
+    const audio = buildSegmentSources(segments, 'a', segmentInput);
+    const lines: string[] = [...video.lines];
+    if (hasAudio) lines.push(...audio.lines);
+
+    for (let i = 0; i < n; i++) {
+        const { pad, segment } = video.sources[i];
+        lines.push(`[${pad}]${buildVideoSegmentChain(segment)},${videoFilter},settb=AVTB[v${i}]`);
+        if (hasAudio) lines.push(`[${audio.sources[i].pad}]${buildAudioSegmentWithFades(segments, i, audio.sources[i].segment)}[a${i}]`);
+    }
+
+    lines.push(...buildTransitionChain(segments, 'v', outputFilter ? 'vjoin' : 'vout'));
+    if (outputFilter) lines.push(`[vjoin]${outputFilter}[vout]`);
+    if (hasAudio) lines.push(...buildTransitionChain(segments, 'a', 'aout'));
+
+    return {
+        filterGraph: lines.join(';'),
+        videoOut: 'vout',
+        audioOut: hasAudio ? 'aout' : null,
+    };
+};
+
 /**
  * Build a filter_complex graph for multi-segment trimming + concat.
+ * - Segments are concatenated in the given order; the same source range may appear more than once
+ * - Segments that go back in source time read their own seeked input (see buildSegmentInputArgs);
+ *   segmentInput is the index of the first such input (default 1: right after the recording)
+ * - Each segment is retimed by its own speed
+ * - Transitions between segments switch to xfade / acrossfade chains (see buildTransitionFilterGraph)
+ * - outputFilter (optional) runs on the joined video, where timestamps are output time (e.g. zoom)
  * Output labels:
  * - video: [vout]
  * - audio: [aout] (only when hasAudio)
  */
 export const buildConcatFilterGraph = (args: {
-    segments: Array<{ start: number; end: number }>;
+    segments: SegmentRange[];
     hasAudio: boolean;
     videoFilter: string;
+    outputFilter?: string | null;
+    segmentInput?: number;
 }) => {
-    const { segments, hasAudio, videoFilter } = args;
+    const { segments, hasAudio, videoFilter, outputFilter, segmentInput = 1 } = args;
+    if (hasTransitions(segments)) return buildTransitionFilterGraph({ ...args, segmentInput });
     const n = segments.length;
 
-    const lines: string[] = [];
+    const video = buildSegmentSources(segments, 'v', segmentInput);
+    const audio = buildSegmentSources(segments, 'a', segmentInput);
+    const lines: string[] = [...video.lines];
+    if (hasAudio) lines.push(...audio.lines);
 
     for (let i = 0; i < n; i++) {
-        const seg = segments[i];
-        const start = seg.start.toFixed(3);
-        const end = seg.end.toFixed(3);
-
         // Video segment
-        lines.push(`[0:v]trim=start=${start}:end=${end},setpts=PTS-STARTPTS[v${i}]`);
+        lines.push(`[${video.sources[i].pad}]${buildVideoSegmentChain(video.sources[i].segment)}[v${i}]`);
 
         // Audio segment (if present)
         if (hasAudio) {
-            lines.push(`[0:a]atrim=start=${start}:end=${end},asetpts=PTS-STARTPTS[a${i}]`);
+            lines.push(`[${audio.sources[i].pad}]${buildAudioSegmentChain(audio.sources[i].segment)}[a${i}]`);
         }
     }
 
@@ -82,7 +305,7 @@ export const buildConcatFilterGraph = (args: {
     }
 
     // Apply scaling/fps AFTER concat so settings are consistent across segments
-    lines.push(`[vcat]${videoFilter}[vout]`);
+    lines.push(`[vcat]${videoFilter}${outputFilter ? `,${outputFilter}` : ''}[vout]`);
 
     return {
         filterGraph: lines.join(';'),
@@ -90,3 +313,62 @@ export const buildConcatFilterGraph = (args: {
         audioOut: hasAudio ? 'aout' : null,
     };
 };
+
+/**
+ * Build a video-only filter_complex graph (used by animated exports, which drop audio).
+ * - 0 segments: whole input
+ * - 1 segment: trim (and retime) only
+ * - more: reuse the concat graph without audio
+ * - outputFilter (optional) runs last, on output-time frames (e.g. zoom)
+ * Output label: [vout]
+ */
+export const buildVideoOnlyFilterGraph = (args: {
+    segments: SegmentRange[];
+    videoFilter: string;
+    outputFilter?: string | null;
+    segmentInput?: number;
+}) => {
+    const { segments, videoFilter, outputFilter, segmentInput } = args;
+
+    if (segments.length > 1) {
+        const { filterGraph, videoOut } = buildConcatFilterGraph({ segments, hasAudio: false, videoFilter, outputFilter, segmentInput });
+        return { filterGraph, videoOut };
+    }
+
+    const trim = segments.length === 1 ? `${buildVideoSegmentChain(segments[0])},` : '';
+    return {
+        filterGraph: `[0:v]${trim}${videoFilter}${outputFilter ? `,${outputFilter}` : ''}[vout]`,
+        videoOut: 'vout',
+    };
+};
+
+/**
+ * Build an audio-only filter_complex graph (audio-only exports).
+ * - 0 segments: no graph needed (map the input audio directly)
+ * - 1 segment: atrim (and retime) only
+ * - more: concat audio segments in order (acrossfade / afade where there are transitions)
+ * Output label: [aout]
+ */
+export const buildAudioOnlyFilterGraph = (args: {
+    segments: SegmentRange[];
+    segmentInput?: number;
+}) => {
+    const { segments, segmentInput = 1 } = args;
+    if (segments.length === 0) return { filterGraph: null, audioOut: null };
+
+    // Single segment: trim straight into [aout]
+    const single = segments.length === 1;
+    const { lines, sources } = buildSegmentSources(segments, 'a', segmentInput);
+    sources.forEach(({ pad, segment }, i) => {
+        const label = single ? 'aout' : `a${i}`;
+        lines.push(`[${pad}]${single ? buildAudioSegmentChain(segment) : buildAudioSegmentWithFades(segments, i, segment)}[${label}]`);
+    });
+
+    if (!single && hasTransitions(segments)) {
+        lines.push(...buildTransitionChain(segments, 'a', 'aout'));
+    } else if (!single) {
+        const concatInputs = segments.map((_, i) => `[a${i}]`).join('');
+        lines.push(`${concatInputs}concat=n=${segments.length}:v=0:a=1[aout]`);
+    }
+    return { filterGraph: lines.join(';'), audioOut: 'aout' };
+};
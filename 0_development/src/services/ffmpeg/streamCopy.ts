@@ -0,0 +1,125 @@
+import type { ExportChapter, KeyframeSnapReport } from '../../types';
+import { retimeChapters } from './chapters';
+
+// Cut points closer than this to a keyframe are not reported as moved
+const SNAP_EPSILON = 0.05;
+
+export interface SegmentListEntry {
+    file: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Split points for the segment muxer (every segment start/end except 0).
+ * - The muxer can only split on keyframes, so each point snaps to the next keyframe
+ */
+export const buildSegmentTimes = (segments: Array<{ start: number; end: number }>) => {
+    const times = new Set<string>();
+    for (const seg of segments) {
+        for (const t of [seg.start, seg.end]) {
+            if (t > 0.001) times.add(t.toFixed(3));
+        }
+    }
+    return [...times].sort((a, b) => Number(a) - Number(b));
+};
+
+/**
+ * Parse the segment muxer's `-segment_list_type csv` output ("file,start,end" per line)
+ */
+export const parseSegmentListCsv = (text: string): SegmentListEntry[] => {
+    return text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((line) => {
+            const [file, start, end] = line.split(',');
+            return { file, start: Number(start), end: Number(end) };
+        })
+        .filter((entry) => entry.file && Number.isFinite(entry.start) && Number.isFinite(entry.end))
+        .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Pick the stream-copied parts that make up the requested segments.
+ * - A cut point lands on the first part that starts at/after it (the muxer splits on the next keyframe)
+ * - Segments shorter than the keyframe spacing collapse to nothing and are dropped
+ * - A repeated segment lists its parts again (the concat demuxer may read a file more than once)
+ */
+export const planKeyframeCut = (
+    segments: Array<{ start: number; end: number }>,
+    parts: SegmentListEntry[]
+): { files: string[]; snapped: Array<{ start: number; end: number } | null>; report: KeyframeSnapReport } => {
+    const fileEnd = parts.length > 0 ? parts[parts.length - 1].end : 0;
+    const snap = (t: number) => parts.find((p) => p.start >= t - SNAP_EPSILON)?.start ?? fileEnd;
+
+    const files: string[] = [];
+    const snapped: Array<{ start: number; end: number } | null> = [];
+    const report: KeyframeSnapReport = { movedCuts: 0, maxShift: 0, droppedSegments: 0 };
+
+    for (const seg of segments) {
+        const start = snap(seg.start);
+        const end = snap(seg.end);
+
+        for (const shift of [start - seg.start, end - seg.end]) {
+            if (Math.abs(shift) > SNAP_EPSILON) {
+                report.movedCuts += 1;
+                report.maxShift = Math.max(report.maxShift, Math.abs(shift));
+            }
+        }
+
+        if (end - start <= SNAP_EPSILON) {
+            report.droppedSegments += 1;
+            snapped.push(null);
+            continue;
+        }
+        snapped.push({ start, end });
+
+        for (const part of parts) {
+            if (part.start >= start - SNAP_EPSILON && part.start < end - SNAP_EPSILON) {
+                files.push(part.file);
+            }
+        }
+    }
+
+    return { files, snapped, report };
+};
+
+/**
+ * Move output-timeline chapter starts from the requested cut onto the keyframe-snapped one.
+ * - snapped: planKeyframeCut's range per segment (null = dropped)
+ * - A start inside a dropped segment moves to where the next kept segment begins
+ * - Stream copy never has speed changes or transitions, so each segment is its plain length on the output
+ */
+export const snapChaptersToKeyframes = (
+    chapters: ExportChapter[],
+    segments: Array<{ start: number; end: number }>,
+    snapped: Array<{ start: number; end: number } | null>
+): ExportChapter[] => {
+    const outputDuration = snapped.reduce((sum, range) => sum + (range ? range.end - range.start : 0), 0);
+    const mapStart = (time: number) => {
+        let requestedOffset = 0;
+        let snappedOffset = 0;
+        for (let i = 0; i < segments.length; i++) {
+            const seg = segments[i];
+            const range = snapped[i];
+            const length = seg.end - seg.start;
+            if (time < requestedOffset + length) {
+                if (!range) return snappedOffset;
+                const source = Math.min(Math.max(seg.start + time - requestedOffset, range.start), range.end);
+                return snappedOffset + source - range.start;
+            }
+            requestedOffset += length;
+            if (range) snappedOffset += range.end - range.start;
+        }
+        return outputDuration;
+    };
+    return retimeChapters(chapters, mapStart, outputDuration);
+};
+
+/**
+ * Concat demuxer list file (`-f concat -safe 0 -i list.txt`)
+ */
+export const buildConcatList = (files: string[]) => {
+    return files.map((file) => `file '${file.replace(/'/g, `'\\''`)}'`).join('\n') + '\n';
+};
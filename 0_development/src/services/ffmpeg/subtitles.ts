@@ -0,0 +1,78 @@
+import type { ExportFormat, ExportSubtitleCue, ExportTextOverlay, SubtitleCue, TrimRange } from '../../types';
+import { SUBTITLE_BURN_STYLE } from '../../types';
+import { mapRangeToOutput } from './chapters';
+
+// FFmpeg reads SRT for both containers; the encoder decides what ends up in the file
+export const SUBTITLE_FILE = 'subtitles.srt';
+
+// Burned-in subtitles: one image per cue, played back through one image-sequence input per layer
+export const SUBTITLE_IMAGE_PREFIX = 'subtitle_';
+export const SUBTITLE_BLANK_FILE = 'subtitle_blank.png';
+export const SUBTITLE_LAYER_PREFIX = 'subtitle_layer_';
+const LAYER_EPSILON = 0.001;
+
+// Subtitle stream codec per container (soft subtitles only exist in mp4 / webm)
+export const SUBTITLE_CODECS: Partial<Record<ExportFormat, string>> = {
+    mp4: 'mov_text',
+    webm: 'webvtt',
+};
+
+/**
+ * Map subtitle cues from the recording timeline onto the output timeline of a cut.
+ * - segments = null: the whole recording is exported (times stay as they are)
+ * - Cues inside removed ranges are dropped; cues that cross a cut are clipped to the kept part
+ * - A cue in a repeated or reordered clip shows up once per output range
+ */
+export const buildExportSubtitles = (cues: SubtitleCue[], segments: TrimRange[] | null): ExportSubtitleCue[] => {
+    return cues
+        .flatMap(({ start, end, text }) => (segments ? mapRangeToOutput(start, end, segments) : [{ start, end }])
+            .map((range) => ({ start: range.start, end: range.end, text })))
+        .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Burned-in subtitles are drawn like text overlays, one image per cue.
+ */
+export const subtitlesToTextOverlays = (cues: ExportSubtitleCue[]): ExportTextOverlay[] => {
+    return cues.map((cue) => ({ ...SUBTITLE_BURN_STYLE, text: cue.text, ranges: [{ start: cue.start, end: cue.end }] }));
+};
+
+/**
+ * Spread cues over as few layers as possible; cues in one layer never overlap,
+ * so a whole layer can be one image-sequence input composited by a single overlay.
+ */
+export const splitSubtitleLayers = <T extends { start: number; end: number }>(cues: T[]): T[][] => {
+    const layers: T[][] = [];
+    for (const cue of [...cues].sort((a, b) => a.start - b.start)) {
+        const layer = layers.find((l) => l[l.length - 1].end <= cue.start + LAYER_EPSILON);
+        if (layer) layer.push(cue);
+        else layers.push([cue]);
+    }
+    return layers;
+};
+
+/**
+ * Concat demuxer script (`-f concat -safe 0 -i list`) for one layer.
+ * - Each cue's image is shown for its output range, the blank image fills the gaps,
+ *   so the stream's timestamps line up with the output timeline
+ * - The stream ends on the blank image (the overlay passes the video through after that)
+ */
+export const buildSubtitleLayerList = (layer: Array<{ start: number; end: number; file: string }>, blankFile: string) => {
+    const entries: Array<{ file: string; duration: number | null }> = [];
+    let time = 0;
+    for (const cue of layer) {
+        if (cue.start - time > LAYER_EPSILON) entries.push({ file: blankFile, duration: cue.start - time });
+        const start = Math.max(cue.start, time);
+        if (cue.end - start <= LAYER_EPSILON) continue;
+        entries.push({ file: cue.file, duration: cue.end - start });
+        time = cue.end;
+    }
+    entries.push({ file: blankFile, duration: null });
+
+    const lines = ['ffconcat version 1.0'];
+    for (const { file, duration } of entries) {
+        lines.push(`file '${file.replace(/'/g, `'\\''`)}'`);
+        if (duration !== null) lines.push(`duration ${duration.toFixed(3)}`);
+    }
+    return `${lines.join('\n')}\n`;
+};
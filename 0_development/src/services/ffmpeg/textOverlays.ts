@@ -0,0 +1,170 @@
+import type { ExportTextOverlay, TextOverlay, TrimRange } from '../../types';
+import { TEXT_OVERLAY_STYLE, getTextOverlayAnchor } from '../../types';
+import type { OutputFrameLayout } from './ffmpegUtils';
+import { mapRangeToOutput } from './chapters';
+
+export const TEXT_OVERLAY_FILE_PREFIX = 'text_overlay_';
+
+// Font sizes are given for a 1080px-tall frame
+const REFERENCE_HEIGHT = 1080;
+
+/**
+ * Build output-timeline text overlays from the editor's overlays.
+ * - segments = null: the whole recording is exported (times stay as they are)
+ * - Empty texts and overlays that fall entirely into removed ranges are left out
+ */
+export const buildExportTextOverlays = (overlays: TextOverlay[], segments: TrimRange[] | null): ExportTextOverlay[] => {
+    return overlays
+        .filter((overlay) => overlay.text.trim().length > 0)
+        .map(({ text, position, fontSize, color, background, start, end }) => ({
+            text,
+            position,
+            fontSize,
+            color,
+            background,
+            ranges: segments ? mapRangeToOutput(start, end, segments) : [{ start, end }],
+        }))
+        .filter((overlay) => overlay.ranges.length > 0);
+};
+
+export interface RasterizedTextOverlay {
+    data: Uint8Array;
+    // Top-left corner of the image in the output frame
+    x: number;
+    y: number;
+}
+
+const getTextOverlayFont = (overlay: ExportTextOverlay, layout: OutputFrameLayout) =>
+    `${TEXT_OVERLAY_STYLE.fontWeight} ${overlay.fontSize * (layout.height / REFERENCE_HEIGHT)}px ${TEXT_OVERLAY_STYLE.fontFamily}`;
+
+/**
+ * Size of an overlay's box (text plus padding) in the output frame.
+ */
+const measureTextOverlayBox = (ctx: CanvasRenderingContext2D, overlay: ExportTextOverlay, layout: OutputFrameLayout) => {
+    const fontSize = overlay.fontSize * (layout.height / REFERENCE_HEIGHT);
+    const lineHeight = fontSize * TEXT_OVERLAY_STYLE.lineHeight;
+    const padding = fontSize * TEXT_OVERLAY_STYLE.padding;
+    ctx.font = getTextOverlayFont(overlay, layout);
+
+    const lines = overlay.text.split('\n');
+    return {
+        lines,
+        lineHeight,
+        padding,
+        width: Math.ceil(Math.max(...lines.map((line) => ctx.measureText(line).width)) + padding * 2),
+        height: Math.ceil(lines.length * lineHeight + padding * 2),
+    };
+};
+
+/**
+ * Largest box among the given overlays (an image size every one of them fits in).
+ */
+export const measureTextOverlayFrame = (overlays: ExportTextOverlay[], layout: OutputFrameLayout) => {
+    const ctx = document.createElement('canvas').getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available.');
+    const boxes = overlays.map((overlay) => measureTextOverlayBox(ctx, overlay, layout));
+    return {
+        width: Math.max(1, ...boxes.map((box) => box.width)),
+        height: Math.max(1, ...boxes.map((box) => box.height)),
+    };
+};
+
+/**
+ * Draw one overlay onto a transparent PNG cropped to its box (composited at x:y).
+ * - Uses the browser's fonts, so anything the UI can show can be burned in
+ * - Laid out against the output frame (after cropping), like the live preview
+ * - Cropped rather than full-frame so many overlays (e.g. burned-in subtitles) stay cheap to decode
+ * - frame: draw into an image of this size instead (box at its anchor inside it), so overlays that
+ *   share one image-sequence stream all have the same size
+ */
+export const rasterizeTextOverlay = async (
+    overlay: ExportTextOverlay,
+    layout: OutputFrameLayout,
+    frame?: { width: number; height: number }
+): Promise<RasterizedTextOverlay> => {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available.');
+
+    const box = measureTextOverlayBox(ctx, overlay, layout);
+    const imageWidth = frame?.width ?? box.width;
+    const imageHeight = frame?.height ?? box.height;
+    const margin = layout.height * TEXT_OVERLAY_STYLE.margin;
+
+    const { horizontal, vertical } = getTextOverlayAnchor(overlay.position);
+    const x = horizontal === 'left'
+        ? margin
+        : horizontal === 'right'
+            ? layout.width - margin - imageWidth
+            : (layout.width - imageWidth) / 2;
+    const y = vertical === 'top'
+        ? margin
+        : vertical === 'bottom'
+            ? layout.height - margin - imageHeight
+            : (layout.height - imageHeight) / 2;
+    // Where the box sits inside the image (same anchor)
+    const boxX = horizontal === 'left' ? 0 : horizontal === 'right' ? imageWidth - box.width : (imageWidth - box.width) / 2;
+    const boxY = vertical === 'top' ? 0 : vertical === 'bottom' ? imageHeight - box.height : (imageHeight - box.height) / 2;
+
+    // Resizing the canvas resets the context state, so set the font again
+    canvas.width = imageWidth;
+    canvas.height = imageHeight;
+    ctx.font = getTextOverlayFont(overlay, layout);
+
+    if (overlay.background) {
+        ctx.fillStyle = TEXT_OVERLAY_STYLE.boxColor;
+        ctx.beginPath();
+        ctx.roundRect(boxX, boxY, box.width, box.height, box.padding / 2);
+        ctx.fill();
+    }
+
+    ctx.fillStyle = overlay.color;
+    ctx.textAlign = horizontal;
+    ctx.textBaseline = 'middle';
+    const textX = boxX + (horizontal === 'left' ? box.padding : horizontal === 'right' ? box.width - box.padding : box.width / 2);
+    box.lines.forEach((line, i) => {
+        ctx.fillText(line, textX, boxY + box.padding + box.lineHeight * (i + 0.5));
+    });
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Failed to rasterize text overlay.');
+    return { data: new Uint8Array(await blob.arrayBuffer()), x: Math.round(x), y: Math.round(y) };
+};
+
+/**
+ * Transparent PNG of the given size (the gaps between cues in an image-sequence stream).
+ */
+export const rasterizeBlankImage = async (size: { width: number; height: number }): Promise<Uint8Array> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Failed to rasterize text overlay.');
+    return new Uint8Array(await blob.arrayBuffer());
+};
+
+/**
+ * Composite the rasterized overlays onto [input], one after another, ending in [output].
+ * - firstInput: FFmpeg input index of the first overlay (the rest follow in order)
+ * - positions: where each image goes (see rasterizeTextOverlay)
+ * - enable= limits each image to its output ranges; ranges = null is an image-sequence stream
+ *   that already switches its images on time (shown until it ends)
+ */
+export const buildTextOverlayChain = (
+    input: string,
+    overlays: Array<{ ranges: ExportTextOverlay['ranges'] | null; x: number; y: number }>,
+    firstInput: number,
+    output: string
+) => {
+    return overlays.map((overlay, i) => {
+        const from = i === 0 ? input : `txt${i}`;
+        const to = i === overlays.length - 1 ? output : `txt${i + 1}`;
+        if (!overlay.ranges) {
+            return `[${from}][${firstInput + i}:v]overlay=${overlay.x}:${overlay.y}:eof_action=pass[${to}]`;
+        }
+        const enable = overlay.ranges
+            .map((range) => `between(t,${range.start.toFixed(3)},${range.end.toFixed(3)})`)
+            .join('+');
+        return `[${from}][${firstInput + i}:v]overlay=${overlay.x}:${overlay.y}:enable='${enable}'[${to}]`;
+    });
+};
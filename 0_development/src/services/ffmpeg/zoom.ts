@@ -0,0 +1,15 @@
+import type { ExportZoomRegion, TrimRange, ZoomRegion } from '../../types';
+import { resolveZoomRegions } from '../../types';
+import { mapRangeToOutput } from './chapters';
+
+/**
+ * Map zoom regions from the recording timeline onto the output timeline of a cut.
+ * - segments = null: the whole recording is exported (times stay as they are)
+ * - A region that crosses a cut is split, and each kept part eases in and out on its own
+ * - Overlaps (e.g. from reordered clips) are resolved so only one region zooms at a time
+ */
+export const buildExportZoomRegions = (regions: ZoomRegion[], segments: TrimRange[] | null): ExportZoomRegion[] => {
+    const mapped = regions.flatMap(({ start, end, zoom, x, y }) => (segments ? mapRangeToOutput(start, end, segments) : [{ start, end }])
+        .map((range) => ({ start: range.start, end: range.end, zoom, x, y })));
+    return resolveZoomRegions(mapped);
+};
@@ -1,8 +1,65 @@
 import { FFmpeg } from '@ffmpeg/ffmpeg';
 import { fetchFile } from '@ffmpeg/util';
-import { ExportOptions, VIDEO_QUALITY_PRESETS, VideoQualityPreset } from '../types';
-import { buildVideoFilterString, toArrayBufferUint8 } from './ffmpeg/ffmpegUtils';
-import { buildConcatFilterGraph, detectHasAudio, normalizeSegments } from './ffmpeg/segmentConcat';
+import {
+    DEFAULT_ANIMATED_EXPORT,
+    EXPORT_FORMATS,
+    ExportFormat,
+    ExportOptions,
+    ExportTextOverlay,
+    KeyframeSnapReport,
+    SceneChange,
+    VIDEO_QUALITY_PRESETS,
+    VideoQualityPreset,
+} from '../types';
+import {
+    GIF_PALETTEGEN_FILTER,
+    GIF_PALETTEUSE_FILTER,
+    buildAnimatedFilterString,
+    buildVideoFilterString,
+    buildZoomFilterString,
+    getOutputFrameLayout,
+    toArrayBufferUint8,
+} from './ffmpeg/ffmpegUtils';
+import {
+    buildAudioOnlyFilterGraph,
+    buildConcatFilterGraph,
+    buildSegmentInputArgs,
+    buildVideoOnlyFilterGraph,
+    detectHasAudio,
+    hasSegmentEffects,
+    normalizeSegments,
+} from './ffmpeg/segmentConcat';
+import { buildConcatList, buildSegmentTimes, parseSegmentListCsv, planKeyframeCut, snapChaptersToKeyframes } from './ffmpeg/streamCopy';
+import { SCENE_SCORE_FILE, buildSceneDetectArgs, parseSceneScores } from './ffmpeg/sceneDetect';
+import { METADATA_FILE, buildFfmetadata, hasExportMetadata } from './ffmpeg/chapters';
+import {
+    TEXT_OVERLAY_FILE_PREFIX,
+    buildTextOverlayChain,
+    measureTextOverlayFrame,
+    rasterizeBlankImage,
+    rasterizeTextOverlay,
+} from './ffmpeg/textOverlays';
+import {
+    SUBTITLE_BLANK_FILE,
+    SUBTITLE_CODECS,
+    SUBTITLE_FILE,
+    SUBTITLE_IMAGE_PREFIX,
+    SUBTITLE_LAYER_PREFIX,
+    buildSubtitleLayerList,
+    splitSubtitleLayers,
+    subtitlesToTextOverlays,
+} from './ffmpeg/subtitles';
+import { formatSubtitles } from '../utils/subtitles';
+
+const PALETTE_FILE = 'palette.png';
+const SEGMENT_LIST_FILE = 'parts.csv';
+const CONCAT_LIST_FILE = 'concat.txt';
+// Stream-copy pass 1 output (segment muxer pattern, and what to look for when cleaning up)
+const PART_FILE_PATTERN = 'part%03d.webm';
+const PART_FILE_REGEX = /^part\d{3}\.webm$/;
+
+// 16-bit stereo PCM at 48 kHz (WAV export size estimate)
+const WAV_BITS_PER_SECOND = 48_000 * 16 * 2;
 
 export type FFmpegLoadStatus = 'idle' | 'loading' | 'loaded' | 'error';
 
@@ -11,12 +68,53 @@ interface FFmpegProgress {
     time?: number;
 }
 
+/**
+ * Thrown by processVideo() when the export was stopped via cancelProcessing().
+ */
+export class ExportCancelledError extends Error {
+    constructor() {
+        super('Export cancelled by user.');
+        this.name = 'ExportCancelledError';
+    }
+}
+
+/**
+ * Thrown by audio-only exports when the recording has no audio stream.
+ */
+export class NoAudioTrackError extends Error {
+    constructor() {
+        super('Recording has no audio track.');
+        this.name = 'NoAudioTrackError';
+    }
+}
+
+interface ProcessingJob {
+    cancelled: boolean;
+}
+
+interface EncodeResult {
+    output: Blob;
+    /** Only set by stream-copy exports */
+    keyframeSnap?: KeyframeSnapReport;
+}
+
+export type BatchJobResult =
+    | ({ ok: true } & EncodeResult)
+    | { ok: false; error: unknown };
+
+export interface BatchCallbacks {
+    onJobStart?: (index: number) => void;
+    onJobComplete?: (index: number, output: Blob, keyframeSnap?: KeyframeSnapReport) => void;
+    onJobError?: (index: number, error: unknown) => void;
+}
+
 class FFmpegService {
     private ffmpeg: FFmpeg | null = null;
     private loadStatus: FFmpegLoadStatus = 'idle';
     private loadPromise: Promise<void> | null = null;
     private onProgressCallback: ((progress: FFmpegProgress) => void) | null = null;
     private onStatusChangeCallback: ((status: FFmpegLoadStatus) => void) | null = null;
+    private activeJob: ProcessingJob | null = null;
 
     /**
      * Subscribe to status changes
@@ -51,19 +149,24 @@ class FFmpegService {
 
     /**
      * Initialize FFmpeg.wasm.
+     * Rejects with ExportCancelledError when cancelProcessing() replaced the instance while it was loading.
      */
     async load(): Promise<void> {
         if (this.loadStatus === 'loaded' && this.ffmpeg) return;
 
         this.setStatus('loading');
 
-        this.ffmpeg = new FFmpeg();
+        // cancelProcessing() can terminate this instance and start a new load while this one is still running;
+        // from then on this load must not touch the new instance or its status
+        const ffmpeg = new FFmpeg();
+        this.ffmpeg = ffmpeg;
+        const isSuperseded = () => this.ffmpeg !== ffmpeg;
 
-        this.ffmpeg.on('log', ({ message }) => {
+        ffmpeg.on('log', ({ message }) => {
             console.log('[FFmpeg Log]:', message);
         });
 
-        this.ffmpeg.on('progress', ({ progress, time }) => {
+        ffmpeg.on('progress', ({ progress, time }) => {
             this.onProgressCallback?.({ ratio: progress, time });
         });
 
@@ -83,7 +186,7 @@ class FFmpegService {
         // Prefer multi-threaded core; fall back to the single-thread build if it fails.
         const loadWithConfig = async (cfgBase: string, threaded: boolean) => {
             console.info(`[FFmpeg] Loading ${threaded ? 'multi' : 'single'}-thread core from ${cfgBase}`);
-            await this.ffmpeg!.load({
+            await ffmpeg.load({
                 // Use the upstream worker bridge and swap core binaries
                 classWorkerURL: bridgeWorkerURL,
                 coreURL: `${cfgBase}/ffmpeg-core.js`,
@@ -97,32 +200,38 @@ class FFmpegService {
             await loadWithConfig(mtBaseURL, true);
             console.timeEnd('[FFmpeg] multi-thread load');
             console.info('[FFmpeg] Loaded multi-threaded core');
-            this.setStatus('loaded');
-            return;
         } catch (mtError) {
+            // Terminated by a cancel: the new instance is loading on its own
+            if (isSuperseded()) throw new ExportCancelledError();
             console.warn('[FFmpeg] Multi-thread load failed, falling back to single-threaded core', mtError);
-        }
 
-        try {
-            console.time('[FFmpeg] single-thread load');
-            await loadWithConfig(baseURL, false);
-            console.timeEnd('[FFmpeg] single-thread load');
-            this.setStatus('loaded');
-        } catch (error) {
-            console.error('Failed to load FFmpeg:', error);
-            this.setStatus('error');
-            throw new Error('Failed to load video processing engine. Please check your network connection.');
+            try {
+                console.time('[FFmpeg] single-thread load');
+                await loadWithConfig(baseURL, false);
+                console.timeEnd('[FFmpeg] single-thread load');
+            } catch (error) {
+                if (isSuperseded()) throw new ExportCancelledError();
+                console.error('Failed to load FFmpeg:', error);
+                this.setStatus('error');
+                throw new Error('Failed to load video processing engine. Please check your network connection.');
+            }
         }
+
+        if (isSuperseded()) throw new ExportCancelledError();
+        this.setStatus('loaded');
     }
 
     /**
      * Get estimated output file size based on quality and duration
      */
-    estimateFileSize(durationSeconds: number, quality: VideoQualityPreset): string {
+    estimateFileSize(durationSeconds: number, quality: VideoQualityPreset, format: ExportFormat = 'mp4'): string {
         const config = VIDEO_QUALITY_PRESETS[quality];
         // Rough estimate: bitrate * duration / 8 (bits to bytes)
-        const videoBitrate = config.videoBitsPerSecond;
-        const audioBitrate = parseInt(config.audioBitrate) * 1000; // e.g., 128k -> 128000
+        const audioOnly = EXPORT_FORMATS[format].kind === 'audio';
+        const videoBitrate = audioOnly ? 0 : config.videoBitsPerSecond;
+        const audioBitrate = format === 'wav'
+            ? WAV_BITS_PER_SECOND
+            : parseInt(config.audioBitrate) * 1000; // e.g., 128k -> 128000
         const totalBitrate = videoBitrate + audioBitrate;
         const bytes = (totalBitrate * durationSeconds) / 8;
 
@@ -135,6 +244,59 @@ class FFmpegService {
         }
     }
 
+    /**
+     * Whether an export started by processVideo()/processVideoBatch() is currently running
+     */
+    isProcessing(): boolean {
+        return this.activeJob !== null;
+    }
+
+    /**
+     * Stop the running export.
+     * ffmpeg.wasm cannot interrupt exec() from the outside, so the worker is terminated
+     * (which also drops its in-memory FS) and the core is reloaded in the background.
+     */
+    cancelProcessing(): void {
+        const job = this.activeJob;
+        if (!job) return;
+        job.cancelled = true;
+
+        console.info('[FFmpeg] Cancelling export, terminating worker');
+        this.ffmpeg?.terminate();
+        this.ffmpeg = null;
+        this.loadPromise = null;
+        this.setStatus('idle');
+
+        this.preload().catch((error) => {
+            console.error('[FFmpeg] Reload after cancel failed:', error);
+        });
+    }
+
+    /**
+     * Best-effort removal of temporary files from FFmpeg's virtual FS
+     */
+    private async cleanupFiles(ffmpeg: FFmpeg, names: string[]) {
+        for (const name of names) {
+            try {
+                await ffmpeg.deleteFile(name);
+            } catch {
+                // file was never written (or already removed)
+            }
+        }
+    }
+
+    /**
+     * Stream-copy part files currently in FFmpeg's virtual FS (best effort)
+     */
+    private async listPartFiles(ffmpeg: FFmpeg): Promise<string[]> {
+        try {
+            const nodes = await ffmpeg.listDir('.');
+            return nodes.filter((node) => !node.isDir && PART_FILE_REGEX.test(node.name)).map((node) => node.name);
+        } catch {
+            return [];
+        }
+    }
+
     /**
      * Converts a WebM Blob to MP4/WebM with configurable quality settings
      */
@@ -142,97 +304,591 @@ class FFmpegService {
         inputBlob: Blob,
         options: ExportOptions = { quality: 'medium' }
     ): Promise<Blob> {
-        if (!this.ffmpeg || this.loadStatus !== 'loaded') {
-            await this.load();
+        const [result] = await this.processVideoBatch(inputBlob, [options]);
+        if (!result.ok) throw result.error;
+        return result.output;
+    }
+
+    /**
+     * Run several exports of the same input one after another.
+     * - The input is written to FFmpeg's FS once and reused by every job
+     * - A failing job does not stop the batch (see the per-job results / callbacks)
+     * - Cancelling stops the whole batch and rejects with ExportCancelledError
+     */
+    async processVideoBatch(
+        inputBlob: Blob,
+        jobs: ExportOptions[],
+        callbacks: BatchCallbacks = {}
+    ): Promise<BatchJobResult[]> {
+        return this.runExclusive((ffmpeg, job) => this.runBatch(ffmpeg, job, inputBlob, jobs, callbacks));
+    }
+
+    /**
+     * Find visual scene changes (switching apps, opening a dialog, ...).
+     * - Runs the `select` filter on a small, low-fps copy of the video and logs every
+     *   frame whose scene score exceeds SCENE_CANDIDATE_THRESHOLD; callers filter further
+     * - Shares the worker with exports: cancel with cancelProcessing()
+     */
+    async detectScenes(inputBlob: Blob): Promise<SceneChange[]> {
+        return this.runExclusive(async (ffmpeg, job) => {
+            const inputName = 'input.webm';
+            try {
+                await ffmpeg.writeFile(inputName, await fetchFile(inputBlob));
+                if (job.cancelled) throw new ExportCancelledError();
+
+                const args = buildSceneDetectArgs(inputName, SCENE_SCORE_FILE);
+                console.log('Running FFmpeg command:', args.join(' '));
+                if ((await ffmpeg.exec(args)) !== 0) throw new Error('FFmpeg exec failed (scene detection).');
+                if (job.cancelled) throw new ExportCancelledError();
+
+                const text = await ffmpeg.readFile(SCENE_SCORE_FILE, 'utf8');
+                return parseSceneScores(typeof text === 'string' ? text : new TextDecoder().decode(text));
+            } finally {
+                if (!job.cancelled) await this.cleanupFiles(ffmpeg, [inputName, SCENE_SCORE_FILE]);
+            }
+        });
+    }
+
+    /**
+     * Run one job on the worker at a time (loading it first if needed).
+     * Throws ExportCancelledError when cancelProcessing() stopped the job.
+     */
+    private async runExclusive<T>(run: (ffmpeg: FFmpeg, job: ProcessingJob) => Promise<T>): Promise<T> {
+        if (this.activeJob) {
+            throw new Error('Another export is already running.');
+        }
+        const job: ProcessingJob = { cancelled: false };
+        this.activeJob = job;
+
+        try {
+            if (this.loadStatus === 'loading' && this.loadPromise) {
+                // e.g. still reloading after a previous cancel
+                await this.loadPromise;
+            } else if (!this.ffmpeg || this.loadStatus !== 'loaded') {
+                await this.load();
+            }
+            if (job.cancelled) throw new ExportCancelledError();
+            return await run(this.ffmpeg!, job);
+        } catch (error) {
+            // terminate() rejects pending calls with its own error; report it as a cancel
+            if (job.cancelled) throw new ExportCancelledError();
+            throw error;
+        } finally {
+            if (this.activeJob === job) this.activeJob = null;
+        }
+    }
+
+    private async runBatch(
+        ffmpeg: FFmpeg,
+        job: ProcessingJob,
+        inputBlob: Blob,
+        jobs: ExportOptions[],
+        callbacks: BatchCallbacks
+    ): Promise<BatchJobResult[]> {
+        const inputName = 'input.webm';
+
+        try {
+            // 1. Write file to FFmpeg's virtual file system (once for the whole batch)
+            await ffmpeg.writeFile(inputName, await fetchFile(inputBlob));
+            if (job.cancelled) throw new ExportCancelledError();
+
+            // Audio probe is only needed for multi-segment jobs; run it at most once
+            let hasAudioPromise: Promise<boolean> | null = null;
+            const probeAudio = () => (hasAudioPromise ??= detectHasAudio(ffmpeg, inputName));
+
+            const results: BatchJobResult[] = [];
+            for (let i = 0; i < jobs.length; i++) {
+                callbacks.onJobStart?.(i);
+                try {
+                    const { output, keyframeSnap } = await this.encode(ffmpeg, job, inputName, jobs[i], probeAudio);
+                    results.push({ ok: true, output, keyframeSnap });
+                    callbacks.onJobComplete?.(i, output, keyframeSnap);
+                } catch (error) {
+                    if (job.cancelled) throw new ExportCancelledError();
+                    console.error(`[FFmpeg] Batch job ${i + 1}/${jobs.length} failed:`, error);
+                    results.push({ ok: false, error });
+                    callbacks.onJobError?.(i, error);
+                }
+            }
+            return results;
+        } finally {
+            // Cleanup (skip when cancelled: the worker and its FS are already gone)
+            if (!job.cancelled) await this.cleanupFiles(ffmpeg, [inputName]);
+        }
+    }
+
+    private async encode(
+        ffmpeg: FFmpeg,
+        job: ProcessingJob,
+        inputName: string,
+        options: ExportOptions,
+        probeAudio: () => Promise<boolean>
+    ): Promise<EncodeResult> {
+        const format = options.format || 'mp4';
+        if (EXPORT_FORMATS[format].kind === 'animated') {
+            return { output: await this.encodeAnimated(ffmpeg, job, inputName, options, format) };
+        }
+        if (EXPORT_FORMATS[format].kind === 'audio') {
+            return { output: await this.encodeAudio(ffmpeg, job, inputName, options, format, probeAudio) };
+        }
+        // Stream copy can't retime or blend segments, draw text, add subtitles, crop or zoom; such exports fall back to re-encoding
+        const canStreamCopy = !hasSegmentEffects(normalizeSegments(options.segments ?? []))
+            && !options.textOverlays?.length && !options.subtitles?.cues.length && !options.crop && !options.zoomRegions?.length;
+        if (options.streamCopy && format === 'webm' && canStreamCopy) {
+            return this.encodeStreamCopy(ffmpeg, job, inputName, options);
         }
-        const ffmpeg = this.ffmpeg!;
 
         const qualityConfig = VIDEO_QUALITY_PRESETS[options.quality];
         const crfValueRaw = options.crf ?? qualityConfig.crf;
         const crfValue = Math.min(Math.max(crfValueRaw, 0), 51); // clamp to ffmpeg CRF range
-        const format = options.format || 'mp4';
-        const inputName = 'input.webm';
-        const outputName = `output.${format}`;
+        const outputName = `output.${EXPORT_FORMATS[format].extension}`;
+        let overlayFiles: string[] = [];
 
-        // 1. Write file to FFmpeg's virtual file system
-        await ffmpeg.writeFile(inputName, await fetchFile(inputBlob));
+        try {
+            // Multi-segment export (split/delete-middle editing)
+            const segments = options.segments?.length
+                ? normalizeSegments(options.segments)
+                : (options.trimStart !== undefined && options.trimEnd !== undefined)
+                    ? normalizeSegments([{ start: options.trimStart, end: options.trimEnd }])
+                    : null;
+
+            const textOverlays = await this.prepareTextOverlays(ffmpeg, options);
+            overlayFiles = textOverlays.files;
+            if (job.cancelled) throw new ExportCancelledError();
+            const hasTextOverlays = textOverlays.overlays.length > 0;
+            const softSubtitles = await this.prepareSoftSubtitles(ffmpeg, options, format);
+            // Zoom expressions use output time, which only the filter graph (or the whole recording) provides
+            const zoomFilter = buildZoomFilterString(options);
+
+            // 2. Build command
+            // A single 1x trim uses output-side -ss (fast path), which FFmpeg also subtracts from mapped chapters;
+            // anything else goes through the filter graph (soft subtitles and zoom too: -ss would leave them on recording time)
+            const useFilterGraph = !!segments
+                && (segments.length > 1 || hasSegmentEffects(segments) || hasTextOverlays || !!softSubtitles || !!zoomFilter);
+            const chapterOffset = segments && !useFilterGraph ? segments[0].start : 0;
+            const metadataArgs = await this.prepareMetadata(ffmpeg, options, chapterOffset);
+            // Inputs: recording, optional metadata, optional subtitles, one PNG per overlay and one image sequence per subtitle layer,
+            // then the recording again for every segment that seeks its own input
+            const subtitleInput = 1 + metadataArgs.input.length / 2;
+            const firstOverlayInput = subtitleInput + (softSubtitles ? 1 : 0);
+            const segmentInput = firstOverlayInput + textOverlays.overlays.length;
+            const args: string[] = [
+                '-i', inputName,
+                ...metadataArgs.input,
+                ...(softSubtitles ? ['-i', SUBTITLE_FILE] : []),
+                ...textOverlays.inputs,
+                ...(segments && useFilterGraph ? buildSegmentInputArgs(segments, inputName) : []),
+            ];
+
+            const videoFilter = buildVideoFilterString(options);
+            // Single-chain paths apply the zoom right after the other video filters
+            const fullVideoFilter = zoomFilter ? `${videoFilter},${zoomFilter}` : videoFilter;
+            let hasMappedAudio = true;
+
+            if (segments && useFilterGraph) {
+                const hasAudio = await probeAudio();
+                if (job.cancelled) throw new ExportCancelledError();
+                const { filterGraph, videoOut, audioOut } = buildConcatFilterGraph({
+                    segments,
+                    hasAudio,
+                    videoFilter,
+                    outputFilter: zoomFilter,
+                    segmentInput,
+                });
+
+                if (hasTextOverlays) {
+                    const overlayChain = buildTextOverlayChain(videoOut, textOverlays.overlays, firstOverlayInput, 'vtext');
+                    args.push('-filter_complex', [filterGraph, ...overlayChain].join(';'));
+                    args.push('-map', '[vtext]');
+                } else {
+                    args.push('-filter_complex', filterGraph);
+                    args.push('-map', `[${videoOut}]`);
+                }
+                if (audioOut) {
+                    args.push('-map', `[${audioOut}]`);
+                } else {
+                    hasMappedAudio = false;
+                    args.push('-an');
+                }
+            } else if (hasTextOverlays) {
+                // Whole recording with text: scale first, then composite (audio passes through)
+                const overlayChain = buildTextOverlayChain('vbase', textOverlays.overlays, firstOverlayInput, 'vtext');
+                args.push('-filter_complex', [`[0:v]${fullVideoFilter}[vbase]`, ...overlayChain].join(';'));
+                args.push('-map', '[vtext]', '-map', '0:a?');
+            } else {
+                // Single trim (fast path)
+                if (segments && segments.length === 1) {
+                    const s = segments[0];
+                    args.push('-ss', s.start.toFixed(3));
+                    args.push('-to', s.end.toFixed(3));
+                }
+                // With a subtitle input, automatic stream selection no longer picks just the recording
+                if (softSubtitles) args.push('-map', '0:v', '-map', '0:a?');
+
+                // Resolution scaling + fps normalize (segments are never zoomed here, see useFilterGraph)
+                args.push('-vf', fullVideoFilter);
+            }
+
+            if (softSubtitles) {
+                args.push('-map', `${subtitleInput}:s`, '-c:s', softSubtitles.codec);
+            }
+
+            // Video codec and quality settings
+            if (format === 'mp4') {
+                args.push('-c:v', 'libx264');
+
+                // CRF for quality (only if not lossless)
+                if (crfValue > 0) {
+                    args.push('-crf', crfValue.toString());
+                } else {
+                    // Lossless mode
+                    args.push('-crf', '0');
+                }
+
+                args.push('-preset', qualityConfig.ffmpegPreset);
+
+                // Pixel format for compatibility
+                args.push('-pix_fmt', 'yuv420p');
+
+                // Audio (skip when we explicitly map no-audio in multi-segment mode)
+                if (hasMappedAudio) {
+                    args.push('-c:a', 'aac', '-b:a', qualityConfig.audioBitrate);
+                }
+
+                // Faststart for web playback (moov atom at beginning)
+                args.push('-movflags', '+faststart');
+            } else if (format === 'webm') {
+                args.push('-c:v', 'libvpx-vp9');
+                args.push('-crf', crfValue.toString());
+                args.push('-b:v', '0'); // Use CRF mode
+                if (hasMappedAudio) {
+                    args.push('-c:a', 'libopus', '-b:a', qualityConfig.audioBitrate);
+                }
+            }
+
+            args.push(...metadataArgs.output, outputName);
+
+            return { output: await this.runAndRead(ffmpeg, args, outputName, EXPORT_FORMATS[format].mimeType) };
+        } finally {
+            if (!job.cancelled) await this.cleanupFiles(ffmpeg, [outputName, METADATA_FILE, SUBTITLE_FILE, ...overlayFiles]);
+        }
+    }
+
+    /**
+     * Rasterize the job's text overlays to PNGs (one input each) and burned-in subtitle cues
+     * to image-sequence inputs (one per layer of non-overlapping cues, see splitSubtitleLayers).
+     * - Skipped when the recording's frame size is unknown (nothing to lay them out against)
+     */
+    private async prepareTextOverlays(
+        ffmpeg: FFmpeg,
+        options: ExportOptions
+    ): Promise<{ files: string[]; inputs: string[]; overlays: Array<{ ranges: ExportTextOverlay['ranges'] | null; x: number; y: number }> }> {
+        const textOverlays = options.textOverlays ?? [];
+        const cues = options.subtitles?.mode === 'burn' ? options.subtitles.cues : [];
+        if (textOverlays.length === 0 && cues.length === 0) return { files: [], inputs: [], overlays: [] };
+        if (!options.sourceSize) {
+            console.warn('Text overlays skipped: recording frame size is unknown.');
+            return { files: [], inputs: [], overlays: [] };
+        }
 
-        // 2. Build command
-        const args: string[] = ['-i', inputName];
+        const layout = getOutputFrameLayout(options, options.sourceSize);
+        const files: string[] = [];
+        const inputs: string[] = [];
+        const placed: Array<{ ranges: ExportTextOverlay['ranges'] | null; x: number; y: number }> = [];
+        for (let i = 0; i < textOverlays.length; i++) {
+            const name = `${TEXT_OVERLAY_FILE_PREFIX}${i}.png`;
+            const { data, x, y } = await rasterizeTextOverlay(textOverlays[i], layout);
+            await ffmpeg.writeFile(name, data);
+            files.push(name);
+            inputs.push('-i', name);
+            placed.push({ ranges: textOverlays[i].ranges, x, y });
+        }
+
+        if (cues.length > 0) {
+            // Every cue image has the same size, so a layer can switch between them in one stream
+            const cueOverlays = subtitlesToTextOverlays(cues);
+            const frame = measureTextOverlayFrame(cueOverlays, layout);
+            await ffmpeg.writeFile(SUBTITLE_BLANK_FILE, await rasterizeBlankImage(frame));
+            files.push(SUBTITLE_BLANK_FILE);
+
+            // All cues share SUBTITLE_BURN_STYLE and the image size, so they land on the same spot
+            let position = { x: 0, y: 0 };
+            const images: Array<{ start: number; end: number; file: string }> = [];
+            for (let i = 0; i < cues.length; i++) {
+                const name = `${SUBTITLE_IMAGE_PREFIX}${i}.png`;
+                const { data, x, y } = await rasterizeTextOverlay(cueOverlays[i], layout, frame);
+                await ffmpeg.writeFile(name, data);
+                files.push(name);
+                images.push({ start: cues[i].start, end: cues[i].end, file: name });
+                position = { x, y };
+            }
+
+            const layers = splitSubtitleLayers(images);
+            for (let i = 0; i < layers.length; i++) {
+                const name = `${SUBTITLE_LAYER_PREFIX}${i}.txt`;
+                await ffmpeg.writeFile(name, buildSubtitleLayerList(layers[i], SUBTITLE_BLANK_FILE));
+                files.push(name);
+                inputs.push('-f', 'concat', '-safe', '0', '-i', name);
+                placed.push({ ranges: null, ...position });
+            }
+        }
+        return { files, inputs, overlays: placed };
+    }
+
+    /**
+     * Write soft subtitles as an SRT input; null when the job has none (or the container can't hold them)
+     */
+    private async prepareSoftSubtitles(
+        ffmpeg: FFmpeg,
+        options: ExportOptions,
+        format: ExportFormat
+    ): Promise<{ codec: string } | null> {
+        const codec = SUBTITLE_CODECS[format];
+        if (options.subtitles?.mode !== 'soft' || options.subtitles.cues.length === 0 || !codec) return null;
+        await ffmpeg.writeFile(SUBTITLE_FILE, formatSubtitles(options.subtitles.cues, 'srt'));
+        return { codec };
+    }
 
-        const videoFilter = buildVideoFilterString(options);
-        let hasMappedAudio = true;
+    /**
+     * Write the FFMETADATA file when the job has chapters or tags.
+     * Returns the extra input (always input #1) and the output-side mapping args.
+     */
+    private async prepareMetadata(
+        ffmpeg: FFmpeg,
+        options: ExportOptions,
+        offset = 0
+    ): Promise<{ input: string[]; output: string[] }> {
+        const chapters = options.chapters ?? [];
+        if (chapters.length === 0 && !hasExportMetadata(options.metadata)) return { input: [], output: [] };
+        await ffmpeg.writeFile(METADATA_FILE, buildFfmetadata(chapters, offset, options.metadata));
+        return {
+            input: ['-i', METADATA_FILE],
+            output: ['-map_metadata', '1', '-map_chapters', '1'],
+        };
+    }
 
-        // Multi-segment export (split/delete-middle editing)
+    /**
+     * Fast export: stream copy into WebM without re-encoding
+     * - Pass 1: segment muxer splits the input on the keyframes at/after each cut point
+     * - Pass 2: concat demuxer joins the parts that belong to the kept segments
+     * - Reports how far cut points had to move (see KeyframeSnapReport); chapters follow the moved cuts
+     */
+    private async encodeStreamCopy(
+        ffmpeg: FFmpeg,
+        job: ProcessingJob,
+        inputName: string,
+        options: ExportOptions
+    ): Promise<EncodeResult> {
+        const outputName = 'output.webm';
+        const mimeType = EXPORT_FORMATS.webm.mimeType;
         const segments = options.segments?.length
             ? normalizeSegments(options.segments)
             : (options.trimStart !== undefined && options.trimEnd !== undefined)
                 ? normalizeSegments([{ start: options.trimStart, end: options.trimEnd }])
-                : null;
-
-        if (segments && segments.length > 1) {
-            const hasAudio = await detectHasAudio(ffmpeg, inputName);
-            const { filterGraph, videoOut, audioOut } = buildConcatFilterGraph({
-                segments,
-                hasAudio,
-                videoFilter,
-            });
+                : [];
 
-            args.push('-filter_complex', filterGraph);
-            args.push('-map', `[${videoOut}]`);
-            if (audioOut) {
-                args.push('-map', `[${audioOut}]`);
-            } else {
-                hasMappedAudio = false;
-                args.push('-an');
+        const tempFiles = [outputName, SEGMENT_LIST_FILE, CONCAT_LIST_FILE, METADATA_FILE];
+        try {
+            // No cuts: plain remux
+            if (segments.length === 0) {
+                const metadataArgs = await this.prepareMetadata(ffmpeg, options);
+                const args = ['-i', inputName, ...metadataArgs.input, '-map', '0', '-c', 'copy', ...metadataArgs.output, outputName];
+                return { output: await this.runAndRead(ffmpeg, args, outputName, mimeType) };
             }
-        } else {
-            // Single trim (fast path)
-            if (segments && segments.length === 1) {
-                const s = segments[0];
-                args.push('-ss', s.start.toFixed(3));
-                args.push('-to', s.end.toFixed(3));
+
+            // Pass 1: split on keyframes
+            const splitArgs = [
+                '-i', inputName,
+                '-map', '0',
+                '-c', 'copy',
+                '-f', 'segment',
+                '-segment_format', 'webm',
+                '-segment_times', buildSegmentTimes(segments).join(','),
+                '-segment_list', SEGMENT_LIST_FILE,
+                '-segment_list_type', 'csv',
+                '-reset_timestamps', '1',
+                PART_FILE_PATTERN,
+            ];
+            console.log('Running FFmpeg command:', splitArgs.join(' '));
+            if ((await ffmpeg.exec(splitArgs)) !== 0) throw new Error('FFmpeg exec failed (segment split).');
+            if (job.cancelled) throw new ExportCancelledError();
+
+            const listText = await ffmpeg.readFile(SEGMENT_LIST_FILE, 'utf8');
+            const parts = parseSegmentListCsv(typeof listText === 'string' ? listText : new TextDecoder().decode(listText));
+
+            const { files, snapped, report } = planKeyframeCut(segments, parts);
+            if (files.length === 0) {
+                throw new Error('No keyframe-aligned content left to export.');
             }
+            // Chapters were laid out on the requested cut; the output follows the snapped one
+            const metadataArgs = await this.prepareMetadata(ffmpeg, {
+                ...options,
+                chapters: options.chapters && snapChaptersToKeyframes(options.chapters, segments, snapped),
+            });
 
-            // Resolution scaling + fps normalize
-            args.push('-vf', videoFilter);
+            // Pass 2: join the kept parts
+            await ffmpeg.writeFile(CONCAT_LIST_FILE, buildConcatList(files));
+            if (job.cancelled) throw new ExportCancelledError();
+            const concatArgs = [
+                '-f', 'concat', '-safe', '0', '-i', CONCAT_LIST_FILE,
+                ...metadataArgs.input,
+                '-map', '0',
+                '-c', 'copy',
+                ...metadataArgs.output,
+                outputName,
+            ];
+            const output = await this.runAndRead(ffmpeg, concatArgs, outputName, mimeType);
+
+            return { output, keyframeSnap: report };
+        } finally {
+            // Parts are listed from the FS, so a failed split or list read still cleans up what it wrote
+            if (!job.cancelled) await this.cleanupFiles(ffmpeg, [...tempFiles, ...(await this.listPartFiles(ffmpeg))]);
         }
+    }
 
-        // Video codec and quality settings
-        if (format === 'mp4') {
-            args.push('-c:v', 'libx264');
+    /**
+     * Animated image export (gif / apng / webp)
+     * - Video-only graph with its own width/fps (audio is dropped)
+     * - Zoom regions and text overlays are applied to the scaled frames
+     * - GIF uses two passes: palettegen over the whole cut, then paletteuse with that palette
+     */
+    private async encodeAnimated(
+        ffmpeg: FFmpeg,
+        job: ProcessingJob,
+        inputName: string,
+        options: ExportOptions,
+        format: ExportFormat
+    ): Promise<Blob> {
+        const animation = options.animation ?? DEFAULT_ANIMATED_EXPORT;
+        const outputName = `output.${EXPORT_FORMATS[format].extension}`;
 
-            // CRF for quality (only if not lossless)
-            if (crfValue > 0) {
-                args.push('-crf', crfValue.toString());
+        const segments = options.segments?.length
+            ? normalizeSegments(options.segments)
+            : (options.trimStart !== undefined && options.trimEnd !== undefined)
+                ? normalizeSegments([{ start: options.trimStart, end: options.trimEnd }])
+                : [];
+        const { filterGraph, videoOut } = buildVideoOnlyFilterGraph({
+            segments,
+            videoFilter: buildAnimatedFilterString(options),
+            outputFilter: buildZoomFilterString(options),
+        });
+
+        // Segments that seek their own input come right after the recording (the graph's default segmentInput)
+        const segmentInputArgs = buildSegmentInputArgs(segments, inputName);
+        let overlayFiles: string[] = [];
+
+        try {
+            // Text overlays go on the scaled frames, before the GIF palette is built (their inputs follow the segment inputs)
+            const textOverlays = await this.prepareTextOverlays(ffmpeg, options);
+            overlayFiles = textOverlays.files;
+            if (job.cancelled) throw new ExportCancelledError();
+            const firstOverlayInput = 1 + segmentInputArgs.length / 6;
+            const framesGraph = textOverlays.overlays.length > 0
+                ? [filterGraph, ...buildTextOverlayChain(videoOut, textOverlays.overlays, firstOverlayInput, 'vtext')].join(';')
+                : filterGraph;
+            const framesOut = textOverlays.overlays.length > 0 ? 'vtext' : videoOut;
+            const inputArgs = ['-i', inputName, ...segmentInputArgs, ...textOverlays.inputs];
+            const args: string[] = [...inputArgs];
+
+            if (format === 'gif') {
+                // Pass 1: palette for the whole cut
+                const paletteArgs = [
+                    ...inputArgs,
+                    '-filter_complex', `${framesGraph};[${framesOut}]${GIF_PALETTEGEN_FILTER}[pal]`,
+                    '-map', '[pal]',
+                    '-update', '1',
+                    '-frames:v', '1',
+                    PALETTE_FILE,
+                ];
+                console.log('Running FFmpeg command:', paletteArgs.join(' '));
+                if ((await ffmpeg.exec(paletteArgs)) !== 0) throw new Error('FFmpeg exec failed (palettegen).');
+                if (job.cancelled) throw new ExportCancelledError();
+
+                // Pass 2: map frames onto the palette (the input after the segment and overlay inputs)
+                const paletteInput = firstOverlayInput + textOverlays.overlays.length;
+                args.push('-i', PALETTE_FILE);
+                args.push('-filter_complex', `${framesGraph};[${framesOut}][${paletteInput}:v]${GIF_PALETTEUSE_FILTER}[gif]`);
+                args.push('-map', '[gif]');
+                // gif muxer: 0 = loop forever, -1 = play once
+                args.push('-loop', animation.loop ? '0' : '-1');
             } else {
-                // Lossless mode
-                args.push('-crf', '0');
+                args.push('-filter_complex', framesGraph);
+                args.push('-map', `[${framesOut}]`);
+
+                if (format === 'apng') {
+                    args.push('-c:v', 'apng', '-f', 'apng');
+                    // apng muxer: 0 = loop forever
+                    args.push('-plays', animation.loop ? '0' : '1');
+                } else {
+                    args.push('-c:v', 'libwebp', '-lossless', '0', '-q:v', '75');
+                    // webp muxer: 0 = loop forever
+                    args.push('-loop', animation.loop ? '0' : '1');
+                }
             }
 
-            args.push('-preset', qualityConfig.ffmpegPreset);
+            args.push('-an', outputName);
+            return await this.runAndRead(ffmpeg, args, outputName, EXPORT_FORMATS[format].mimeType);
+        } finally {
+            if (!job.cancelled) await this.cleanupFiles(ffmpeg, [outputName, PALETTE_FILE, ...overlayFiles]);
+        }
+    }
 
-            // Pixel format for compatibility
-            args.push('-pix_fmt', 'yuv420p');
+    /**
+     * Audio-only export (mp3 / m4a / wav / opus)
+     * - Keeps the same segments as the video export, video stream is dropped
+     * - Rejects with NoAudioTrackError when the recording has no audio
+     */
+    private async encodeAudio(
+        ffmpeg: FFmpeg,
+        job: ProcessingJob,
+        inputName: string,
+        options: ExportOptions,
+        format: ExportFormat,
+        probeAudio: () => Promise<boolean>
+    ): Promise<Blob> {
+        const hasAudio = await probeAudio();
+        if (job.cancelled) throw new ExportCancelledError();
+        if (!hasAudio) throw new NoAudioTrackError();
 
-            // Audio (skip when we explicitly map no-audio in multi-segment mode)
-            if (hasMappedAudio) {
-                args.push('-c:a', 'aac', '-b:a', qualityConfig.audioBitrate);
-            }
+        const { audioBitrate } = VIDEO_QUALITY_PRESETS[options.quality];
+        const outputName = `output.${EXPORT_FORMATS[format].extension}`;
+
+        const segments = options.segments?.length
+            ? normalizeSegments(options.segments)
+            : (options.trimStart !== undefined && options.trimEnd !== undefined)
+                ? normalizeSegments([{ start: options.trimStart, end: options.trimEnd }])
+                : [];
+        const { filterGraph, audioOut } = buildAudioOnlyFilterGraph({ segments });
 
-            // Faststart for web playback (moov atom at beginning)
-            args.push('-movflags', '+faststart');
-        } else if (format === 'webm') {
-            args.push('-c:v', 'libvpx-vp9');
-            args.push('-crf', crfValue.toString());
-            args.push('-b:v', '0'); // Use CRF mode
-            if (hasMappedAudio) {
-                args.push('-c:a', 'libopus', '-b:a', qualityConfig.audioBitrate);
+        try {
+            // Segments that seek their own input come right after the recording (the graph's default segmentInput)
+            const args: string[] = ['-i', inputName, ...buildSegmentInputArgs(segments, inputName)];
+            if (filterGraph) {
+                args.push('-filter_complex', filterGraph);
+                args.push('-map', `[${audioOut}]`);
+            } else {
+                args.push('-map', '0:a:0');
+            }
+            args.push('-vn');
+
+            if (format === 'mp3') {
+                args.push('-c:a', 'libmp3lame', '-b:a', audioBitrate);
+            } else if (format === 'm4a') {
+                args.push('-c:a', 'aac', '-b:a', audioBitrate, '-movflags', '+faststart');
+            } else if (format === 'wav') {
+                args.push('-c:a', 'pcm_s16le');
+            } else {
+                args.push('-c:a', 'libopus', '-b:a', audioBitrate);
             }
-        }
 
-        args.push(outputName);
+            args.push(outputName);
+            return await this.runAndRead(ffmpeg, args, outputName, EXPORT_FORMATS[format].mimeType);
+        } finally {
+            if (!job.cancelled) await this.cleanupFiles(ffmpeg, [outputName]);
+        }
+    }
 
+    private async runAndRead(ffmpeg: FFmpeg, args: string[], outputName: string, mimeType: string): Promise<Blob> {
         // 3. Run command
         console.log('Running FFmpeg command:', args.join(' '));
         if ((await ffmpeg.exec(args)) !== 0) throw new Error('FFmpeg exec failed (processVideo).');
@@ -243,11 +899,6 @@ class FFmpegService {
             throw new Error('FFmpeg output is a string; expected binary data.');
         }
 
-        // Cleanup
-        await ffmpeg.deleteFile(inputName);
-        await ffmpeg.deleteFile(outputName);
-
-        const mimeType = format === 'mp4' ? 'video/mp4' : 'video/webm';
         const u8 = toArrayBufferUint8(data);
         return new Blob([u8], { type: mimeType });
     }
@@ -0,0 +1,55 @@
+/**
+ * Filmstrip Storage (IndexedDB)
+ * 时间轴缩略图快取：每笔录制一条，依固定间隔抓帧
+ * - 可以只存一部分（背景产生到一半被关掉时，下次从缺的帧继续）
+ */
+
+import { FILMSTRIPS_STORE as STORE_NAME, openDatabase, requestToPromise } from './storage/db';
+
+// 抓帧方式 / 尺寸变更时 +1，旧快取会被丢弃重算
+export const FILMSTRIP_VERSION = 1;
+
+export interface StoredFilmstrip {
+    recordingId: string;
+    version: number;
+    /** 相邻两帧的时间间隔（秒）；第 i 帧取自 (i + 0.5) * interval */
+    interval: number;
+    /** null = 尚未产生 */
+    frames: Array<Blob | null>;
+    updatedAt: number;
+}
+
+class FilmstripStorageService {
+    /**
+     * 读取某笔录制的 filmstrip（没有或版本不符则回传 null）
+     */
+    async loadFilmstrip(recordingId: string): Promise<StoredFilmstrip | null> {
+        try {
+            const db = await openDatabase();
+            const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+            const raw = (await requestToPromise(store.get(recordingId))) as StoredFilmstrip | undefined;
+            if (!raw || raw.version !== FILMSTRIP_VERSION || !Array.isArray(raw.frames)) return null;
+            return raw;
+        } catch (error) {
+            console.error('Error loading filmstrip:', error);
+            return null;
+        }
+    }
+
+    /**
+     * 保存 filmstrip（覆盖旧的）
+     */
+    async saveFilmstrip(filmstrip: Omit<StoredFilmstrip, 'version' | 'updatedAt'>): Promise<void> {
+        const db = await openDatabase();
+        const record: StoredFilmstrip = {
+            ...filmstrip,
+            version: FILMSTRIP_VERSION,
+            updatedAt: Date.now(),
+        };
+        const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+        await requestToPromise(store.put(record));
+    }
+}
+
+// 导出单例
+export const filmstripStorageService = new FilmstripStorageService();
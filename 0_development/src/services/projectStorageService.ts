@@ -0,0 +1,219 @@
+/**
+ * Editing Project Storage (IndexedDB)
+ * 剪辑专案：记录某笔录制的片段、标记、文字叠加、字幕、选取位置、导出设定与撤销历史
+ * - 一笔录制对应一个专案（key = recordingId）
+ * - schemaVersion 用于之后新增字段时迁移旧资料
+ */
+
+import { CROP_ASPECTS, DEFAULT_ANIMATED_EXPORT, EMPTY_EXPORT_METADATA, MARKER_COLORS, MAX_SEGMENT_SPEED, MAX_TRANSITION_SECONDS, MAX_ZOOM, MIN_SEGMENT_SPEED, MIN_ZOOM, SUBTITLE_EXPORT_MODES, TEXT_OVERLAY_POSITIONS, type ExportCrop, type SegmentTransition, type SubtitleCue, type TextOverlay, type EditorExportSettings, type SegmentEditAction, type SegmentHistoryEntry, type TimelineMarker, type TrimRange, type ZoomRegion } from '../types';
+import { PROJECTS_STORE as STORE_NAME, RECORDINGS_STORE, openDatabase, requestToPromise } from './storage/db';
+
+export const PROJECT_SCHEMA_VERSION = 12;
+
+export interface EditorProject {
+    recordingId: string;
+    schemaVersion: number;
+    segments: TrimRange[];
+    markers: TimelineMarker[];
+    /** 文字叠加（录制时间；不进撤销历史） */
+    textOverlays: TextOverlay[];
+    /** 汇入的字幕（录制时间） */
+    subtitles: SubtitleCue[];
+    /** 缩放区域（录制时间） */
+    zoomRegions: ZoomRegion[];
+    selectedIndex: number;
+    exportSettings: EditorExportSettings;
+    /** 编辑历史（旧 -> 新，含目前状态与可重做的步骤） */
+    history: SegmentHistoryEntry[];
+    /** history 中目前状态的位置 */
+    historyIndex: number;
+    updatedAt: number;
+}
+
+export type EditorProjectDraft = Omit<EditorProject, 'schemaVersion' | 'updatedAt'>;
+
+const TRANSITION_TYPES: Array<SegmentTransition['type']> = ['crossfade', 'dipToBlack', 'audioFade'];
+
+const isTransition = (value: unknown): value is SegmentTransition => {
+    const v = value as SegmentTransition;
+    return !!v && TRANSITION_TYPES.includes(v.type)
+        && Number.isFinite(v.duration) && v.duration > 0 && v.duration <= MAX_TRANSITION_SECONDS;
+};
+
+const isTrimRange = (value: unknown): value is TrimRange => {
+    const v = value as TrimRange;
+    return !!v && Number.isFinite(v.start) && Number.isFinite(v.end) && v.end > v.start
+        && (v.speed === undefined || (Number.isFinite(v.speed) && v.speed >= MIN_SEGMENT_SPEED && v.speed <= MAX_SEGMENT_SPEED))
+        && (v.transition === undefined || isTransition(v.transition));
+};
+
+const HISTORY_ACTIONS: SegmentEditAction[] = ['initial', 'split', 'delete', 'removeRange', 'trim', 'reorder', 'duplicate', 'speed', 'transition', 'reset', 'edit'];
+
+const isHistoryEntry = (value: unknown): value is SegmentHistoryEntry => {
+    const v = value as SegmentHistoryEntry;
+    return !!v && HISTORY_ACTIONS.includes(v.action) && Array.isArray(v.segments)
+        && v.segments.length > 0 && v.segments.every(isTrimRange);
+};
+
+/**
+ * v5 以前只存撤销堆叠（TrimRange[][]，不含目前状态、没有动作名称）
+ */
+const migrateHistory = (raw: unknown, rawIndex: unknown, version: number, segments: TrimRange[]) => {
+    if (version < 6) {
+        const stack = Array.isArray(raw)
+            ? raw.map((h) => (Array.isArray(h) ? h.filter(isTrimRange) : [])).filter((h) => h.length > 0)
+            : [];
+        const history: SegmentHistoryEntry[] = [...stack, segments].map((entry, i) => ({
+            action: i === 0 ? 'initial' : 'edit',
+            segments: entry,
+        }));
+        return { history, historyIndex: history.length - 1 };
+    }
+
+    // 目前状态那一笔坏掉时，只保留存下来的 segments（其余历史对不上了）
+    const entries: unknown[] = Array.isArray(raw) ? raw : [];
+    const index = Number(rawIndex);
+    if (!Number.isInteger(index) || index < 0 || !isHistoryEntry(entries[index])) {
+        return { history: [{ action: 'initial' as const, segments }], historyIndex: 0 };
+    }
+    // 丢掉无效的笔数后，index 跟着往前移
+    return {
+        history: entries.filter(isHistoryEntry),
+        historyIndex: entries.slice(0, index).filter(isHistoryEntry).length,
+    };
+};
+
+const isMarker = (value: unknown): value is TimelineMarker => {
+    const v = value as TimelineMarker;
+    return !!v && typeof v.id === 'string' && Number.isFinite(v.time) && v.time >= 0
+        && typeof v.label === 'string' && v.color in MARKER_COLORS;
+};
+
+const isTextOverlay = (value: unknown): value is TextOverlay => {
+    const v = value as TextOverlay;
+    return !!v && typeof v.id === 'string' && typeof v.text === 'string'
+        && Number.isFinite(v.start) && Number.isFinite(v.end) && v.start >= 0 && v.end > v.start
+        && TEXT_OVERLAY_POSITIONS.includes(v.position) && Number.isFinite(v.fontSize) && v.fontSize > 0
+        && typeof v.color === 'string' && typeof v.background === 'boolean';
+};
+
+const isCrop = (value: unknown): value is ExportCrop => {
+    const v = value as ExportCrop;
+    return !!v && [v.x, v.y, v.width, v.height].every((n) => Number.isFinite(n) && n >= 0 && n <= 1)
+        && v.width > 0 && v.height > 0 && v.x + v.width <= 1.0001 && v.y + v.height <= 1.0001;
+};
+
+const isZoomRegion = (value: unknown): value is ZoomRegion => {
+    const v = value as ZoomRegion;
+    return !!v && typeof v.id === 'string'
+        && Number.isFinite(v.start) && Number.isFinite(v.end) && v.start >= 0 && v.end > v.start
+        && Number.isFinite(v.zoom) && v.zoom >= MIN_ZOOM && v.zoom <= MAX_ZOOM
+        && [v.x, v.y].every((n) => Number.isFinite(n) && n >= 0 && n <= 1);
+};
+
+const isSubtitleCue = (value: unknown): value is SubtitleCue => {
+    const v = value as SubtitleCue;
+    return !!v && typeof v.id === 'string' && typeof v.text === 'string'
+        && Number.isFinite(v.start) && Number.isFinite(v.end) && v.start >= 0 && v.end > v.start;
+};
+
+/**
+ * 把任意版本的专案资料升级成目前版本；资料损坏时回传 null（视为没有专案）
+ * - 新增字段时：bump PROJECT_SCHEMA_VERSION，并在这里补上对应 case
+ */
+export const migrateProject = (raw: unknown): EditorProject | null => {
+    if (!raw || typeof raw !== 'object') return null;
+    const project = { ...(raw as EditorProject) };
+    const version = Number.isFinite(project.schemaVersion) ? project.schemaVersion : 0;
+
+    if (version > PROJECT_SCHEMA_VERSION) {
+        console.warn('Project was saved by a newer version; ignoring:', version);
+        return null;
+    }
+
+    // v7：片段可带 speed；v8：片段可带 transition（旧专案没有 = 1x、硬切，不需转换）
+    const segments = Array.isArray(project.segments) ? project.segments.filter(isTrimRange) : [];
+    if (!project.recordingId || segments.length === 0 || !project.exportSettings) return null;
+
+    // v1 -> v2：新增动图导出设定
+    const exportSettings: EditorExportSettings = {
+        ...project.exportSettings,
+        animation: version < 2 || !project.exportSettings.animation
+            ? { ...DEFAULT_ANIMATED_EXPORT }
+            : project.exportSettings.animation,
+        // v2 -> v3：快速导出（stream copy）
+        fastExport: version < 3 ? false : !!project.exportSettings.fastExport,
+        // v3 -> v4：章节（来自标记）
+        chapters: version < 4 || !project.exportSettings.chapters ? 'none' : project.exportSettings.chapters,
+        // v4 -> v5：导出的标题 / 作者 / 描述
+        metadata: version < 5 || !project.exportSettings.metadata
+            ? { ...EMPTY_EXPORT_METADATA }
+            : { ...EMPTY_EXPORT_METADATA, ...project.exportSettings.metadata },
+        // v9 -> v10：字幕导出方式
+        subtitles: version < 10 || !SUBTITLE_EXPORT_MODES.includes(project.exportSettings.subtitles)
+            ? 'soft'
+            : project.exportSettings.subtitles,
+        // v10 -> v11：裁切
+        crop: version < 11 || !isCrop(project.exportSettings.crop) ? null : project.exportSettings.crop,
+        cropAspect: version < 11 || !CROP_ASPECTS.includes(project.exportSettings.cropAspect)
+            ? 'free'
+            : project.exportSettings.cropAspect,
+    };
+
+    return {
+        recordingId: project.recordingId,
+        schemaVersion: PROJECT_SCHEMA_VERSION,
+        segments,
+        // v3 -> v4：时间轴标记
+        markers: Array.isArray(project.markers) ? project.markers.filter(isMarker) : [],
+        // v8 -> v9：文字叠加
+        textOverlays: version < 9 || !Array.isArray(project.textOverlays) ? [] : project.textOverlays.filter(isTextOverlay),
+        // v9 -> v10：字幕
+        subtitles: version < 10 || !Array.isArray(project.subtitles) ? [] : project.subtitles.filter(isSubtitleCue),
+        // v11 -> v12：缩放区域
+        zoomRegions: version < 12 || !Array.isArray(project.zoomRegions) ? [] : project.zoomRegions.filter(isZoomRegion),
+        selectedIndex: Math.max(0, Math.min(Number(project.selectedIndex) || 0, segments.length - 1)),
+        exportSettings,
+        // v5 -> v6：带动作名称的历史 + 重做
+        ...migrateHistory(project.history, project.historyIndex, version, segments),
+        updatedAt: Number(project.updatedAt) || Date.now(),
+    };
+};
+
+class ProjectStorageService {
+    /**
+     * 读取某笔录制的专案（没有则回传 null）
+     */
+    async loadProject(recordingId: string): Promise<EditorProject | null> {
+        try {
+            const db = await openDatabase();
+            const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+            const raw = await requestToPromise(store.get(recordingId));
+            return migrateProject(raw);
+        } catch (error) {
+            console.error('Error loading project:', error);
+            return null;
+        }
+    }
+
+    /**
+     * 保存专案（覆盖同一笔录制的旧专案）
+     * - 录制已被删除时不写（编辑器卸载时的 flush 可能晚于删除，会留下孤儿专案）
+     */
+    async saveProject(draft: EditorProjectDraft): Promise<void> {
+        const db = await openDatabase();
+        const project: EditorProject = {
+            ...draft,
+            schemaVersion: PROJECT_SCHEMA_VERSION,
+            updatedAt: Date.now(),
+        };
+        // 同一个交易里检查再写，删除不会插进两者之间
+        const transaction = db.transaction([RECORDINGS_STORE, STORE_NAME], 'readwrite');
+        const recordingKey = await requestToPromise(transaction.objectStore(RECORDINGS_STORE).getKey(draft.recordingId));
+        if (recordingKey === undefined) return;
+        await requestToPromise(transaction.objectStore(STORE_NAME).put(project));
+    }
+}
+
+// 导出单例
+export const projectStorageService = new ProjectStorageService();
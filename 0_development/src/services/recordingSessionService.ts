@@ -0,0 +1,171 @@
+/**
+ * Recording Session Storage (IndexedDB)
+ * 录制过程中把 MediaRecorder 的每个 chunk 即时写入 IndexedDB：
+ * - 分页崩溃 / 记忆体不足时，已录到的内容仍在硬碟上
+ * - 下次开启时可把中断的 session 拼回完整的 WebM
+ */
+
+import {
+    RECORDING_CHUNKS_STORE as CHUNKS_STORE,
+    RECORDING_SESSIONS_STORE as SESSIONS_STORE,
+    createRecordingId,
+    openDatabase,
+    requestToPromise,
+} from './storage/db';
+
+export interface RecordingSession {
+    sessionId: string;
+    mimeType: string;
+    startedAt: number;
+    /** 最后一个 chunk 写入时间 */
+    updatedAt: number;
+    /** 已写入的录制时长（秒，已扣除暂停） */
+    duration: number;
+    chunkCount: number;
+    /** 录制中打的标记（秒，已扣除暂停）；旧 session 没有此栏位 */
+    markers?: number[];
+}
+
+interface StoredChunk {
+    sessionId: string;
+    index: number;
+    blob: Blob;
+}
+
+const sessionChunkRange = (sessionId: string) => IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]);
+
+class RecordingSessionService {
+    /**
+     * 开始一个新的录制 session，回传 sessionId
+     */
+    async startSession(mimeType: string): Promise<string> {
+        const db = await openDatabase();
+        const now = Date.now();
+        const session: RecordingSession = {
+            sessionId: createRecordingId(),
+            mimeType,
+            startedAt: now,
+            updatedAt: now,
+            duration: 0,
+            chunkCount: 0,
+        };
+        const store = db.transaction(SESSIONS_STORE, 'readwrite').objectStore(SESSIONS_STORE);
+        await requestToPromise(store.add(session));
+        return session.sessionId;
+    }
+
+    /**
+     * 写入一个 chunk，并在同一个 transaction 内更新 session 的时长
+     */
+    async appendChunk(sessionId: string, index: number, blob: Blob, duration: number): Promise<void> {
+        const db = await openDatabase();
+
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite');
+            const sessions = transaction.objectStore(SESSIONS_STORE);
+            const chunk: StoredChunk = { sessionId, index, blob };
+            transaction.objectStore(CHUNKS_STORE).put(chunk);
+
+            const getRequest = sessions.get(sessionId);
+            getRequest.onsuccess = () => {
+                const session = getRequest.result as RecordingSession | undefined;
+                if (!session) return;
+                sessions.put({
+                    ...session,
+                    updatedAt: Date.now(),
+                    duration: Math.max(session.duration, duration),
+                    chunkCount: Math.max(session.chunkCount, index + 1),
+                });
+            };
+
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    }
+
+    /**
+     * 更新录制中打的标记（恢复中断的录制时一并带回）
+     */
+    async saveMarkers(sessionId: string, markers: number[]): Promise<void> {
+        const db = await openDatabase();
+
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+            const sessions = transaction.objectStore(SESSIONS_STORE);
+
+            const getRequest = sessions.get(sessionId);
+            getRequest.onsuccess = () => {
+                const session = getRequest.result as RecordingSession | undefined;
+                if (!session) return;
+                sessions.put({ ...session, markers });
+            };
+
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    }
+
+    /**
+     * 依序读出 session 的所有 chunk（index -> Blob）
+     */
+    async loadChunks(sessionId: string): Promise<Map<number, Blob>> {
+        const db = await openDatabase();
+        const store = db.transaction(CHUNKS_STORE, 'readonly').objectStore(CHUNKS_STORE);
+        const chunks = await requestToPromise(store.getAll(sessionChunkRange(sessionId))) as StoredChunk[];
+        return new Map(chunks.map((c) => [c.index, c.blob]));
+    }
+
+    /**
+     * 把 session 的 chunk 拼回完整的 Blob（chunk 来自 IndexedDB，不会全部读进记忆体）
+     */
+    async loadSessionBlob(sessionId: string): Promise<Blob | null> {
+        const db = await openDatabase();
+        const session = await requestToPromise(
+            db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).get(sessionId)
+        ) as RecordingSession | undefined;
+        const chunks = await this.loadChunks(sessionId);
+        if (chunks.size === 0) return null;
+
+        const ordered = [...chunks.entries()].sort((a, b) => a[0] - b[0]).map(([, blob]) => blob);
+        return new Blob(ordered, { type: session?.mimeType || 'video/webm' });
+    }
+
+    /**
+     * 列出尚未完成（未被 discard）的 session：代表上次录制中断了
+     */
+    async listInterruptedSessions(): Promise<RecordingSession[]> {
+        try {
+            const db = await openDatabase();
+            const store = db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE);
+            const sessions = await requestToPromise(store.getAll()) as RecordingSession[];
+            return sessions
+                .filter((s) => s.chunkCount > 0)
+                .sort((a, b) => b.startedAt - a.startedAt);
+        } catch (error) {
+            console.error('Error listing recording sessions:', error);
+            return [];
+        }
+    }
+
+    /**
+     * 删除 session 与其所有 chunk（录制已存入素材库，或使用者放弃恢复）
+     */
+    async discardSession(sessionId: string): Promise<void> {
+        const db = await openDatabase();
+
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite');
+            transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+            transaction.objectStore(CHUNKS_STORE).delete(sessionChunkRange(sessionId));
+
+            transaction.oncomplete = () => {
+                console.log('Recording session discarded:', sessionId);
+                resolve();
+            };
+            transaction.onerror = () => reject(transaction.error);
+        });
+    }
+}
+
+// 导出单例
+export const recordingSessionService = new RecordingSessionService();
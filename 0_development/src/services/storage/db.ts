@@ -0,0 +1,138 @@
+/**
+ * ScreenClipProDB 共用的 IndexedDB 连线与 schema 升级
+ * - 各个 storage service 共用同一个连线（不同 store）
+ * - 所有版本升级集中在这里，避免各 service 各自 bump DB_VERSION 造成冲突
+ */
+
+export const DB_NAME = 'ScreenClipProDB';
+export const DB_VERSION = 6;
+
+export const RECORDINGS_STORE = 'recordings';
+export const PROJECTS_STORE = 'projects';
+export const RECORDING_SESSIONS_STORE = 'recordingSessions';
+export const RECORDING_CHUNKS_STORE = 'recordingChunks';
+export const FILMSTRIPS_STORE = 'filmstrips';
+export const WAVEFORMS_STORE = 'waveforms';
+export const CREATED_AT_INDEX = 'createdAt';
+
+// v1 只有一个固定 key 的 slot，升级时迁移成一般记录
+const LEGACY_VIDEO_KEY = 'current_recording';
+
+export const createRecordingId = (): string => {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return `rec_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+};
+
+const upgrade = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => {
+    // v1：录制 store
+    if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+        const store = db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+        store.createIndex(CREATED_AT_INDEX, CREATED_AT_INDEX, { unique: false });
+        console.log('Created object store:', RECORDINGS_STORE);
+    }
+
+    // v1 -> v2：把单一 slot 的录制迁移成素材库中的一笔记录
+    if (oldVersion > 0 && oldVersion < 2) {
+        const store = transaction.objectStore(RECORDINGS_STORE);
+        const legacyRequest = store.get(LEGACY_VIDEO_KEY);
+        legacyRequest.onsuccess = () => {
+            const legacy = legacyRequest.result;
+            if (!legacy) return;
+            store.put({
+                ...legacy,
+                id: createRecordingId(),
+                size: legacy.blob?.size ?? 0,
+                tags: [],
+            });
+            store.delete(LEGACY_VIDEO_KEY);
+            console.log('Migrated legacy recording into library');
+        };
+    }
+
+    // v3：剪辑专案（一笔录制对应一个专案）
+    if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'recordingId' });
+        console.log('Created object store:', PROJECTS_STORE);
+    }
+
+    // v4：录制中的 chunk（崩溃后可恢复）
+    if (!db.objectStoreNames.contains(RECORDING_SESSIONS_STORE)) {
+        db.createObjectStore(RECORDING_SESSIONS_STORE, { keyPath: 'sessionId' });
+        console.log('Created object store:', RECORDING_SESSIONS_STORE);
+    }
+    if (!db.objectStoreNames.contains(RECORDING_CHUNKS_STORE)) {
+        // 复合 key [sessionId, index]：用 key range 即可依序读出同一 session 的所有 chunk
+        db.createObjectStore(RECORDING_CHUNKS_STORE, { keyPath: ['sessionId', 'index'] });
+        console.log('Created object store:', RECORDING_CHUNKS_STORE);
+    }
+
+    // v5：时间轴缩略图（一笔录制对应一条 filmstrip）
+    if (!db.objectStoreNames.contains(FILMSTRIPS_STORE)) {
+        db.createObjectStore(FILMSTRIPS_STORE, { keyPath: 'recordingId' });
+        console.log('Created object store:', FILMSTRIPS_STORE);
+    }
+
+    // v6：音频波形快取（一笔录制对应一条波形，不再跟录制本体存在一起）
+    if (!db.objectStoreNames.contains(WAVEFORMS_STORE)) {
+        db.createObjectStore(WAVEFORMS_STORE, { keyPath: 'recordingId' });
+        console.log('Created object store:', WAVEFORMS_STORE);
+    }
+
+    // v5 -> v6：把存在录制记录里的波形搬到 waveforms store
+    if (oldVersion > 0 && oldVersion < 6) {
+        const waveforms = transaction.objectStore(WAVEFORMS_STORE);
+        const cursorRequest = transaction.objectStore(RECORDINGS_STORE).openCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const { waveform, ...recording } = cursor.value;
+            if (waveform) {
+                waveforms.put({ recordingId: recording.id, waveform, updatedAt: Date.now() });
+                cursor.update(recording);
+            }
+            cursor.continue();
+        };
+    }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * 开启（或复用）资料库连线
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onerror = () => {
+            console.error('Failed to open IndexedDB:', request.error);
+            dbPromise = null;
+            reject(request.error);
+        };
+
+        request.onsuccess = () => {
+            console.log('IndexedDB initialized successfully');
+            resolve(request.result);
+        };
+
+        request.onupgradeneeded = (event) => {
+            upgrade(request.result, request.transaction!, event.oldVersion);
+        };
+    });
+
+    return dbPromise;
+};
+
+/**
+ * IDBRequest -> Promise
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
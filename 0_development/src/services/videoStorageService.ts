@@ -1,88 +1,95 @@
 /**
  * Video Storage Service using IndexedDB
  * 用于持久化存储录制的视频，支持页面刷新后恢复
+ * - 每次录制都会新增一笔记录（素材库），不再覆盖同一个 slot
  */
 
-const DB_NAME = 'ScreenClipProDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'recordings';
-const VIDEO_KEY = 'current_recording';
+import {
+    CREATED_AT_INDEX,
+    FILMSTRIPS_STORE,
+    PROJECTS_STORE,
+    RECORDINGS_STORE as STORE_NAME,
+    WAVEFORMS_STORE,
+    createRecordingId,
+    openDatabase,
+} from './storage/db';
 
-interface StoredVideo {
+const DEFAULT_VIDEO_NAME = 'Screen Recording';
+
+export interface StoredVideo {
     id: string;
     blob: Blob;
     mimeType: string;
     duration: number;
     createdAt: number;
     name?: string;
+    size: number;
+    tags: string[];
+    thumbnail?: Blob;
 }
 
-class VideoStorageService {
-    private db: IDBDatabase | null = null;
-    private initPromise: Promise<IDBDatabase> | null = null;
-
-    /**
-     * 初始化 IndexedDB
-     */
-    private async init(): Promise<IDBDatabase> {
-        if (this.db) return this.db;
-
-        if (this.initPromise) return this.initPromise;
+/** 素材库列表用（不带视频本体，避免一次读出所有大资料） */
+export type StoredVideoSummary = Omit<StoredVideo, 'blob'>;
 
-        this.initPromise = new Promise((resolve, reject) => {
-            const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-            request.onerror = () => {
-                console.error('Failed to open IndexedDB:', request.error);
-                reject(request.error);
-            };
-
-            request.onsuccess = () => {
-                this.db = request.result;
-                console.log('IndexedDB initialized successfully');
-                resolve(this.db);
-            };
+/**
+ * 旧版本记录可能缺少 size / tags，读出时补齐
+ */
+const normalizeStoredVideo = (raw: StoredVideo): StoredVideo => ({
+    ...raw,
+    size: Number.isFinite(raw.size) ? raw.size : raw.blob?.size ?? 0,
+    tags: Array.isArray(raw.tags) ? raw.tags : [],
+});
 
-            request.onupgradeneeded = (event) => {
-                const db = (event.target as IDBOpenDBRequest).result;
+const toSummary = ({ blob: _blob, ...rest }: StoredVideo): StoredVideoSummary => rest;
 
-                // 创建存储对象
-                if (!db.objectStoreNames.contains(STORE_NAME)) {
-                    const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-                    store.createIndex('createdAt', 'createdAt', { unique: false });
-                    console.log('Created object store:', STORE_NAME);
-                }
-            };
-        });
+const normalizeTags = (tags: string[]): string[] => {
+    const seen = new Set<string>();
+    const result: string[] = [];
+    for (const tag of tags) {
+        const trimmed = tag.trim();
+        if (!trimmed || seen.has(trimmed.toLowerCase())) continue;
+        seen.add(trimmed.toLowerCase());
+        result.push(trimmed);
+    }
+    return result;
+};
 
-        return this.initPromise;
+class VideoStorageService {
+    /**
+     * 初始化 IndexedDB（共用连线，schema 升级见 storage/db.ts）
+     */
+    private init(): Promise<IDBDatabase> {
+        return openDatabase();
     }
 
     /**
-     * 保存视频到 IndexedDB
+     * 保存视频到 IndexedDB（每次都新增一笔记录），回传新记录的 id
      */
-    async saveVideo(blob: Blob, duration: number, name?: string): Promise<void> {
+    async saveVideo(blob: Blob, duration: number, name?: string, thumbnail?: Blob): Promise<string> {
         try {
             const db = await this.init();
 
             const storedVideo: StoredVideo = {
-                id: VIDEO_KEY,
+                id: createRecordingId(),
                 blob,
                 mimeType: blob.type,
                 duration,
                 createdAt: Date.now(),
-                name: name || 'Screen Recording',
+                name: name || DEFAULT_VIDEO_NAME,
+                size: blob.size,
+                tags: [],
+                thumbnail,
             };
 
             return new Promise((resolve, reject) => {
                 const transaction = db.transaction(STORE_NAME, 'readwrite');
                 const store = transaction.objectStore(STORE_NAME);
 
-                const request = store.put(storedVideo);
+                const request = store.add(storedVideo);
 
                 request.onsuccess = () => {
                     console.log('Video saved to IndexedDB, size:', blob.size);
-                    resolve();
+                    resolve(storedVideo.id);
                 };
 
                 request.onerror = () => {
@@ -97,9 +104,9 @@ class VideoStorageService {
     }
 
     /**
-     * 从 IndexedDB 加载视频
+     * 从 IndexedDB 加载指定视频
      */
-    async loadVideo(): Promise<StoredVideo | null> {
+    async loadVideo(id: string): Promise<StoredVideo | null> {
         try {
             const db = await this.init();
 
@@ -107,14 +114,14 @@ class VideoStorageService {
                 const transaction = db.transaction(STORE_NAME, 'readonly');
                 const store = transaction.objectStore(STORE_NAME);
 
-                const request = store.get(VIDEO_KEY);
+                const request = store.get(id);
 
                 request.onsuccess = () => {
                     if (request.result) {
                         console.log('Video loaded from IndexedDB, size:', request.result.blob.size);
-                        resolve(request.result);
+                        resolve(normalizeStoredVideo(request.result));
                     } else {
-                        console.log('No video found in IndexedDB');
+                        console.log('No video found in IndexedDB:', id);
                         resolve(null);
                     }
                 };
@@ -131,28 +138,138 @@ class VideoStorageService {
     }
 
     /**
-     * 删除存储的视频
+     * 加载最新的一笔录制（依 createdAt 索引倒序）
      */
-    async deleteVideo(): Promise<void> {
+    async loadLatestVideo(): Promise<StoredVideo | null> {
         try {
             const db = await this.init();
 
             return new Promise((resolve, reject) => {
-                const transaction = db.transaction(STORE_NAME, 'readwrite');
-                const store = transaction.objectStore(STORE_NAME);
+                const transaction = db.transaction(STORE_NAME, 'readonly');
+                const index = transaction.objectStore(STORE_NAME).index(CREATED_AT_INDEX);
 
-                const request = store.delete(VIDEO_KEY);
+                const request = index.openCursor(null, 'prev');
 
                 request.onsuccess = () => {
-                    console.log('Video deleted from IndexedDB');
-                    resolve();
+                    const cursor = request.result;
+                    resolve(cursor ? normalizeStoredVideo(cursor.value) : null);
                 };
 
                 request.onerror = () => {
-                    console.error('Failed to delete video:', request.error);
+                    console.error('Failed to load latest video:', request.error);
                     reject(request.error);
                 };
             });
+        } catch (error) {
+            console.error('Error loading latest video:', error);
+            return null;
+        }
+    }
+
+    /**
+     * 列出素材库中的所有录制（新到旧）
+     */
+    async listVideos(): Promise<StoredVideoSummary[]> {
+        try {
+            const db = await this.init();
+
+            return new Promise((resolve, reject) => {
+                const transaction = db.transaction(STORE_NAME, 'readonly');
+                const index = transaction.objectStore(STORE_NAME).index(CREATED_AT_INDEX);
+
+                const result: StoredVideoSummary[] = [];
+                const request = index.openCursor(null, 'prev');
+
+                request.onsuccess = () => {
+                    const cursor = request.result;
+                    if (!cursor) {
+                        resolve(result);
+                        return;
+                    }
+                    result.push(toSummary(normalizeStoredVideo(cursor.value)));
+                    cursor.continue();
+                };
+
+                request.onerror = () => {
+                    console.error('Failed to list videos:', request.error);
+                    reject(request.error);
+                };
+            });
+        } catch (error) {
+            console.error('Error listing videos:', error);
+            return [];
+        }
+    }
+
+    /**
+     * 读出 -> 修改 -> 写回（同一个 transaction 内完成）
+     */
+    private async updateVideo(id: string, patch: (video: StoredVideo) => StoredVideo): Promise<StoredVideo | null> {
+        const db = await this.init();
+
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(STORE_NAME, 'readwrite');
+            const store = transaction.objectStore(STORE_NAME);
+
+            const getRequest = store.get(id);
+
+            getRequest.onsuccess = () => {
+                if (!getRequest.result) {
+                    resolve(null);
+                    return;
+                }
+                const updated = patch(normalizeStoredVideo(getRequest.result));
+                const putRequest = store.put(updated);
+                putRequest.onsuccess = () => resolve(updated);
+                putRequest.onerror = () => reject(putRequest.error);
+            };
+
+            getRequest.onerror = () => {
+                console.error('Failed to update video:', getRequest.error);
+                reject(getRequest.error);
+            };
+        });
+    }
+
+    /**
+     * 重命名录制
+     */
+    async renameVideo(id: string, name: string): Promise<void> {
+        const trimmed = name.trim();
+        await this.updateVideo(id, (video) => ({ ...video, name: trimmed || DEFAULT_VIDEO_NAME }));
+    }
+
+    /**
+     * 设置录制的标签（去重、去空白）
+     */
+    async setVideoTags(id: string, tags: string[]): Promise<void> {
+        await this.updateVideo(id, (video) => ({ ...video, tags: normalizeTags(tags) }));
+    }
+
+    /**
+     * 删除存储的视频（连同它的剪辑专案、缩略图与波形）
+     */
+    async deleteVideo(id: string): Promise<void> {
+        try {
+            const db = await this.init();
+
+            return new Promise((resolve, reject) => {
+                const transaction = db.transaction([STORE_NAME, PROJECTS_STORE, FILMSTRIPS_STORE, WAVEFORMS_STORE], 'readwrite');
+                transaction.objectStore(STORE_NAME).delete(id);
+                transaction.objectStore(PROJECTS_STORE).delete(id);
+                transaction.objectStore(FILMSTRIPS_STORE).delete(id);
+                transaction.objectStore(WAVEFORMS_STORE).delete(id);
+
+                transaction.oncomplete = () => {
+                    console.log('Video deleted from IndexedDB:', id);
+                    resolve();
+                };
+
+                transaction.onerror = () => {
+                    console.error('Failed to delete video:', transaction.error);
+                    reject(transaction.error);
+                };
+            });
         } catch (error) {
             console.error('Error deleting video:', error);
             throw error;
@@ -163,22 +280,19 @@ class VideoStorageService {
      * 检查是否有存储的视频
      */
     async hasStoredVideo(): Promise<boolean> {
-        const video = await this.loadVideo();
+        const video = await this.loadLatestVideo();
         return video !== null;
     }
 
     /**
      * 获取存储信息（用于调试）
      */
-    async getStorageInfo(): Promise<{ hasVideo: boolean; size?: number; createdAt?: Date }> {
-        const video = await this.loadVideo();
-        if (!video) {
-            return { hasVideo: false };
-        }
+    async getStorageInfo(): Promise<{ hasVideo: boolean; count: number; totalSize: number }> {
+        const videos = await this.listVideos();
         return {
-            hasVideo: true,
-            size: video.blob.size,
-            createdAt: new Date(video.createdAt),
+            hasVideo: videos.length > 0,
+            count: videos.length,
+            totalSize: videos.reduce((sum, v) => sum + v.size, 0),
         };
     }
 }
@@ -0,0 +1,43 @@
+/**
+ * Waveform Storage (IndexedDB)
+ * 音频波形快取：每笔录制一条，跟录制本体分开存（读素材库不会连波形一起读出）
+ */
+
+import type { WaveformData } from '../types';
+import { WAVEFORMS_STORE as STORE_NAME, openDatabase, requestToPromise } from './storage/db';
+
+export interface StoredWaveform {
+    recordingId: string;
+    waveform: WaveformData;
+    updatedAt: number;
+}
+
+class WaveformStorageService {
+    /**
+     * 读取某笔录制快取的波形（没有则回传 null；版本由呼叫端检查）
+     */
+    async loadWaveform(recordingId: string): Promise<WaveformData | null> {
+        try {
+            const db = await openDatabase();
+            const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+            const raw = (await requestToPromise(store.get(recordingId))) as StoredWaveform | undefined;
+            return raw?.waveform ?? null;
+        } catch (error) {
+            console.error('Error loading waveform:', error);
+            return null;
+        }
+    }
+
+    /**
+     * 保存波形快取（覆盖旧的）
+     */
+    async saveWaveform(recordingId: string, waveform: WaveformData): Promise<void> {
+        const db = await openDatabase();
+        const record: StoredWaveform = { recordingId, waveform, updatedAt: Date.now() };
+        const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+        await requestToPromise(store.put(record));
+    }
+}
+
+// 导出单例
+export const waveformStorageService = new WaveformStorageService();
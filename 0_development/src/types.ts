@@ -10,13 +10,259 @@ export interface VideoMetadata {
     blob: Blob;
     url: string;
     duration: number; // in seconds
+    id?: string; // IndexedDB recording id (undefined if saving failed)
+    name?: string;
+    /** Markers dropped while recording (seconds, recording time); seeded into a new editing project */
+    liveMarkers?: number[];
+}
+
+// Audio waveform envelope (cached with the stored recording)
+export interface WaveformLevel {
+    bucketsPerSecond: number;
+    peaks: Float32Array; // max |sample| per bucket (0-1)
+    rms: Float32Array; // RMS per bucket (0-1)
+}
+
+export interface WaveformData {
+    version: number;
+    duration: number;
+    hasAudio: boolean;
+    peakAmplitude: number; // loudest peak in the whole recording (display normalization)
+    levels: WaveformLevel[]; // finest -> coarsest
+}
+
+// Extra info passed from the Recorder when a capture finishes
+export interface RecordingCompleteDetails {
+    /** Crash-safe chunk session in IndexedDB; discard it once the recording is saved to the library */
+    sessionId?: string;
+    /** Markers dropped while recording (seconds, paused time excluded) */
+    markers?: number[];
 }
 
 export interface TrimRange {
     start: number;
     end: number;
+    /** Playback speed of a kept segment (unset = 1x); ignored for plain time ranges */
+    speed?: number;
+    /** Transition into the NEXT segment in timeline order (unset = hard cut) */
+    transition?: SegmentTransition;
+}
+
+// Transitions between kept segments
+// - crossfade / dipToBlack overlap the two clips (xfade + acrossfade), so the output gets shorter
+// - audioFade keeps the hard video cut and only fades the audio out / in
+export type SegmentTransitionType = 'cut' | 'crossfade' | 'dipToBlack' | 'audioFade';
+
+export interface SegmentTransition {
+    type: Exclude<SegmentTransitionType, 'cut'>;
+    duration: number; // seconds (on the output timeline)
+}
+
+export const SEGMENT_TRANSITION_TYPES: SegmentTransitionType[] = ['cut', 'crossfade', 'dipToBlack', 'audioFade'];
+export const TRANSITION_DURATION_PRESETS = [0.25, 0.5, 1, 2] as const;
+export const DEFAULT_TRANSITION_SECONDS = 0.5;
+export const MAX_TRANSITION_SECONDS = 2;
+// Shorter than this (after clamping to the clips) the transition is dropped
+const MIN_TRANSITION_SECONDS = 0.05;
+
+// Per-segment speed (speed ramps): Inspector presets and the accepted range
+export const SEGMENT_SPEED_PRESETS = [0.5, 1, 1.5, 2, 4, 8] as const;
+export const MIN_SEGMENT_SPEED = 0.25;
+export const MAX_SEGMENT_SPEED = 16; // browser playbackRate limit
+// Faster than this, exported audio is muted instead of time-stretched (it's just noise)
+export const MUTE_AUDIO_ABOVE_SPEED = 4;
+
+export const getSegmentSpeed = (segment: TrimRange) => segment.speed ?? 1;
+// Length of a segment in the output (source length / speed)
+export const getSegmentOutputDuration = (segment: TrimRange) => Math.max(segment.end - segment.start, 0) / getSegmentSpeed(segment);
+
+/**
+ * Effective transition between segments[index] and segments[index + 1] (null = hard cut).
+ * - Clamped to half of either clip, so neighbouring transitions never overlap
+ */
+export const getSegmentTransition = (segments: TrimRange[], index: number): SegmentTransition | null => {
+    const transition = segments[index]?.transition;
+    const next = segments[index + 1];
+    if (!transition || !next) return null;
+    const duration = Math.min(
+        transition.duration,
+        getSegmentOutputDuration(segments[index]) / 2,
+        getSegmentOutputDuration(next) / 2
+    );
+    return duration >= MIN_TRANSITION_SECONDS ? { type: transition.type, duration } : null;
+};
+
+// How much the transition after segments[index] shortens the output
+export const getTransitionOverlap = (segments: TrimRange[], index: number) => {
+    const transition = getSegmentTransition(segments, index);
+    return transition && transition.type !== 'audioFade' ? transition.duration : 0;
+};
+
+// Output length of a whole cut (speed and overlapping transitions included)
+export const getOutputDuration = (segments: TrimRange[]) =>
+    segments.reduce((sum, segment, i) => sum + getSegmentOutputDuration(segment) - getTransitionOverlap(segments, i), 0);
+
+// Segment edit history (undo / redo; saved with the editing project)
+// 'edit' = entry migrated from an older project (action unknown)
+export type SegmentEditAction = 'initial' | 'split' | 'delete' | 'removeRange' | 'trim' | 'reorder' | 'duplicate' | 'speed' | 'transition' | 'reset' | 'edit';
+
+export interface SegmentHistoryEntry {
+    action: SegmentEditAction;
+    segments: TrimRange[]; // state AFTER the action
+}
+
+// Timeline markers / bookmarks (saved with the editing project)
+export type MarkerColor = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple';
+
+export const MARKER_COLORS: Record<MarkerColor, string> = {
+    red: '#ef4444',
+    orange: '#f97316',
+    yellow: '#eab308',
+    green: '#22c55e',
+    blue: '#3b82f6',
+    purple: '#a855f7',
+};
+
+export interface TimelineMarker {
+    id: string;
+    time: number; // seconds (recording time)
+    label: string; // may be empty (UI shows "Marker N")
+    color: MarkerColor;
+}
+
+// Text overlays / captions burned into exports (saved with the editing project)
+export type TextOverlayPosition =
+    | 'top-left' | 'top' | 'top-right'
+    | 'left' | 'center' | 'right'
+    | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export interface TextOverlay {
+    id: string;
+    text: string; // may contain line breaks
+    start: number; // seconds (recording time)
+    end: number;
+    position: TextOverlayPosition;
+    fontSize: number; // px on a 1080px-tall frame (scales with the video)
+    color: string; // #rrggbb
+    background: boolean; // semi-transparent box behind the text
+}
+
+export const TEXT_OVERLAY_POSITIONS: TextOverlayPosition[] = [
+    'top-left', 'top', 'top-right',
+    'left', 'center', 'right',
+    'bottom-left', 'bottom', 'bottom-right',
+];
+export const TEXT_OVERLAY_COLORS = ['#ffffff', '#facc15', '#22d3ee', '#4ade80', '#f87171', '#000000'] as const;
+export const MIN_TEXT_OVERLAY_FONT_SIZE = 16;
+export const MAX_TEXT_OVERLAY_FONT_SIZE = 200;
+
+// Shared by the live preview and the export rasterizer so both draw the same box
+export const TEXT_OVERLAY_STYLE = {
+    fontFamily: 'system-ui, -apple-system, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif',
+    fontWeight: 600,
+    lineHeight: 1.25, // x font size
+    padding: 0.4, // x font size (background box)
+    margin: 0.05, // x frame height (distance from the edges)
+    boxColor: 'rgba(0, 0, 0, 0.6)',
+} as const;
+
+// Split a 9-grid position into its horizontal / vertical anchors
+export const getTextOverlayAnchor = (position: TextOverlayPosition) => ({
+    horizontal: position.endsWith('left') ? 'left' as const : position.endsWith('right') ? 'right' as const : 'center' as const,
+    vertical: position.startsWith('top') ? 'top' as const : position.startsWith('bottom') ? 'bottom' as const : 'middle' as const,
+});
+
+// Crop rectangle as fractions (0-1) of the recording frame, so it doesn't depend on the export resolution
+export interface ExportCrop {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Aspect ratio the crop rectangle is locked to ('free' = any shape, e.g. one app window)
+export type CropAspect = 'free' | '16:9' | '9:16' | '1:1' | '4:5';
+export const CROP_ASPECTS: CropAspect[] = ['free', '16:9', '9:16', '1:1', '4:5'];
+export const CROP_ASPECT_RATIOS: Record<Exclude<CropAspect, 'free'>, number> = {
+    '16:9': 16 / 9,
+    '9:16': 9 / 16,
+    '1:1': 1,
+    '4:5': 4 / 5,
+};
+
+// Zoom-and-pan region: magnifies part of the exported frame (after cropping) for a while
+export interface ZoomRegion {
+    id: string;
+    start: number; // seconds (recording time)
+    end: number;
+    zoom: number; // magnification; the target rectangle is 1/zoom of the frame, same aspect
+    x: number; // center of the target rectangle (0-1 of the frame)
+    y: number;
+}
+
+export const MIN_ZOOM = 1.25;
+export const MAX_ZOOM = 4;
+// Time spent easing into / out of a zoom (shortened for short regions)
+export const ZOOM_EASE_SECONDS = 0.6;
+
+// A zoom region on the OUTPUT timeline
+export type ExportZoomRegion = Omit<ZoomRegion, 'id'>;
+
+/**
+ * Zoom and pan at a given time (same easing as the export).
+ * - Regions should not overlap (see resolveZoomRegions); outside all of them the frame is not zoomed
+ * - x / y are clamped so the target rectangle stays inside the frame
+ */
+export const getZoomAt = (regions: Array<Omit<ZoomRegion, 'id'>>, time: number) => {
+    let zoom = 1;
+    let x = 0.5;
+    let y = 0.5;
+    for (const region of regions) {
+        const ease = Math.min(ZOOM_EASE_SECONDS, (region.end - region.start) / 2);
+        const u = Math.min(1, Math.max(0, Math.min(time - region.start, region.end - time) / ease));
+        const weight = u * u * (3 - 2 * u); // smoothstep
+        zoom += weight * (region.zoom - 1);
+        x += weight * (region.x - 0.5);
+        y += weight * (region.y - 0.5);
+    }
+    const half = 0.5 / zoom;
+    return {
+        zoom,
+        x: Math.min(Math.max(x, half), 1 - half),
+        y: Math.min(Math.max(y, half), 1 - half),
+    };
+};
+
+/**
+ * Sort regions and cut each one short where the next begins, so at most one is active at a time.
+ */
+export const resolveZoomRegions = <T extends Omit<ZoomRegion, 'id'>>(regions: T[]): T[] => {
+    const sorted = [...regions].sort((a, b) => a.start - b.start);
+    return sorted
+        .map((region, i) => (i < sorted.length - 1 && sorted[i + 1].start < region.end ? { ...region, end: sorted[i + 1].start } : region))
+        .filter((region) => region.end - region.start > 0.05);
+};
+
+// Subtitle cue imported from an SRT / WebVTT file (recording time; saved with the editing project)
+export interface SubtitleCue {
+    id: string;
+    start: number; // seconds
+    end: number;
+    text: string; // may contain line breaks
 }
 
+// How subtitles go into an export: not at all, as a selectable track, or drawn into the picture
+export type SubtitleExportMode = 'none' | 'soft' | 'burn';
+export const SUBTITLE_EXPORT_MODES: SubtitleExportMode[] = ['none', 'soft', 'burn'];
+
+// Burned-in subtitles are drawn like a text overlay with this look
+export const SUBTITLE_BURN_STYLE: Pick<TextOverlay, 'position' | 'fontSize' | 'color' | 'background'> = {
+    position: 'bottom',
+    fontSize: 44,
+    color: '#ffffff',
+    background: true,
+};
+
 // PIP Position for draggable camera overlay
 export type PIPPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'custom';
 
@@ -86,23 +332,172 @@ export interface ExportOptions {
     trimStart?: number;
     trimEnd?: number;
     quality: VideoQualityPreset;
-    resolution?: 'original' | '720p' | '1080p' | '4k';
-    format?: 'mp4' | 'webm';
+    resolution?: 'original' | '720p' | '1080p' | '4k'; // presets set the SHORT side; the long side follows the (cropped) aspect ratio
+    format?: 'mp4' | 'webm' | 'gif' | 'apng' | 'webp' | 'mp3' | 'm4a' | 'wav' | 'opus';
     fps?: number; // Target frame rate for export
     crf?: number; // Optional override for Constant Rate Factor (lower = higher quality)
     /**
      * Multi-segment export (used for split/delete-middle editing).
      * - When provided, exporter will keep these segments in order and concatenate them.
+     * - Order is the editor's timeline order; the same range may appear more than once (duplicated clips).
      * - If set, `trimStart/trimEnd` are ignored.
+     * - `speed` (default 1) retimes the segment; `transition` blends it into the next one
+     * - Stream copy can do neither, so such cuts are re-encoded instead
+     */
+    segments?: TrimRange[];
+    /**
+     * Animated image export (gif / apng / webp).
+     * - Replaces resolution/fps/crf; video quality presets do not apply
+     */
+    animation?: AnimatedExportSettings;
+    /**
+     * Fast export: stream-copy (`-c copy`) instead of re-encoding.
+     * - WebM only, original resolution; cut points snap to keyframes
+     */
+    streamCopy?: boolean;
+    /**
+     * Chapters to embed (mp4 / webm only).
+     * - Times are on the OUTPUT timeline (already mapped through the kept segments)
+     */
+    chapters?: ExportChapter[];
+    /**
+     * Container tags (mp4 / webm only); empty fields are left out
+     */
+    metadata?: ExportMetadata;
+    /**
+     * Text burned into the picture (mp4 / webm only).
+     * - Ranges are on the OUTPUT timeline (already mapped through the kept segments)
+     */
+    textOverlays?: ExportTextOverlay[];
+    /** Part of the recording frame to keep (before scaling); omitted = whole frame */
+    crop?: ExportCrop;
+    /**
+     * Zoom-and-pan regions (mp4 / webm only), on the OUTPUT timeline.
+     * - Applied to the cropped frame; needs sourceSize
      */
-    segments?: Array<{ start: number; end: number }>;
+    zoomRegions?: ExportZoomRegion[];
+    /** Recording frame size; needed to lay out text overlays and zoom */
+    sourceSize?: { width: number; height: number };
+    /**
+     * Subtitles (mp4 / webm only); cue times are on the OUTPUT timeline.
+     * - soft: muxed as a subtitle stream (mov_text in mp4, WebVTT in webm)
+     * - burn: drawn into the picture like text overlays
+     */
+    subtitles?: { mode: Exclude<SubtitleExportMode, 'none'>; cues: ExportSubtitleCue[] };
+}
+
+export type ExportSubtitleCue = Omit<SubtitleCue, 'id'>;
+
+// A text overlay after mapping through the cut: shown during each output range
+export interface ExportTextOverlay extends Omit<TextOverlay, 'id' | 'start' | 'end'> {
+    ranges: Array<{ start: number; end: number }>;
+}
+
+export interface ExportMetadata {
+    title: string;
+    author: string;
+    description: string;
+}
+
+export const EMPTY_EXPORT_METADATA: ExportMetadata = {
+    title: '',
+    author: '',
+    description: '',
+};
+
+export interface ExportChapter {
+    start: number; // seconds (output time)
+    end: number;
+    title: string;
+}
+
+// How far a stream-copy export had to move cut points to land on keyframes
+export interface KeyframeSnapReport {
+    movedCuts: number;
+    maxShift: number; // seconds
+    droppedSegments: number; // segments shorter than the keyframe spacing
 }
 
+// Visual scene change found by ffmpegService.detectScenes()
+export interface SceneChange {
+    time: number; // seconds (recording time)
+    score: number; // 0-1, how different the frame is from the previous one
+}
+
+// Animated image export (bug-report clips for issue trackers)
+export interface AnimatedExportSettings {
+    width: number; // Output width in px; height keeps the aspect ratio
+    fps: number;
+    loop: boolean; // Loop forever vs. play once
+}
+
+export const DEFAULT_ANIMATED_EXPORT: AnimatedExportSettings = {
+    width: 640,
+    fps: 15,
+    loop: true,
+};
+
+export const ANIMATED_EXPORT_WIDTHS = [320, 480, 640, 800] as const;
+export const ANIMATED_EXPORT_FPS = [10, 15, 20, 25] as const;
+
 // Editor UI uses a small, safe set of FPS options (avoid arbitrary values that may be slow/unstable)
 export type ExportFrameRateOption = 24 | 30 | 60;
 export type ExportResolution = NonNullable<ExportOptions['resolution']>;
 export type ExportFormat = NonNullable<ExportOptions['format']>;
 
+// video: encoded video (+ audio); animated: animated image; audio: audio only (video stream dropped)
+export type ExportFormatKind = 'video' | 'animated' | 'audio';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string; mimeType: string; kind: ExportFormatKind }> = {
+    mp4: { extension: 'mp4', mimeType: 'video/mp4', kind: 'video' },
+    webm: { extension: 'webm', mimeType: 'video/webm', kind: 'video' },
+    gif: { extension: 'gif', mimeType: 'image/gif', kind: 'animated' },
+    apng: { extension: 'png', mimeType: 'image/apng', kind: 'animated' },
+    webp: { extension: 'webp', mimeType: 'image/webp', kind: 'animated' },
+    mp3: { extension: 'mp3', mimeType: 'audio/mpeg', kind: 'audio' },
+    m4a: { extension: 'm4a', mimeType: 'audio/mp4', kind: 'audio' },
+    wav: { extension: 'wav', mimeType: 'audio/wav', kind: 'audio' },
+    opus: { extension: 'opus', mimeType: 'audio/ogg', kind: 'audio' },
+};
+
+export const isAnimatedFormat = (format: ExportFormat) => EXPORT_FORMATS[format].kind === 'animated';
+export const isAudioFormat = (format: ExportFormat) => EXPORT_FORMATS[format].kind === 'audio';
+
+// Export choices made in the Editor (persisted with the editing project)
+export interface EditorExportSettings {
+    quality: VideoQualityPreset;
+    resolution: ExportResolution;
+    format: ExportFormat;
+    fps: ExportFrameRateOption;
+    crf: number;
+    animation: AnimatedExportSettings;
+    fastExport: boolean;
+    chapters: ExportChapterSource;
+    metadata: ExportMetadata;
+    subtitles: SubtitleExportMode;
+    crop: ExportCrop | null; // null = whole frame
+    cropAspect: CropAspect;
+}
+
+// Where exported chapters come from ('none' = no chapters, 'segments' = one chapter per kept segment)
+export type ExportChapterSource = 'none' | 'markers' | 'segments';
+
+// Export queue: several presets of the same cut rendered one after another
+export type ExportMode = 'full' | 'trimmed';
+export type ExportQueueJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface ExportQueueJob {
+    id: string;
+    mode: ExportMode;
+    settings: EditorExportSettings;
+    status: ExportQueueJobStatus;
+    progress: number; // 0-100
+    eta: string | null;
+    url: string | null;
+    error: string | null;
+    notice: string | null; // e.g. cut points moved to keyframes
+}
+
 // Recording Quality
 export type RecordingQuality = 'standard' | 'high' | 'ultra' | 'custom';
 
@@ -0,0 +1,103 @@
+/**
+ * 裁切框计算（座标都是录制画面的比例 0-1）
+ * - 锁定比例是指「像素」比例，所以要用录制画面尺寸换算
+ */
+
+import type { CropAspect, ExportCrop } from '../types';
+import { CROP_ASPECT_RATIOS } from '../types';
+
+// 裁切框最小边长（画面比例）
+export const MIN_CROP_SIZE = 0.05;
+
+export type CropHandle = 'nw' | 'ne' | 'sw' | 'se';
+
+interface FrameSize {
+    width: number;
+    height: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// 锁定比例下，某宽度（画面比例）对应的高度
+const heightForWidth = (width: number, ratio: number, source: FrameSize) => (width * source.width) / source.height / ratio;
+const widthForHeight = (height: number, ratio: number, source: FrameSize) => (height * source.height * ratio) / source.width;
+
+/**
+ * 几乎等于整个画面（导出时不必裁切）
+ */
+export const isFullFrameCrop = (crop: ExportCrop) =>
+    crop.x <= 0.001 && crop.y <= 0.001 && crop.width >= 0.999 && crop.height >= 0.999;
+
+/**
+ * 换成指定比例：画面内放得下的最大框，尽量以原本的中心为中心
+ */
+export const fitCropToAspect = (crop: ExportCrop | null, aspect: CropAspect, source: FrameSize): ExportCrop => {
+    const current = crop ?? { x: 0, y: 0, width: 1, height: 1 };
+    if (aspect === 'free') return current;
+
+    const ratio = CROP_ASPECT_RATIOS[aspect];
+    let width = 1;
+    let height = heightForWidth(width, ratio, source);
+    if (height > 1) {
+        height = 1;
+        width = widthForHeight(height, ratio, source);
+    }
+    const centerX = current.x + current.width / 2;
+    const centerY = current.y + current.height / 2;
+    return {
+        x: clamp(centerX - width / 2, 0, 1 - width),
+        y: clamp(centerY - height / 2, 0, 1 - height),
+        width,
+        height,
+    };
+};
+
+/**
+ * 拖曳整个框（不超出画面）
+ */
+export const moveCrop = (start: ExportCrop, dx: number, dy: number): ExportCrop => ({
+    ...start,
+    x: clamp(start.x + dx, 0, 1 - start.width),
+    y: clamp(start.y + dy, 0, 1 - start.height),
+});
+
+/**
+ * 拖曳某个角调整大小：对角固定；锁定比例时高度跟着宽度，碰到画面边缘就一起缩
+ */
+export const resizeCrop = (
+    start: ExportCrop,
+    handle: CropHandle,
+    dx: number,
+    dy: number,
+    aspect: CropAspect,
+    source: FrameSize
+): ExportCrop => {
+    const movesLeft = handle === 'nw' || handle === 'sw';
+    const movesTop = handle === 'nw' || handle === 'ne';
+    const anchorX = movesLeft ? start.x + start.width : start.x;
+    const anchorY = movesTop ? start.y + start.height : start.y;
+    const pointX = clamp((movesLeft ? start.x : start.x + start.width) + dx, 0, 1);
+    const pointY = clamp((movesTop ? start.y : start.y + start.height) + dy, 0, 1);
+
+    // 往左 / 往上拉时，可用空间是锚点到画面边缘的距离
+    const maxWidth = movesLeft ? anchorX : 1 - anchorX;
+    const maxHeight = movesTop ? anchorY : 1 - anchorY;
+    let width = clamp(Math.abs(pointX - anchorX), MIN_CROP_SIZE, maxWidth);
+    let height = clamp(Math.abs(pointY - anchorY), MIN_CROP_SIZE, maxHeight);
+
+    if (aspect !== 'free') {
+        const ratio = CROP_ASPECT_RATIOS[aspect];
+        height = heightForWidth(width, ratio, source);
+        if (height > maxHeight) {
+            height = maxHeight;
+            width = widthForHeight(height, ratio, source);
+        }
+    }
+
+    return {
+        x: movesLeft ? anchorX - width : anchorX,
+        y: movesTop ? anchorY - height : anchorY,
+        width,
+        height,
+    };
+};
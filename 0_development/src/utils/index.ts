@@ -2,3 +2,5 @@ export { formatTime, generateFileName, formatBytes } from './format';
 export { StreamCompositor } from './StreamCompositor';
 export type { CompositionOptions } from './StreamCompositor';
 export { AudioVisualizer, audioVisualizer } from './AudioVisualizer';
+export { captureVideoFrame, captureVideoFrames } from './videoFrames';
+export { computeWaveform, pickWaveformLevel, WAVEFORM_VERSION } from './waveform';
@@ -0,0 +1,63 @@
+/**
+ * 静音区间侦测
+ * - 直接用已算好的波形（最细一层 10ms 峰值），不需要再解码或跑 FFmpeg
+ * - 判断方式与 FFmpeg silencedetect 相同：峰值低于门槛、且持续超过最短时长
+ */
+
+import type { TrimRange, WaveformData } from '../types';
+
+export interface SilenceDetectionSettings {
+    /** 门槛（dBFS），低于此音量视为静音 */
+    thresholdDb: number;
+    /** 最短静音时长（秒） */
+    minDuration: number;
+    /** 两侧各保留的留白（秒），避免切到字头字尾 */
+    padding: number;
+}
+
+export const DEFAULT_SILENCE_DETECTION: SilenceDetectionSettings = {
+    thresholdDb: -40,
+    minDuration: 0.8,
+    padding: 0.15,
+};
+
+// 扣掉留白后太短的区间就不删
+const MIN_SILENCE_RANGE_SECONDS = 0.1;
+
+/**
+ * 找出录制中的静音区间（录制时间，秒）
+ * - 录制开头 / 结尾的静音不留白（前后没有话要保护）
+ */
+export const detectSilences = (waveform: WaveformData, settings: SilenceDetectionSettings): TrimRange[] => {
+    const level = waveform.levels[0];
+    if (!waveform.hasAudio || !level) return [];
+
+    const threshold = Math.pow(10, settings.thresholdDb / 20);
+    const bucketSeconds = 1 / level.bucketsPerSecond;
+    const duration = waveform.duration || level.peaks.length * bucketSeconds;
+    const ranges: TrimRange[] = [];
+
+    const pushRange = (from: number, to: number) => {
+        const start = from * bucketSeconds;
+        const end = Math.min(duration, to * bucketSeconds);
+        if (end - start < settings.minDuration) return;
+
+        const paddedStart = start <= 0 ? 0 : start + settings.padding;
+        const paddedEnd = end >= duration ? duration : end - settings.padding;
+        if (paddedEnd - paddedStart < MIN_SILENCE_RANGE_SECONDS) return;
+        ranges.push({ start: paddedStart, end: paddedEnd });
+    };
+
+    let runStart = -1;
+    for (let i = 0; i < level.peaks.length; i++) {
+        if (level.peaks[i] < threshold) {
+            if (runStart < 0) runStart = i;
+        } else if (runStart >= 0) {
+            pushRange(runStart, i);
+            runStart = -1;
+        }
+    }
+    if (runStart >= 0) pushRange(runStart, level.peaks.length);
+
+    return ranges;
+};
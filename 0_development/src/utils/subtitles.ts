@@ -0,0 +1,77 @@
+/**
+ * 字幕档（SRT / WebVTT）读写
+ * - 读取时两种格式共用同一套解析：以空行分段，找含「-->」的时间行
+ * - 不支援的样式标签（<i>、{\an8} 等）直接去掉，只保留纯文字
+ */
+
+import type { ExportSubtitleCue, SubtitleCue } from '../types';
+
+export type SubtitleFileFormat = 'srt' | 'vtt';
+
+// 00:01:02,345 / 00:01:02.345 / 01:02.345（VTT 可省略小时）
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/;
+
+const parseTimestamp = (value: string): number | null => {
+    const match = TIMESTAMP_PATTERN.exec(value.trim());
+    if (!match) return null;
+    const [, hours = '0', minutes, seconds, fraction] = match;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+};
+
+const stripTags = (text: string) => text
+    .replace(/<[^>]+>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ');
+
+const createCueId = () => `cue_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * 解析 SRT / WebVTT 内容，依开始时间排序
+ * - 时间无效、结束不晚于开始、或没有文字的段落会被略过
+ */
+export const parseSubtitles = (content: string): SubtitleCue[] => {
+    const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+    const cues: SubtitleCue[] = [];
+
+    for (const block of blocks) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex((line) => line.includes('-->'));
+        if (timingIndex < 0) continue; // WEBVTT 标头、NOTE、STYLE 等
+
+        // VTT 的时间行后面可能接 cue 设定（align:start 等）
+        const [startRaw, endRaw = ''] = lines[timingIndex].split('-->');
+        const start = parseTimestamp(startRaw);
+        const end = parseTimestamp(endRaw.trim().split(/\s+/)[0]);
+        const text = stripTags(lines.slice(timingIndex + 1).join('\n')).trim();
+        if (start === null || end === null || end <= start || !text) continue;
+
+        cues.push({ id: createCueId(), start, end, text });
+    }
+
+    return cues.sort((a, b) => a.start - b.start);
+};
+
+const formatTimestamp = (seconds: number, format: SubtitleFileFormat) => {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3_600_000);
+    const minutes = Math.floor(totalMs / 60_000) % 60;
+    const secs = Math.floor(totalMs / 1000) % 60;
+    const ms = totalMs % 1000;
+    const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${format === 'srt' ? ',' : '.'}${pad(ms, 3)}`;
+};
+
+/**
+ * 输出成 SRT / WebVTT 文字（cue 时间照传入的值，不做换算）
+ */
+export const formatSubtitles = (cues: ExportSubtitleCue[], format: SubtitleFileFormat) => {
+    const blocks = cues.map((cue, i) => {
+        const timing = `${formatTimestamp(cue.start, format)} --> ${formatTimestamp(cue.end, format)}`;
+        return format === 'srt' ? `${i + 1}\n${timing}\n${cue.text}` : `${timing}\n${cue.text}`;
+    });
+    const body = blocks.join('\n\n');
+    return format === 'vtt' ? `WEBVTT\n\n${body}\n` : `${body}\n`;
+};
@@ -0,0 +1,108 @@
+/**
+ * 从视频中抓取画面（缩略图用）
+ * - 使用隐藏的 <video> + canvas，不经过 FFmpeg（速度快、不占用 wasm）
+ */
+
+const SEEK_TIMEOUT_MS = 5000;
+const DEFAULT_FRAME_WIDTH = 320;
+const JPEG_QUALITY = 0.7;
+
+const waitForEvent = (el: HTMLVideoElement, event: 'loadeddata' | 'seeked') => {
+    return new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            cleanup();
+            reject(new Error(`Timed out waiting for video "${event}"`));
+        }, SEEK_TIMEOUT_MS);
+        const onDone = () => {
+            cleanup();
+            resolve();
+        };
+        const onError = () => {
+            cleanup();
+            reject(el.error ?? new Error('Video element error'));
+        };
+        const cleanup = () => {
+            clearTimeout(timer);
+            el.removeEventListener(event, onDone);
+            el.removeEventListener('error', onError);
+        };
+        el.addEventListener(event, onDone);
+        el.addEventListener('error', onError);
+    });
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement) => {
+    return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+};
+
+/**
+ * 依序抓取多个时间点的画面（共用同一个 video 元素，避免重复解码 metadata）
+ * - onFrame：每抓到一张就回调，方便 UI 逐步显示
+ * - signal：可中止（例如编辑器被卸载）
+ */
+export const captureVideoFrames = async (
+    src: string,
+    times: number[],
+    options: {
+        width?: number;
+        signal?: AbortSignal;
+        onFrame?: (index: number, time: number, frame: Blob) => void;
+    } = {},
+): Promise<Array<Blob | null>> => {
+    const { width = DEFAULT_FRAME_WIDTH, signal, onFrame } = options;
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.src = src;
+
+    const results: Array<Blob | null> = times.map(() => null);
+
+    try {
+        await waitForEvent(video, 'loadeddata');
+
+        const vw = video.videoWidth || 16;
+        const vh = video.videoHeight || 9;
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(width));
+        canvas.height = Math.max(1, Math.round((width * vh) / vw));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return results;
+
+        const duration = Number.isFinite(video.duration) ? video.duration : Infinity;
+
+        for (let i = 0; i < times.length; i++) {
+            if (signal?.aborted) break;
+            // 最后一帧常常抓不到（seek 到结尾会黑屏），稍微往前一点
+            const target = Math.max(0, Math.min(times[i], duration - 0.05));
+            video.currentTime = target;
+            try {
+                await waitForEvent(video, 'seeked');
+            } catch {
+                continue;
+            }
+            ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+            const blob = await canvasToBlob(canvas);
+            results[i] = blob;
+            if (blob) onFrame?.(i, times[i], blob);
+        }
+    } finally {
+        video.removeAttribute('src');
+        video.load();
+    }
+
+    return results;
+};
+
+/**
+ * 抓取单一画面（素材库缩略图）
+ */
+export const captureVideoFrame = async (src: string, time: number, width = DEFAULT_FRAME_WIDTH): Promise<Blob | null> => {
+    try {
+        const [frame] = await captureVideoFrames(src, [time], { width });
+        return frame;
+    } catch (error) {
+        console.warn('Failed to capture video frame:', error);
+        return null;
+    }
+};
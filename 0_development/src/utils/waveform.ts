@@ -0,0 +1,124 @@
+/**
+ * 录制的音频波形（峰值 / RMS 包络）
+ * - 用 OfflineAudioContext 解码一次，之后缩成多层解析度（缩放时挑最接近的一层）
+ * - 结果存进 IndexedDB 的独立 store（见 waveformStorageService）
+ * - 长录制整段解码会吃掉大量内存：用低取样率解码，档案过大就直接跳过
+ */
+
+import type { WaveformData, WaveformLevel } from '../types';
+
+// 格式变更时 +1，旧快取会被重新计算
+export const WAVEFORM_VERSION = 1;
+
+// 最细一层：每秒 100 个 bucket（10ms）
+const BASE_BUCKETS_PER_SECOND = 100;
+// 每往上一层合并 4 个 bucket
+const LEVEL_FACTOR = 4;
+// bucket 数少于这个就不再往上合并
+const MIN_LEVEL_LENGTH = 64;
+// 解码用的取样率：画波形 / 侦测静音不需要高频，PCM 只有 44.1kHz 的约 1/5（一小时双声道约 230MB）
+const DECODE_SAMPLE_RATE = 8000;
+// 录制档超过这个大小就不计算波形（整个档案要先读进内存才能解码）
+export const MAX_WAVEFORM_SOURCE_BYTES = 512 * 1024 * 1024;
+
+/**
+ * 由细到粗建立其余层级（峰值取 max，RMS 依能量平均）
+ */
+const buildCoarserLevel = (level: WaveformLevel): WaveformLevel => {
+    const length = Math.ceil(level.peaks.length / LEVEL_FACTOR);
+    const peaks = new Float32Array(length);
+    const rms = new Float32Array(length);
+
+    for (let i = 0; i < length; i++) {
+        let peak = 0;
+        let energy = 0;
+        let count = 0;
+        for (let j = i * LEVEL_FACTOR; j < Math.min((i + 1) * LEVEL_FACTOR, level.peaks.length); j++) {
+            peak = Math.max(peak, level.peaks[j]);
+            energy += level.rms[j] * level.rms[j];
+            count++;
+        }
+        peaks[i] = peak;
+        rms[i] = count > 0 ? Math.sqrt(energy / count) : 0;
+    }
+
+    return { bucketsPerSecond: level.bucketsPerSecond / LEVEL_FACTOR, peaks, rms };
+};
+
+/**
+ * 解码录制的音频并计算波形；没有音轨时回传 hasAudio = false
+ */
+export const computeWaveform = async (blob: Blob, signal?: AbortSignal): Promise<WaveformData> => {
+    const empty: WaveformData = { version: WAVEFORM_VERSION, duration: 0, hasAudio: false, peakAmplitude: 0, levels: [] };
+
+    if (blob.size > MAX_WAVEFORM_SOURCE_BYTES) {
+        console.warn('Recording too large for waveform, skipped:', blob.size);
+        return empty;
+    }
+
+    const buffer = await blob.arrayBuffer();
+    if (signal?.aborted) return empty;
+
+    let audio: AudioBuffer;
+    try {
+        // OfflineAudioContext 只用来解码（会重新取样成 context 的取样率），不会真的播放
+        const ctx = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+        audio = await ctx.decodeAudioData(buffer);
+    } catch (error) {
+        // 没有音轨（或浏览器无法解码该格式）
+        console.warn('Failed to decode audio for waveform:', error);
+        return empty;
+    }
+    if (signal?.aborted) return empty;
+
+    const samplesPerBucket = Math.max(1, Math.floor(audio.sampleRate / BASE_BUCKETS_PER_SECOND));
+    const length = Math.ceil(audio.length / samplesPerBucket);
+    const peaks = new Float32Array(length);
+    const rms = new Float32Array(length);
+    const channels = Array.from({ length: audio.numberOfChannels }, (_, c) => audio.getChannelData(c));
+
+    let peakAmplitude = 0;
+    for (let i = 0; i < length; i++) {
+        const from = i * samplesPerBucket;
+        const to = Math.min(from + samplesPerBucket, audio.length);
+        let peak = 0;
+        let energy = 0;
+        for (const data of channels) {
+            for (let s = from; s < to; s++) {
+                const v = data[s];
+                const abs = v < 0 ? -v : v;
+                if (abs > peak) peak = abs;
+                energy += v * v;
+            }
+        }
+        const count = (to - from) * channels.length;
+        peaks[i] = peak;
+        rms[i] = count > 0 ? Math.sqrt(energy / count) : 0;
+        if (peak > peakAmplitude) peakAmplitude = peak;
+    }
+
+    const levels: WaveformLevel[] = [{ bucketsPerSecond: audio.sampleRate / samplesPerBucket, peaks, rms }];
+    while (levels[levels.length - 1].peaks.length > MIN_LEVEL_LENGTH) {
+        levels.push(buildCoarserLevel(levels[levels.length - 1]));
+    }
+
+    return {
+        version: WAVEFORM_VERSION,
+        duration: audio.duration,
+        hasAudio: true,
+        peakAmplitude,
+        levels,
+    };
+};
+
+/**
+ * 挑选足够细的层级：每个像素至少对应一个 bucket（找不到就用最细的一层）
+ */
+export const pickWaveformLevel = (waveform: WaveformData, pixelsPerSecond: number): WaveformLevel | null => {
+    if (waveform.levels.length === 0) return null;
+    // levels 由细到粗，从最粗的开始找
+    for (let i = waveform.levels.length - 1; i >= 0; i--) {
+        if (waveform.levels[i].bucketsPerSecond >= pixelsPerSecond) return waveform.levels[i];
+    }
+    return waveform.levels[0];
+};